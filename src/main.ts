@@ -25,6 +25,12 @@ import { renderSubscription } from "./Subscription";
 import { BonWorkflowSettingTab } from "./settingTab";
 import { TypstScriptManager } from "./typst/typstScriptManager";
 import { TypstConverter } from "./typst/typstConverter";
+import { TemplateParameterModal } from "./typst/typstTemplateParameterModal";
+import {
+	exportTemplateBundle,
+	TemplateBundleImportModal,
+	TemplateSuggestModal,
+} from "./typst/typstTemplateBundleModal";
 import { DEFAULT_TYPST_SETTINGS } from "./typst/typstSettings";
 import { TYPST_VIEW_TYPE, TypstView } from "./typst/typstView";
 import {
@@ -34,6 +40,11 @@ import {
 import { TypstAPI } from "./typst/api";
 import { TypstWasmRenderer } from "./typst/typstWasmRenderer";
 import { createTypstCodeBlockProcessor } from "./typst/typstCodeBlockProcessor";
+import { createPreviewSyncExtension } from "./typst/typstPreviewSync";
+import {
+	TransformerExtensions,
+	type TypstSourceMap,
+} from "./typst/transformer";
 
 export default class BonWorkflow extends Plugin {
 	private folderNames: FolderTaskItem[] = [];
@@ -42,6 +53,8 @@ export default class BonWorkflow extends Plugin {
 	private typstConverter: TypstConverter | null = null;
 	private typstScriptManager: TypstScriptManager | null = null;
 	private typstAPI: TypstAPI | null = null;
+	// Kept across settings reloads so API registrations survive refreshTypstFeatures()
+	private readonly typstExtensions = new TransformerExtensions();
 	private typstWasmRenderer: any = null; // TypstWasmRenderer instance
 
 	public settings: bon2workflowSettings;
@@ -85,6 +98,26 @@ export default class BonWorkflow extends Plugin {
 			);
 		}
 
+		// Keep the preview in sync with the editor cursor and scroll position
+		// Registered once; the preview mode is checked on every event so settings changes apply
+		this.registerEditorExtension(
+			createPreviewSyncExtension((event) => {
+				if (
+					!this.settings.typst?.enabled ||
+					this.settings.typst.previewMode !== "wasm"
+				) {
+					return;
+				}
+				for (const leaf of this.app.workspace.getLeavesOfType(
+					TYPST_PREVIEW_VIEW_TYPE
+				)) {
+					if (leaf.view instanceof TypstPreviewView) {
+						leaf.view.syncWithEditor(event);
+					}
+				}
+			})
+		);
+
 		// Add settings tab
 		this.addSettingTab(new BonWorkflowSettingTab(this.app, this));
 
@@ -291,18 +324,21 @@ export default class BonWorkflow extends Plugin {
 			this.typstConverter = new TypstConverter(
 				this.app,
 				this.settings.typst,
-				this.typstScriptManager
+				this.typstScriptManager,
+				this.typstExtensions
 			);
 
 			// Set preview update callback (according to preview mode)
 			const previewMode = this.settings.typst.previewMode;
 			if (previewMode !== "none") {
 				this.typstConverter.setPreviewUpdateCallback(
-					async (file, typstCode) => {
+					async (file, typstCode, sourceMap, embedModules) => {
 						await this.updateTypstPreview(
 							file,
 							typstCode,
-							previewMode
+							previewMode,
+							sourceMap,
+							embedModules
 						);
 					}
 				);
@@ -400,6 +436,14 @@ export default class BonWorkflow extends Plugin {
 				convert: this.typstAPI.convert.bind(this.typstAPI),
 				convertAsync: this.typstAPI.convertAsync.bind(this.typstAPI),
 				listScripts: this.typstAPI.listScripts.bind(this.typstAPI),
+				registerRemarkPlugin: this.typstAPI.registerRemarkPlugin.bind(
+					this.typstAPI
+				),
+				registerNodeGenerator: this.typstAPI.registerNodeGenerator.bind(
+					this.typstAPI
+				),
+				typstToMarkdown: this.typstAPI.typstToMarkdown.bind(this.typstAPI),
+				getCacheStats: this.typstAPI.getCacheStats.bind(this.typstAPI),
 			};
 
 			console.log(
@@ -534,7 +578,9 @@ export default class BonWorkflow extends Plugin {
 	private async updateTypstPreview(
 		file: TFile,
 		typstCode: string,
-		mode: "wasm" | "compile"
+		mode: "wasm" | "compile",
+		sourceMap: TypstSourceMap = [],
+		embedModules: Map<string, string> = new Map()
 	): Promise<void> {
 		const { workspace } = this.app;
 
@@ -549,10 +595,15 @@ export default class BonWorkflow extends Plugin {
 						// WASM mode: Render Typst code, fallback to CLI on failure
 						const format =
 							this.settings.typst?.compileFormat ?? "svg";
+						// Embedded note modules are not in the WASM file system
+						if (embedModules.size && this.typstWasmRenderer) {
+							await this.typstWasmRenderer.setSources(embedModules);
+						}
 						await view.updatePreviewWithFallback(
 							file,
 							typstCode,
-							format
+							format,
+							sourceMap
 						);
 					} else if (mode === "compile" && this.typstConverter) {
 						// CLI mode: Write Typst code to file, compile, and load result
@@ -705,6 +756,219 @@ export default class BonWorkflow extends Plugin {
 			},
 		});
 
+		const checkBook = (
+			checking: boolean,
+			run: (converter: TypstConverter, file: TFile) => Promise<unknown>
+		) => {
+			const converter = this.typstConverter;
+			const file = this.app.workspace.getActiveFile();
+			if (
+				!converter ||
+				!file ||
+				file.extension.toLowerCase() !== "md" ||
+				!converter.isBookManifest(this.app.metadataCache.getFileCache(file))
+			) {
+				return false;
+			}
+			if (!checking) {
+				run(converter, file).catch((error) =>
+					console.error("Typst book build failed", error)
+				);
+			}
+			return true;
+		};
+
+		this.addCommand({
+			id: "build-typst-book",
+			name: "Build Typst book from current note and compile to PDF",
+			checkCallback: (checking) =>
+				checkBook(checking, (converter, file) =>
+					converter.compileBook(file, { format: "pdf" })
+				),
+		});
+
+		this.addCommand({
+			id: "preview-typst-book",
+			name: "Preview Typst book from current note",
+			checkCallback: (checking) =>
+				checkBook(checking, async (converter, file) => {
+					await this.activateTypstPreviewView();
+					await converter.previewBook(file);
+				}),
+		});
+
+		this.addCommand({
+			id: "edit-typst-template-parameters",
+			name: "Edit template parameters of current note",
+			checkCallback: (checking) => {
+				const converter = this.typstConverter;
+				const file = this.app.workspace.getActiveFile();
+				if (
+					!converter ||
+					!this.settings.typst?.enableTemplateSystem ||
+					!file ||
+					file.extension.toLowerCase() !== "md"
+				) {
+					return false;
+				}
+				if (checking) {
+					return true;
+				}
+				const templateName = converter.selectTemplate(
+					file,
+					this.app.metadataCache.getFileCache(file)
+				);
+				converter
+					.getTemplateSchema(templateName)
+					.then((schema) =>
+						new TemplateParameterModal(this.app, {
+							file,
+							templateName,
+							schema,
+						}).open()
+					)
+					.catch((error) =>
+						console.error("Failed to load template schema", error)
+					);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "import-typst-template-bundle",
+			name: "Import Typst template bundle",
+			checkCallback: (checking) => {
+				const manager = this.typstConverter?.getTemplateManager();
+				if (!manager || !this.settings.typst?.enableTemplateSystem) {
+					return false;
+				}
+				if (!checking) {
+					new TemplateBundleImportModal(this.app, manager).open();
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "export-typst-template-bundle",
+			name: "Export Typst template bundle",
+			checkCallback: (checking) => {
+				const manager = this.typstConverter?.getTemplateManager();
+				if (!manager || !this.settings.typst?.enableTemplateSystem) {
+					return false;
+				}
+				if (checking) {
+					return true;
+				}
+				manager
+					.listTemplates()
+					.then((templates) =>
+						new TemplateSuggestModal(this.app, templates, (name) => {
+							void exportTemplateBundle(manager, name);
+						}).open()
+					)
+					.catch((error) =>
+						console.error("Failed to list templates", error)
+					);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "export-typst-template-bundle-zip",
+			name: "Export Typst template bundle as zip",
+			checkCallback: (checking) => {
+				const manager = this.typstConverter?.getTemplateManager();
+				if (!manager || !this.settings.typst?.enableTemplateSystem) {
+					return false;
+				}
+				if (checking) {
+					return true;
+				}
+				manager
+					.listTemplates()
+					.then((templates) =>
+						new TemplateSuggestModal(this.app, templates, (name) => {
+							void exportTemplateBundle(manager, name, "zip");
+						}).open()
+					)
+					.catch((error) =>
+						console.error("Failed to list templates", error)
+					);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "import-typst-as-markdown",
+			name: "Import current Typst file as Markdown note",
+			checkCallback: (checking) => {
+				const converter = this.typstConverter;
+				const file = this.app.workspace.getActiveFile();
+				if (!converter || !file || file.extension.toLowerCase() !== "typ") {
+					return false;
+				}
+				if (checking) {
+					return true;
+				}
+				converter
+					.importTypstFile(file)
+					.then((note) => this.app.workspace.getLeaf(false).openFile(note))
+					.catch((error) => {
+						const message =
+							error instanceof Error ? error.message : String(error);
+						new Notice(`Typst import failed: ${message}`);
+					});
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "show-typst-cache-stats",
+			name: "Show Typst conversion cache statistics",
+			checkCallback: (checking) => {
+				const converter = this.typstConverter;
+				if (!converter) {
+					return false;
+				}
+				if (checking) {
+					return true;
+				}
+				const stats = converter.getConversionCache().getStats();
+				const describe = (
+					label: string,
+					{ hits, misses, entries }: { hits: number; misses: number; entries: number }
+				) => {
+					const total = hits + misses;
+					const rate = total ? Math.round((hits / total) * 100) : 0;
+					return `${label}: ${hits} hits, ${misses} misses (${rate}%), ${entries} cached`;
+				};
+				console.info("[Typst] Conversion cache statistics", stats);
+				new Notice(
+					`${describe("Blocks", stats.blocks)}\n${describe("Files", stats.files)}`,
+					8000
+				);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "clear-typst-cache",
+			name: "Clear Typst conversion cache",
+			checkCallback: (checking) => {
+				const converter = this.typstConverter;
+				if (!converter) {
+					return false;
+				}
+				if (checking) {
+					return true;
+				}
+				converter.getConversionCache().clear();
+				new Notice("Typst conversion cache cleared");
+				return true;
+			},
+		});
+
 		this.addCommand({
 			id: "open-typst-preview",
 			name: "Open Typst preview",
@@ -1,7 +1,11 @@
 import type {
+	CitationNode,
 	EmbedDocumentNode,
+	HtmlElementNode,
 	ObsidianBlockRefNode,
 	ObsidianCalloutNode,
+	ObsidianCommentNode,
+	ObsidianFigureNode,
 	ObsidianHighlightNode,
 	ObsidianTagNode,
 	ObsidianWikiLinkNode,
@@ -15,11 +19,17 @@ declare module "mdast" {
 		obsidianBlockRef: ObsidianBlockRefNode;
 		obsidianHighlight: ObsidianHighlightNode;
 		embedDocument: EmbedDocumentNode;
+		figure: ObsidianFigureNode;
+		htmlElement: HtmlElementNode;
+		citation: CitationNode;
+		obsidianComment: ObsidianCommentNode;
 	}
 
 	interface BlockContentMap {
 		callout: ObsidianCalloutNode;
+		figure: ObsidianFigureNode;
 		embedDocument: EmbedDocumentNode;
+		htmlElement: HtmlElementNode;
 	}
 
 	interface PhrasingContentMap {
@@ -27,5 +37,8 @@ declare module "mdast" {
 		obsidianTag: ObsidianTagNode;
 		obsidianBlockRef: ObsidianBlockRefNode;
 		obsidianHighlight: ObsidianHighlightNode;
+		htmlElement: HtmlElementNode;
+		citation: CitationNode;
+		obsidianComment: ObsidianCommentNode;
 	}
 }
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { createSandboxTransformer, executeSandbox } from "../typstSandbox";
+import {
+	generateTypst,
+	parseMarkdown,
+	TransformerExtensions,
+} from "../transformer";
+
+function createTransformer() {
+	const extensions = new TransformerExtensions();
+	return createSandboxTransformer(extensions, {
+		parse: (markdown) => parseMarkdown(markdown, { extensions }),
+		generate: async (tree, options = {}) =>
+			(await generateTypst(tree, { extensions, ...options })).typst,
+	});
+}
+
+describe("Script sandbox", () => {
+	it("runs transform() with convertToTypst", async () => {
+		const result = await executeSandbox(
+			"async function transform(content) { return (await convertToTypst(content)).toUpperCase(); }",
+			"hello",
+			async (markdown) => `[${markdown}]`
+		);
+
+		expect(result).toBe("[HELLO]");
+	});
+
+	it("gives scripts the mdast tree and per-node generators", async () => {
+		const script = `
+async function transform(content) {
+	const { parse, map, generate } = transformer;
+	const tree = await parse(content);
+	map(tree, (node) => (node.type === "obsidianTag" ? null : undefined));
+	return generate(tree, {
+		generators: {
+			heading: (node, { renderChildren }) =>
+				"#align(center)[" + renderChildren(node.children) + "]\\n\\n",
+		},
+	});
+}`;
+
+		const result = await executeSandbox(
+			script,
+			"# Title\n\nBody #draft",
+			undefined,
+			createTransformer()
+		);
+
+		expect(result).toMatch(/^#align\(center\)\[Title\]\n\nBody\s/);
+		expect(result).not.toContain("draft");
+	});
+
+	it("reports scripts without transform()", async () => {
+		await expect(executeSandbox("const x = 1;", "")).rejects.toThrow(
+			"Script must define a transform() function"
+		);
+	});
+});
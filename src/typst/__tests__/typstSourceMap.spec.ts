@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import {
+	findAnchorAtOffset,
+	findAnchorForLine,
+	injectSourceMarkers,
+	offsetSourceMap,
+	parseSourcePositions,
+} from "../typstSourceMap";
+
+const sourceMap = [
+	{ markdown: { start: 1, end: 1 }, typst: { start: 1, end: 1 } },
+	{ markdown: { start: 3, end: 4 }, typst: { start: 3, end: 4 } },
+];
+
+describe("Preview source map", () => {
+	it("shifts the map to where the body sits in the document", () => {
+		const body = "= Title\n\nText\nmore\n";
+
+		expect(offsetSourceMap(sourceMap, `#set page(a4)\n\n${body}`, body)).toEqual([
+			{ markdown: { start: 1, end: 1 }, typst: { start: 3, end: 3 } },
+			{ markdown: { start: 3, end: 4 }, typst: { start: 5, end: 6 } },
+		]);
+		expect(offsetSourceMap(sourceMap, "#show: rewritten", body)).toEqual([]);
+	});
+
+	it("injects a marker before each mapped block", () => {
+		const marked = injectSourceMarkers("= Title\n\nText\nmore", sourceMap).split("\n");
+
+		expect(marked).toHaveLength(6);
+		expect(marked[0]).toContain("line: 1,");
+		expect(marked[0]).toContain("<bon-src>");
+		expect(marked[1]).toBe("= Title");
+		expect(marked[3]).toContain("line: 3,");
+		expect(marked[4]).toBe("Text");
+	});
+
+	it("ignores malformed query results", () => {
+		expect(parseSourcePositions(null)).toEqual([]);
+		expect(
+			parseSourcePositions([{ line: 1, page: 1, y: 20.5 }, { line: "2" }])
+		).toEqual([{ line: 1, page: 1, y: 20.5 }]);
+	});
+
+	it("finds the anchor for a line and an offset", () => {
+		const anchors = [
+			{ line: 1, top: 10 },
+			{ line: 3, top: 60 },
+			{ line: 8, top: 140 },
+		];
+
+		expect(findAnchorForLine(anchors, 4)).toBe(1);
+		expect(findAnchorForLine(anchors, 8)).toBe(2);
+		expect(findAnchorAtOffset(anchors, 5)).toBe(-1);
+		expect(findAnchorAtOffset(anchors, 100)).toBe(1);
+	});
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+	findRootPaths,
+	parseBundleManifest,
+	relocateAssets,
+	rewriteAssetPaths,
+} from "../typstTemplateBundle";
+
+describe("Template bundles", () => {
+	it("parses manifests with defaults", () => {
+		expect(
+			parseBundleManifest('{"name": "report", "assets": ["./logo.png", "fonts\\\\Inter.ttf"]}')
+		).toEqual({
+			name: "report",
+			version: undefined,
+			description: undefined,
+			template: "template.typ",
+			assets: ["logo.png", "fonts/Inter.ttf"],
+		});
+	});
+
+	it("rejects invalid manifests", () => {
+		expect(() => parseBundleManifest("{")).toThrow("not valid JSON");
+		expect(() => parseBundleManifest('{"name": "a/b"}')).toThrow('"name"');
+		expect(() =>
+			parseBundleManifest('{"name": "a", "template": "main.md"}')
+		).toThrow("relative .typ path");
+		expect(() =>
+			parseBundleManifest('{"name": "a", "assets": ["../secret.png"]}')
+		).toThrow("inside the bundle folder");
+	});
+
+	it("rewrites asset literals to vault-root paths", () => {
+		const template =
+			'#image("logo.png", width: 2cm)\n#image("./img/seal.svg")\n#let note = "logo.png is fine"';
+
+		expect(
+			rewriteAssetPaths(template, ["logo.png", "img/seal.svg"], "typst-templates/report")
+		).toBe(
+			'#image("/typst-templates/report/logo.png", width: 2cm)\n#image("/typst-templates/report/img/seal.svg")\n#let note = "logo.png is fine"'
+		);
+	});
+
+	it("collects and relocates vault files for export", () => {
+		const template = [
+			'#image("/typst-templates/report/logo.png")',
+			'#image("/Attachments/logo.png")',
+			'#bibliography("/refs/library.bib")',
+			'#let sep = "/"',
+		].join("\n");
+
+		const rootPaths = findRootPaths(template);
+		expect(rootPaths).toEqual([
+			"/typst-templates/report/logo.png",
+			"/Attachments/logo.png",
+			"/refs/library.bib",
+		]);
+
+		const relocated = relocateAssets(template, rootPaths, "typst-templates/report");
+		expect([...relocated.assets]).toEqual([
+			["typst-templates/report/logo.png", "logo.png"],
+			["Attachments/logo.png", "assets/logo.png"],
+			["refs/library.bib", "assets/library.bib"],
+		]);
+		expect(relocated.template).toBe(
+			[
+				'#image("logo.png")',
+				'#image("assets/logo.png")',
+				'#bibliography("assets/library.bib")',
+				'#let sep = "/"',
+			].join("\n")
+		);
+	});
+
+	it("keeps relocated file names unique", () => {
+		const { assets } = relocateAssets("", ["/a/logo.png", "/b/logo.png"]);
+
+		expect([...assets.values()]).toEqual(["assets/logo.png", "assets/logo-2.png"]);
+	});
+});
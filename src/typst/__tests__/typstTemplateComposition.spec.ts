@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { TemplateCompositionError } from "../typstErrors";
+import {
+	composeTemplate,
+	parseTemplateReferences,
+} from "../typstTemplateComposition";
+
+function createLoader(templates: Record<string, string>) {
+	return async (name: string) => templates[name] ?? null;
+}
+
+describe("Template composition", () => {
+	it("reads extends and include references", () => {
+		expect(
+			parseTemplateReferences(
+				'//@extends "base.typ"\n//@include partials/header\n//@include ./fonts'
+			)
+		).toEqual({ extends: "base", includes: ["partials/header", "fonts"] });
+	});
+
+	it("replaces include lines with the resolved partial", async () => {
+		const loader = createLoader({
+			"partials/header": "//@include fonts\n#set heading(numbering: \"1.\")\n",
+			fonts: '#set text(font: "Inter")',
+		});
+
+		const result = await composeTemplate(
+			"report",
+			'#set page(paper: "a4")\n//@include partials/header\n= Start',
+			loader
+		);
+
+		expect(result).toBe(
+			'#set page(paper: "a4")\n#set text(font: "Inter")\n#set heading(numbering: "1.")\n= Start'
+		);
+	});
+
+	it("places the base template before the extending template", async () => {
+		const loader = createLoader({
+			base: [
+				"//@param title: string",
+				"//@param date: date",
+				"//@wrap base-layout",
+				"#let base-layout(body) = body",
+			].join("\n"),
+		});
+
+		const result = await composeTemplate(
+			"thesis",
+			"//@extends base\n//@param title: string required\n//@wrap thesis\n#let thesis(body) = base-layout(body)",
+			loader
+		);
+
+		expect(result).toBe(
+			[
+				"//@param date: date",
+				"#let base-layout(body) = body",
+				"",
+				"//@param title: string required",
+				"//@wrap thesis",
+				"#let thesis(body) = base-layout(body)",
+			].join("\n")
+		);
+	});
+
+	it("reports missing references", async () => {
+		const compose = composeTemplate(
+			"report",
+			"//@extends base",
+			createLoader({ base: "//@include partials/missing" })
+		);
+
+		await expect(compose).rejects.toThrow(TemplateCompositionError);
+		await expect(compose).rejects.toThrow(
+			'"base" includes "partials/missing", which does not exist'
+		);
+	});
+
+	it("detects circular references", async () => {
+		const loader = createLoader({
+			a: "//@include b",
+			b: "//@extends report",
+		});
+
+		await expect(
+			composeTemplate("report", "//@include a", loader)
+		).rejects.toThrow("circular reference: report → a → b → report");
+	});
+
+	it("allows the same partial in separate branches", async () => {
+		const loader = createLoader({ fonts: "F", a: "//@include fonts" });
+
+		await expect(
+			composeTemplate("report", "//@include fonts\n//@include a", loader)
+		).resolves.toBe("F\nF");
+	});
+});
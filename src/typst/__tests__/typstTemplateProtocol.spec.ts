@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+	applyTemplate,
+	detectTemplateKind,
+	parseFunctionParameters,
+	toTypstLiteral,
+} from "../typstTemplateProtocol";
+import { DEFAULT_TEMPLATE_CONTENT } from "../typstTemplateManager";
+
+const WRAP_TEMPLATE = [
+	"//@wrap project",
+	'#let project(title: "", authors: (), date: none, body) = {',
+	"  set document(title: title)",
+	"  align(center, text(17pt, title))",
+	"  body",
+	"}",
+].join("\n");
+
+describe("Template protocol", () => {
+	it("keeps prepending plain templates", () => {
+		expect(applyTemplate("#set page(paper: \"a4\")", "= Body\n")).toBe(
+			'#set page(paper: "a4")\n\n= Body\n'
+		);
+		expect(detectTemplateKind(DEFAULT_TEMPLATE_CONTENT)).toBe("prepend");
+	});
+
+	it("replaces the content slot", () => {
+		const result = applyTemplate(
+			"#set page(margin: 1cm)\n#block[{{content}}]\n// end",
+			"Body"
+		);
+
+		expect(result).toBe("#set page(margin: 1cm)\n#block[Body]\n// end");
+	});
+
+	it("wraps the body with the declared function and frontmatter arguments", () => {
+		const result = applyTemplate(WRAP_TEMPLATE, "= Body\n", {
+			title: "My paper",
+			authors: ["Ada", "Alan"],
+			tags: ["ignored"],
+		});
+
+		expect(result).toContain(
+			'#show: project.with(title: "My paper", authors: ("Ada", "Alan"))\n\n= Body\n'
+		);
+		expect(result).not.toContain("ignored");
+	});
+
+	it("uses explicit argument mappings from the directive", () => {
+		const template = WRAP_TEMPLATE.replace(
+			"//@wrap project",
+			"//@wrap project(title, authors: author)"
+		);
+		const result = applyTemplate(template, "Body", {
+			title: "T",
+			author: "Ada",
+			date: "2024-01-01",
+		});
+
+		expect(result).toContain('#show: project.with(title: "T", authors: "Ada")');
+	});
+
+	it("wraps without arguments when nothing matches", () => {
+		const result = applyTemplate(WRAP_TEMPLATE, "Body");
+
+		expect(result).toContain("#show: project\n\nBody");
+	});
+
+	it("expands the frontmatter placeholder to a dictionary", () => {
+		const result = applyTemplate("#let fm = {{frontmatter}}", "Body", {
+			title: 'Say "hi"',
+			draft: true,
+			meta: { pages: 3 },
+		});
+
+		expect(result).toContain(
+			'#let fm = ("title": "Say \\"hi\\"", "draft": true, "meta": ("pages": 3))'
+		);
+	});
+
+	it("reads named parameters from function signatures", () => {
+		expect(
+			parseFunctionParameters(
+				'#let conf(title: "a, b", size: (1pt, 2pt), doc) = doc',
+				"conf"
+			)
+		).toEqual(["title", "size"]);
+		expect(parseFunctionParameters("#let other() = none", "conf")).toBeNull();
+	});
+
+	it("formats single-element arrays as Typst arrays", () => {
+		expect(toTypstLiteral(["Ada"])).toBe('("Ada",)');
+		expect(toTypstLiteral({})).toBe("(:)");
+	});
+});
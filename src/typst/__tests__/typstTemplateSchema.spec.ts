@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { TemplateParameterError } from "../typstErrors";
+import { applyTemplate } from "../typstTemplateProtocol";
+import {
+	parseFormValue,
+	parseTemplateSchema,
+	resolveTemplateParameters,
+} from "../typstTemplateSchema";
+
+const TEMPLATE = [
+	"//@param title: string required -- Document title",
+	"//@param date: date",
+	"//@param authors: list = Anonymous",
+	'//@param paper: enum(a4, "us-letter") = a4',
+	"//@param draft: boolean = false",
+	"//@param margin: length = 2cm",
+	"//@param accent: color = #1e66f5",
+	"//@wrap report",
+	"#let report(title: none, date: none, authors: (), paper: \"a4\", body) = body",
+	"#set page(paper: {{paper}}, margin: {{margin}})",
+	"#set text(fill: {{accent}})",
+].join("\n");
+
+describe("Template parameter schema", () => {
+	it("parses //@param declarations", () => {
+		const schema = parseTemplateSchema(TEMPLATE);
+
+		expect(schema.map((p) => p.name)).toEqual([
+			"title",
+			"date",
+			"authors",
+			"paper",
+			"draft",
+			"margin",
+			"accent",
+		]);
+		expect(schema[0]).toEqual({
+			name: "title",
+			type: "string",
+			required: true,
+			description: "Document title",
+		});
+		expect(schema[3]).toMatchObject({
+			type: "enum",
+			options: ["a4", "us-letter"],
+			default: "a4",
+		});
+	});
+
+	it("ignores reserved and duplicate names", () => {
+		const schema = parseTemplateSchema(
+			"//@param content: string\n//@param a: string\n//@param a: date"
+		);
+
+		expect(schema).toEqual([{ name: "a", type: "string", required: false }]);
+	});
+
+	it("converts frontmatter values and defaults to Typst literals", () => {
+		const values = resolveTemplateParameters(parseTemplateSchema(TEMPLATE), {
+			title: "Report",
+			date: "2024-03-05",
+			authors: ["Ada"],
+			draft: true,
+		});
+
+		expect(values).toEqual({
+			title: '"Report"',
+			date: "datetime(year: 2024, month: 3, day: 5)",
+			authors: '("Ada",)',
+			paper: '"a4"',
+			draft: "true",
+			margin: "2cm",
+			accent: 'rgb("#1e66f5")',
+		});
+	});
+
+	it("reports every missing or invalid value", () => {
+		const resolve = () =>
+			resolveTemplateParameters(
+				parseTemplateSchema(TEMPLATE),
+				{ date: "tomorrow", paper: "a5", margin: "wide" },
+				"report"
+			);
+
+		expect(resolve).toThrow(TemplateParameterError);
+		try {
+			resolve();
+		} catch (error) {
+			const issues = (error as TemplateParameterError).issues;
+			expect(issues).toHaveLength(4);
+			expect(issues[0]).toBe('"title" is required (string)');
+			expect(issues[2]).toContain("expected one of a4, us-letter");
+			expect((error as TemplateParameterError).toUserMessage()).toContain(
+				'Template "report"'
+			);
+		}
+	});
+
+	it("fills placeholders and wrap arguments from resolved parameters", () => {
+		const frontmatter = { title: "Report", date: "2024-03-05" };
+		const parameters = resolveTemplateParameters(
+			parseTemplateSchema(TEMPLATE),
+			frontmatter
+		);
+		const result = applyTemplate(TEMPLATE, "Body", frontmatter, parameters);
+
+		expect(result).toContain('#set page(paper: "a4", margin: 2cm)');
+		expect(result).toContain(
+			'#show: report.with(title: "Report", date: datetime(year: 2024, month: 3, day: 5), authors: ("Anonymous",), paper: "a4")'
+		);
+	});
+
+	it("expands unset optional parameters to none", () => {
+		const template = "//@param subtitle: string\n#let sub = {{subtitle}}";
+		const parameters = resolveTemplateParameters(
+			parseTemplateSchema(template),
+			{}
+		);
+
+		expect(applyTemplate(template, "Body", {}, parameters)).toContain(
+			"#let sub = none"
+		);
+	});
+
+	it("validates form input with the same rules", () => {
+		const [, , authors, , draft, margin] = parseTemplateSchema(TEMPLATE);
+
+		expect(parseFormValue(authors, "Ada, Alan")).toEqual(["Ada", "Alan"]);
+		expect(parseFormValue(draft, true)).toBe(true);
+		expect(parseFormValue(margin, "")).toBeUndefined();
+		expect(() => parseFormValue(margin, "wide")).toThrow("expected a length");
+	});
+});
@@ -0,0 +1,55 @@
+import { deflateRawSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { createZip, readZip } from "../typstZip";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+describe("Zip archives", () => {
+	it("reads back the archives it writes", async () => {
+		const archive = createZip([
+			{ path: "report/bundle.json", data: encoder.encode('{"name": "report"}') },
+			{ path: "report/assets/标志.png", data: new Uint8Array([0, 1, 2, 255]) },
+		]);
+
+		const entries = await readZip(archive);
+		expect(entries.map((entry) => entry.path)).toEqual([
+			"report/bundle.json",
+			"report/assets/标志.png",
+		]);
+		expect(decoder.decode(entries[0].data)).toBe('{"name": "report"}');
+		expect([...entries[1].data]).toEqual([0, 1, 2, 255]);
+	});
+
+	it("inflates deflated entries", async () => {
+		const text = "#set page(paper: \"a4\")\n".repeat(20);
+		const archive = createZip([{ path: "template.typ", data: encoder.encode(text) }]);
+		const compressed = deflateRawSync(Buffer.from(text));
+
+		// Switch the entry to method 8: swap the data and patch method and sizes
+		const view = new DataView(archive.buffer);
+		const nameLength = view.getUint16(26, true);
+		const dataStart = 30 + nameLength;
+		const central = archive.subarray(dataStart + text.length);
+		const deflated = new Uint8Array(dataStart + compressed.length + central.length);
+		deflated.set(archive.subarray(0, dataStart));
+		deflated.set(compressed, dataStart);
+		deflated.set(central, dataStart + compressed.length);
+		const out = new DataView(deflated.buffer);
+		const centralStart = dataStart + compressed.length;
+		out.setUint16(8, 8, true);
+		out.setUint32(18, compressed.length, true);
+		out.setUint16(centralStart + 10, 8, true);
+		out.setUint32(centralStart + 20, compressed.length, true);
+		out.setUint32(deflated.length - 6, centralStart, true);
+
+		const [entry] = await readZip(deflated);
+		expect(decoder.decode(entry.data)).toBe(text);
+	});
+
+	it("rejects data that is not a zip archive", async () => {
+		await expect(readZip(encoder.encode("not a zip"))).rejects.toThrow(
+			"Not a zip archive"
+		);
+	});
+});
@@ -1,5 +1,12 @@
 import type { App, TFile } from "obsidian";
 import type { ConvertOptions, TypstAPIInterface } from "./types";
+import {
+	typstToMarkdown,
+	type ConversionCacheStats,
+	type NodeGeneratorRegistration,
+	type RemarkPluginRegistration,
+	type TypstToMarkdownResult,
+} from "./transformer";
 import type { TypstConverter } from "./typstConverter";
 import type { TypstScriptManager } from "./typstScriptManager";
 
@@ -145,6 +152,110 @@ export class TypstAPI implements TypstAPIInterface {
 		}
 	}
 
+	/**
+	 * Register a remark plugin for the AST transformer
+	 *
+	 * @param registration - Plugin name, remark plugin, options and order
+	 * @returns Function that removes the registration
+	 * @throws If the registration has no name or the plugin is not a function
+	 *
+	 * @example
+	 * ```typescript
+	 * const unregister = window.bon.typst.registerRemarkPlugin({
+	 *   name: "color-text",
+	 *   order: 850, // before the built-in highlights
+	 *   plugin: remarkColorText,
+	 * });
+	 * ```
+	 */
+	registerRemarkPlugin(registration: RemarkPluginRegistration): () => void {
+		console.debug(
+			"[Typst API] registerRemarkPlugin() called:",
+			registration?.name
+		);
+		return this.converter
+			.getTransformerExtensions()
+			.registerRemarkPlugin(registration);
+	}
+
+	/**
+	 * Register a generator overriding how a node type is rendered
+	 *
+	 * @param registration - Generator name, node type, generate function and order
+	 * @returns Function that removes the registration
+	 * @throws If the registration has no name, no node type or no generate function
+	 *
+	 * @example
+	 * ```typescript
+	 * window.bon.typst.registerNodeGenerator({
+	 *   name: "plain-quote",
+	 *   type: "blockquote",
+	 *   generate: (node, { renderChildren }) =>
+	 *     `#pad(left: 2em)[${renderChildren(node.children)}]\n\n`,
+	 * });
+	 * ```
+	 */
+	registerNodeGenerator(registration: NodeGeneratorRegistration): () => void {
+		console.debug(
+			"[Typst API] registerNodeGenerator() called:",
+			registration?.name
+		);
+		return this.converter
+			.getTransformerExtensions()
+			.registerNodeGenerator(registration);
+	}
+
+	/**
+	 * Convert Typst source back to Obsidian Markdown
+	 *
+	 * @param input - Typst string or TFile object (.typ file)
+	 * @returns Promise resolving to the Markdown and the conversion warnings
+	 *
+	 * @example
+	 * ```typescript
+	 * const file = app.vault.getAbstractFileByPath("paper.typ");
+	 * const { markdown, warnings } = await window.bon.typst.typstToMarkdown(file);
+	 * ```
+	 */
+	async typstToMarkdown(input: string | TFile): Promise<TypstToMarkdownResult> {
+		console.debug(
+			"[Typst API] typstToMarkdown() called with input type:",
+			typeof input === "string" ? "string" : "TFile"
+		);
+
+		if (typeof input === "string") {
+			return typstToMarkdown(input);
+		}
+
+		if (!this.isTFile(input)) {
+			throw new Error(
+				"[Typst API] Invalid input: must be a string or TFile object"
+			);
+		}
+		if (input.extension.toLowerCase() !== "typ") {
+			throw new Error(
+				`[Typst API] Invalid file type: "${input.extension}". Only Typst (.typ) files are supported.`
+			);
+		}
+
+		const typst = await this.app.vault.read(input);
+		return typstToMarkdown(typst, { currentFile: input.path });
+	}
+
+	/**
+	 * Get hit and miss counts of the incremental conversion cache
+	 *
+	 * @returns Cache statistics for generated blocks and parsed files
+	 *
+	 * @example
+	 * ```typescript
+	 * console.table(window.bon.typst.getCacheStats());
+	 * ```
+	 */
+	getCacheStats(): ConversionCacheStats {
+		return this.converter.getConversionCache().getStats();
+	}
+
 	/**
 	 * Convert a string (internal method)
 	 */
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import type { App, Vault } from "obsidian";
+import { bookToTypst, type EmbedEnvironment } from "../../transformer";
+
+function createEnvironment(files: Record<string, string>): EmbedEnvironment {
+	const vault = {
+		adapter: {
+			read: async (path: string) => files[path] ?? "",
+			exists: async (path: string) => path in files,
+		},
+	} as unknown as Vault;
+
+	return {
+		vault,
+		app: { vault } as unknown as App,
+		currentFile: "Book.md",
+		resolveFilePath: async (link: string) =>
+			link in files ? { path: link, extension: "md", isMarkdown: true } : null,
+	};
+}
+
+describe("bookToTypst", () => {
+	it("emits title page and outline before the chapters", async () => {
+		const typst = await bookToTypst(
+			{
+				metadata: { title: "Field Notes", subtitle: "Volume 1", author: ["Ada", "Grace"] },
+				chapters: [{ path: "book/Intro.md", markdown: "# Welcome\n\nHello." }],
+			},
+			{ preserveFrontmatter: true }
+		);
+
+		expect(typst).toContain('#set document(title: "Field Notes", author: ("Ada", "Grace"))');
+		expect(typst).toContain('#text(size: 2.4em, weight: "bold")[Field Notes]');
+		expect(typst).toContain("#text(size: 1.4em)[Volume 1]");
+		expect(typst).toContain("[Ada, Grace]");
+		expect(typst.indexOf("#outline()")).toBeLessThan(typst.indexOf("= Welcome <intro:welcome>"));
+	});
+
+	it("resolves links between chapters in both directions", async () => {
+		const typst = await bookToTypst(
+			{
+				chapters: [
+					{ path: "book/One.md", markdown: "# Start\n\nSee [[Two#Details]] and [[Two]]." },
+					{ path: "book/Two.md", markdown: "Body.\n\n## Details\n\nBack to [[One]]." },
+				],
+				titlePage: false,
+				outline: false,
+			},
+			{},
+			createEnvironment({})
+		);
+
+		expect(typst).toContain("#link(<two:details>)[Details]");
+		expect(typst).toContain("#link(<two:two>)[Two]");
+		expect(typst).toContain("#link(<one:start>)[One]");
+		// Two 不以一级标题开头，以文件名补上章标题
+		expect(typst).toContain("= Two <two:two>");
+		expect(typst).not.toContain("obsidian://");
+	});
+
+	it("defines callouts once for all chapters", async () => {
+		const typst = await bookToTypst(
+			{
+				chapters: [
+					{ path: "One.md", markdown: "# One\n\n> [!note]\n> A" },
+					{ path: "Two.md", markdown: "# Two\n\n> [!tip]\n> B" },
+				],
+				titlePage: false,
+			},
+			{}
+		);
+
+		expect(typst.match(/#let bon-callout-styles = \(/g)).toHaveLength(1);
+		expect(typst.indexOf("#let bon-callout(")).toBeLessThan(typst.indexOf("= One"));
+	});
+
+	it("puts parts above chapters", async () => {
+		const typst = await bookToTypst(
+			{
+				chapters: [
+					{ path: "One.md", markdown: "# One\n\n## Section", part: "Basics" },
+					{ path: "Two.md", markdown: "# Two" },
+				],
+				titlePage: false,
+			},
+			{}
+		);
+
+		expect(typst).toContain("#pagebreak(weak: true)\n\n= Basics\n");
+		expect(typst).toContain("== One <one:one>");
+		expect(typst).toContain("=== Section <one:section>");
+		expect(typst).toContain("== Two <two:two>");
+	});
+
+	it("embeds notes inside chapters with the shared label scope", async () => {
+		const env = createEnvironment({ "parts/Shared.md": "## Shared\n\nSee [[Two]]." });
+		const typst = await bookToTypst(
+			{
+				chapters: [
+					{ path: "One.md", markdown: "# One\n\n![[parts/Shared.md|inline]]" },
+					{ path: "Two.md", markdown: "# Two" },
+				],
+				titlePage: false,
+				outline: false,
+			},
+			{},
+			env
+		);
+
+		expect(typst).toContain("== Shared <one:shared:shared>");
+		expect(typst).toContain("#link(<two:two>)[Two]");
+	});
+});
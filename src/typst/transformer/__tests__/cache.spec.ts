@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import type { App, Vault } from "obsidian";
+import {
+	ConversionCache,
+	markdownToTypst,
+	type EmbedEnvironment,
+} from "../../transformer";
+
+const note = (body: string) =>
+	`# Intro\n\nText ${body}[^1] and [[#Intro]].\n\n## Intro\n\nMore[^1] $\\frac{a}{b}$.\n\n[^1]: Foot.\n`;
+
+describe("Conversion cache", () => {
+	it("produces the same output as an uncached conversion", async () => {
+		const cache = new ConversionCache();
+
+		for (const body of ["one", "one", "two"]) {
+			const expected = await markdownToTypst(note(body));
+			expect(await markdownToTypst(note(body), { cache })).toBe(expected);
+		}
+	});
+
+	it("regenerates only the edited block", async () => {
+		const cache = new ConversionCache();
+		await markdownToTypst(note("one"), { cache });
+		cache.resetStats();
+
+		await markdownToTypst(note("two"), { cache });
+
+		const { blocks, files } = cache.getStats();
+		expect(blocks.misses).toBe(1);
+		expect(blocks.hits).toBe(4);
+		expect(files).toMatchObject({ hits: 0, misses: 1 });
+	});
+
+	it("replays footnotes and warnings of reused blocks", async () => {
+		const cache = new ConversionCache();
+		const errors: string[] = [];
+		const options = {
+			cache,
+			onMathError: (latex: string) => errors.push(latex),
+		};
+		const markdown = "A[^1] $\\unknowncmd{x}$\n\nB[^1]\n\n[^1]: Foot.\n";
+
+		const first = await markdownToTypst(markdown, options);
+		const second = await markdownToTypst(markdown, options);
+
+		expect(second).toBe(first);
+		expect(second).toContain("#footnote(<fn-1>)");
+		expect(errors).toHaveLength(2);
+	});
+
+	it("reuses unchanged embedded notes", async () => {
+		const files: Record<string, string> = {
+			"a.md": "Alpha *text*",
+			"b.md": "Beta *text*",
+		};
+		const vault = {
+			adapter: { read: async (path: string) => files[path] },
+		} as unknown as Vault;
+		const env: EmbedEnvironment = {
+			vault,
+			app: { vault } as unknown as App,
+			currentFile: "Home.md",
+			resolveFilePath: async (link) => ({
+				path: link,
+				extension: "md",
+				isMarkdown: true,
+			}),
+		};
+		const cache = new ConversionCache();
+		await markdownToTypst("![[a.md]]\n\n![[b.md]]", { cache }, env);
+		cache.resetStats();
+
+		files["b.md"] = "Beta *changed*";
+		const result = await markdownToTypst("![[a.md]]\n\n![[b.md]]", { cache }, env);
+
+		expect(result).toContain("Beta _changed_");
+		// 笔记本身与 a.md 命中，b.md 重新解析
+		expect(cache.getStats().files).toMatchObject({ hits: 2, misses: 1 });
+	});
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { markdownToTypst } from "../../transformer";
+
+describe("Callout generation", () => {
+	it("keeps the title line separate from the callout body", async () => {
+		const result = await markdownToTypst(
+			"> [!warning] Careful now\n> Body line."
+		);
+
+		expect(result).toContain('#bon-callout("warning", [Careful now])[\nBody line.\n]');
+	});
+
+	it("uses the capitalized type as the default title", async () => {
+		const result = await markdownToTypst("> [!tip]\n> Body line.");
+
+		expect(result).toContain('#bon-callout("tip", [Tip])[\nBody line.\n]');
+	});
+
+	it("maps aliases onto their canonical style", async () => {
+		const summary = await markdownToTypst("> [!summary] TL;DR\n> Text");
+		const caution = await markdownToTypst("> [!caution]\n> Text");
+
+		expect(summary).toContain('#bon-callout("abstract", [TL;DR])');
+		expect(caution).toContain('#bon-callout("warning", [Caution])');
+	});
+
+	it("accepts fold markers", async () => {
+		const closed = await markdownToTypst("> [!note]- Hidden\n> Folded body");
+		const open = await markdownToTypst("> [!faq]+\n> Open body");
+
+		expect(closed).toContain('#bon-callout("note", [Hidden])[\nFolded body\n]');
+		expect(open).toContain('#bon-callout("question", [Faq])[\nOpen body\n]');
+		expect(closed).not.toContain("\\[!note\\]");
+	});
+
+	it("renders nested callouts inside their parent", async () => {
+		const result = await markdownToTypst(
+			"> [!example] Outer\n> Outer text\n> > [!bug] Inner\n> > Inner text"
+		);
+
+		expect(result).toMatch(
+			/#bon-callout\("example", \[Outer\]\)\[\nOuter text\n#parbreak\(\)\n#bon-callout\("bug", \[Inner\]\)\[\nInner text\n\]\n\]/
+		);
+	});
+
+	it("keeps inline formatting in titles", async () => {
+		const result = await markdownToTypst("> [!info] **Bold** title\n> Body");
+
+		expect(result).toContain('#bon-callout("info", [#strong[Bold] title])');
+	});
+
+	it("emits the style registry once, followed by user overrides", async () => {
+		const result = await markdownToTypst("> [!note]\n> A\n\n> [!tip]\n> B", {
+			calloutStyleOverrides: "#let bon-callout-styles = bon-callout-styles + (\"tip\": (fill: white, border: black, icon: \"*\", title: black))",
+		});
+
+		expect(result.match(/#let bon-callout-styles = \(/g)).toHaveLength(1);
+		expect(result).toContain('"warning": (fill: rgb("#ec75001a"), border: rgb("#ec7500")');
+		const overrideIndex = result.indexOf("bon-callout-styles + (");
+		expect(overrideIndex).toBeGreaterThan(result.indexOf("#let bon-callout-styles = ("));
+		expect(overrideIndex).toBeLessThan(result.indexOf("#let bon-callout(kind"));
+	});
+
+	it("omits the registry when the note has no callouts", async () => {
+		const result = await markdownToTypst("> Plain quote");
+
+		expect(result).not.toContain("bon-callout");
+		expect(result).toContain("#quote[Plain quote]");
+	});
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { markdownToTypst } from "../../transformer";
+
+describe("Pandoc citations", () => {
+	it("converts a single citation to @key", async () => {
+		const result = await markdownToTypst("As shown [@smith2020].");
+
+		expect(result).toContain("As shown @smith2020.");
+	});
+
+	it("converts grouped citations with locators and prefixes", async () => {
+		const result = await markdownToTypst("Text [see @a; @b, p. 3].");
+
+		expect(result).toContain("Text see @a #cite(<b>, supplement: [p. 3]).");
+	});
+
+	it("supports author suppression and braced keys", async () => {
+		const result = await markdownToTypst(
+			"Smith says [-@smith2020] and [@{Doe/2021 draft}]."
+		);
+
+		expect(result).toContain('#cite(<smith2020>, form: "year")');
+		expect(result).toContain('#cite(label("Doe/2021 draft"))');
+	});
+
+	it("avoids the @key shorthand when a word follows directly", async () => {
+		const result = await markdownToTypst("[@smith2020]s argument");
+
+		expect(result).toContain("#cite(<smith2020>)s argument");
+	});
+
+	it("leaves brackets without citations and e-mail addresses alone", async () => {
+		const result = await markdownToTypst(
+			"Write to [me@example.com] or [plain text]."
+		);
+
+		expect(result).not.toContain("#cite");
+		expect(result).toContain("\\[plain text\\]");
+	});
+
+	it("emits the bibliography with vault-root paths", async () => {
+		const result = await markdownToTypst(
+			"Cited [@smith2020].",
+			{ bibliography: ["refs/library.bib"], citationStyle: "apa" },
+			{
+				app: {} as never,
+				vault: {} as never,
+				currentFile: "papers/draft.md",
+			}
+		);
+
+		expect(result.trimEnd()).toMatch(
+			/#bibliography\("\/refs\/library\.bib", style: "apa"\)$/
+		);
+	});
+
+	it("supports several bibliography files", async () => {
+		const result = await markdownToTypst("Cited [@a].", {
+			bibliography: ["a.bib", "b.yml"],
+		});
+
+		expect(result).toContain('#bibliography(("/a.bib", "/b.yml"))');
+	});
+
+	it("omits the bibliography when nothing is cited", async () => {
+		const result = await markdownToTypst("No citations.", {
+			bibliography: ["refs.bib"],
+		});
+
+		expect(result).not.toContain("#bibliography");
+	});
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import type { App, Vault } from "obsidian";
+import type { Root } from "mdast";
+import type { Node, Parent } from "unist";
+import { visit } from "unist-util-visit";
+import {
+	BUILTIN_PLUGIN_ORDER,
+	markdownToTypst,
+	TransformerExtensions,
+	type EmbedEnvironment,
+} from "../../transformer";
+
+const COLOR_TEXT = /^==(\w+):(.+)==$/;
+
+// ==red:text== -> colorText 节点
+const remarkColorText = () => (tree: Root) => {
+	visit(tree, "text", (node, index, parent) => {
+		const match = COLOR_TEXT.exec(node.value);
+		if (match && parent && typeof index === "number") {
+			parent.children[index] = {
+				type: "colorText",
+				color: match[1],
+				children: [{ type: "text", value: match[2] }],
+			} as never;
+		}
+	});
+};
+
+function colorTextExtensions(order: number): TransformerExtensions {
+	const extensions = new TransformerExtensions();
+	extensions.registerRemarkPlugin({
+		name: "color-text",
+		plugin: remarkColorText,
+		order,
+	});
+	extensions.registerNodeGenerator({
+		name: "color-text",
+		type: "colorText",
+		generate: (node, { renderChildren }) =>
+			`#text(fill: ${(node as Node & { color: string }).color})[${renderChildren(
+				(node as Parent).children as never
+			)}]`,
+	});
+	return extensions;
+}
+
+describe("Transformer extensions", () => {
+	it("runs registered plugins at their order among the built-in ones", async () => {
+		const before = await markdownToTypst("==red:Alert==", {
+			extensions: colorTextExtensions(BUILTIN_PLUGIN_ORDER.highlights - 50),
+		});
+		const after = await markdownToTypst("==red:Alert==", {
+			extensions: colorTextExtensions(BUILTIN_PLUGIN_ORDER.highlights + 50),
+		});
+
+		expect(before).toContain("#text(fill: red)[Alert]");
+		expect(after).not.toContain("#text(fill: red)");
+	});
+
+	it("chains node generators by order down to the built-in output", async () => {
+		const extensions = new TransformerExtensions();
+		extensions.registerNodeGenerator({
+			name: "outer",
+			type: "blockquote",
+			order: 2,
+			generate: (_node, { next }) => `#block(inset: 1em)[${next().trim()}]\n\n`,
+		});
+		extensions.registerNodeGenerator({
+			name: "inner",
+			type: "strong",
+			generate: (node, { renderChildren }) =>
+				`#underline[${renderChildren((node as Parent).children as never)}]`,
+		});
+
+		const result = await markdownToTypst("> Quoted **text**", { extensions });
+
+		expect(result).toContain("#block(inset: 1em)[#quote[Quoted #underline[text]]]");
+	});
+
+	it("replaces registrations with the same name and can unregister", () => {
+		const extensions = new TransformerExtensions();
+		extensions.registerNodeGenerator({
+			name: "quote",
+			type: "blockquote",
+			generate: () => "first",
+		});
+		const unregister = extensions.registerNodeGenerator({
+			name: "quote",
+			type: "blockquote",
+			generate: () => "second",
+		});
+
+		expect(extensions.getNodeGenerators("blockquote")).toHaveLength(1);
+		unregister();
+		expect(extensions.getNodeGenerators("blockquote")).toHaveLength(0);
+	});
+
+	it("applies extensions to embedded notes", async () => {
+		const vault = {
+			adapter: { read: async () => "==blue:Inside==" },
+		} as unknown as Vault;
+		const env: EmbedEnvironment = {
+			vault,
+			app: { vault } as unknown as App,
+			currentFile: "Home.md",
+			resolveFilePath: async (link) => ({
+				path: link,
+				extension: "md",
+				isMarkdown: true,
+			}),
+		};
+
+		const result = await markdownToTypst(
+			"![[part.md]]",
+			{ extensions: colorTextExtensions(BUILTIN_PLUGIN_ORDER.highlights - 50) },
+			env
+		);
+
+		expect(result).toContain("#text(fill: blue)[Inside]");
+	});
+});
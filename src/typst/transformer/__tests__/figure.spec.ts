@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import type { App, Vault } from "obsidian";
+import { markdownToTypst, type EmbedEnvironment } from "../../transformer";
+
+function createImageEnvironment(paths: string[]): EmbedEnvironment {
+	const vault = {
+		adapter: {
+			read: async () => "",
+			exists: async () => true,
+		},
+	} as unknown as Vault;
+
+	return {
+		vault,
+		app: { vault } as unknown as App,
+		currentFile: "paper.md",
+		resolveFilePath: async (link: string) => {
+			if (!paths.includes(link)) {
+				return null;
+			}
+			return {
+				path: link,
+				extension: link.split(".").pop() ?? "",
+				isMarkdown: false,
+			};
+		},
+	};
+}
+
+describe("Figure generation", () => {
+	it("leaves images untouched when figures are disabled", async () => {
+		const result = await markdownToTypst("![Arch](arch.png)");
+
+		expect(result).not.toContain("#figure(");
+		expect(result).toContain('#image("arch.png", alt: "Arch")');
+	});
+
+	it("wraps a standalone image with its alt text as caption", async () => {
+		const result = await markdownToTypst("![System overview](img/arch.png)", {
+			enableFigures: true,
+		});
+
+		expect(result).toContain(
+			'#figure(\n  image("img/arch.png", alt: "System overview"),\n  caption: [System overview],\n) <fig-arch>'
+		);
+	});
+
+	it("uses the embed alias and block id for wikilink images", async () => {
+		const env = createImageEnvironment(["arch.png"]);
+		const result = await markdownToTypst(
+			"As shown in [[#^fig-main]].\n\n![[arch.png|Main architecture]] ^fig-main",
+			{ enableFigures: true },
+			env
+		);
+
+		expect(result).toContain("As shown in @fig-main.");
+		expect(result).toContain("caption: [Main architecture],\n) <fig-main>");
+	});
+
+	it("takes the caption from a following italic line", async () => {
+		const result = await markdownToTypst(
+			"![](chart.png)\n*Quarterly revenue*\n\nNext paragraph.",
+			{ enableFigures: true }
+		);
+
+		expect(result).toContain("caption: [Quarterly revenue]");
+		expect(result).toContain("Next paragraph.");
+	});
+
+	it("wraps tables with an italic caption and block id", async () => {
+		const markdown = `| a | b |
+| - | - |
+| 1 | 2 |
+
+*Measured values*
+
+^tbl-values
+
+See [[#^tbl-values]].`;
+
+		const result = await markdownToTypst(markdown, { enableFigures: true });
+
+		expect(result).toContain("#figure(\n  table(");
+		expect(result).toContain("caption: [Measured values],\n) <tbl-values>");
+		expect(result).toContain("See @tbl-values.");
+		expect(result).not.toContain("_Measured values_");
+	});
+
+	it("reads a caption and block id from the same line", async () => {
+		const markdown = `| a | b |
+| - | - |
+| 1 | 2 |
+
+*Table caption* ^tbl-x
+
+See [[#^tbl-x]].`;
+
+		const result = await markdownToTypst(markdown, { enableFigures: true });
+
+		expect(result).toContain("caption: [Table caption],\n) <tbl-x>");
+		expect(result).toContain("See @tbl-x.");
+		expect(result).not.toContain('#label("tbl-x")');
+		expect(result).not.toContain("_Table caption_");
+	});
+
+	it("leaves tables without caption or block id unlabeled", async () => {
+		const result = await markdownToTypst("| a |\n| - |\n| 1 |", {
+			enableFigures: true,
+		});
+
+		expect(result).toMatch(/#figure\([\s\S]*\n\)\n/);
+		expect(result).not.toContain("<tbl");
+	});
+
+	it("keeps images inside running text inline", async () => {
+		const result = await markdownToTypst("An icon ![i](icon.png) in text.", {
+			enableFigures: true,
+		});
+
+		expect(result).not.toContain("#figure(");
+	});
+});
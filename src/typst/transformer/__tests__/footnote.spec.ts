@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { markdownToTypst } from "../../transformer";
+
+describe("Footnote generation", () => {
+	it("inlines footnote definitions at the reference site", async () => {
+		const markdown = `Claim needs a source[^1].
+
+[^1]: Smith, 2020.`;
+
+		const result = await markdownToTypst(markdown);
+
+		expect(result).toContain("source#footnote[Smith, 2020.] <fn-1>.");
+		// 定义本身不应再单独输出
+		expect(result.match(/Smith, 2020/g)).toHaveLength(1);
+	});
+
+	it("keeps multiple paragraphs inside one footnote", async () => {
+		const markdown = `Text[^long].
+
+[^long]: First paragraph.
+
+    Second paragraph.`;
+
+		const result = await markdownToTypst(markdown);
+
+		expect(result).toContain(
+			"#footnote[First paragraph.\n#parbreak()\nSecond paragraph.] <fn-long>"
+		);
+	});
+
+	it("renders lists and code blocks inside definitions", async () => {
+		const markdown = `See note[^list].
+
+[^list]: - alpha
+    - beta
+
+    \`\`\`js
+    run();
+    \`\`\``;
+
+		const result = await markdownToTypst(markdown);
+
+		expect(result).toContain("#footnote[- alpha\n- beta");
+		expect(result).toContain("```js\nrun();\n```");
+		expect(result).toContain("] <fn-list>");
+	});
+
+	it("references an already emitted footnote by label", async () => {
+		const markdown = `First[^a], second[^a].
+
+[^a]: Shared note.`;
+
+		const result = await markdownToTypst(markdown);
+
+		expect(result).toContain("First#footnote[Shared note.] <fn-a>");
+		expect(result).toContain("second#footnote(<fn-a>)");
+		expect(result.match(/Shared note/g)).toHaveLength(1);
+	});
+
+	it("keeps footnote labels unique against headings and similar identifiers", async () => {
+		const markdown = `# fn 1
+
+A[^1], again[^1], then[^a.b] and[^a-b].
+
+[^1]: One.
+[^a.b]: Dotted.
+[^a-b]: Dashed.`;
+
+		const result = await markdownToTypst(markdown);
+
+		expect(result).toContain("= fn 1 <fn-1>");
+		expect(result).toContain("A#footnote[One.] <fn-1-2>");
+		expect(result).toContain("again#footnote(<fn-1-2>)");
+		expect(result).toContain("#footnote[Dotted.] <fn-a-b>");
+		expect(result).toContain("#footnote[Dashed.] <fn-a-b-2>");
+	});
+
+	it("applies the label prefix to footnote labels", async () => {
+		const result = await markdownToTypst("A[^1].\n\n[^1]: B", {
+			labelPrefix: "doc-",
+		});
+
+		expect(result).toContain("#footnote[B] <doc-fn-1>");
+	});
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { markdownToTypst, parseFrontmatterMapping } from "../../transformer";
+import { parseFrontmatter } from "../frontmatter";
+
+const NOTE = [
+	"---",
+	'title: "Über \\"Typst\\""',
+	"authors:",
+	"  - Ada Lovelace",
+	"  - Alan Turing",
+	"date: 2024-03-05",
+	"keywords: [typst, obsidian]",
+	"tags: [draft]",
+	"lang: de-CH",
+	"typst-template: paper",
+	"---",
+	"",
+	"Body",
+].join("\n");
+
+describe("Frontmatter parsing", () => {
+	it("parses scalars, flow lists and block lists", () => {
+		expect(
+			parseFrontmatter(
+				"title: Hello # comment\ncount: 3\ndraft: false\ntags: [a, 'b, c']\nauthors:\n  - A\n  - B"
+			)
+		).toEqual({
+			title: "Hello",
+			count: 3,
+			draft: false,
+			tags: ["a", "b, c"],
+			authors: ["A", "B"],
+		});
+	});
+
+	it("keeps # inside quoted values", () => {
+		expect(
+			parseFrontmatter(
+				"title: \"Issue #42 fixed\" # comment\nnote: 'It''s #1'\ntags: [\"a #b\", c]"
+			)
+		).toEqual({
+			title: "Issue #42 fixed",
+			note: "It's #1",
+			tags: ["a #b", "c"],
+		});
+	});
+});
+
+describe("Frontmatter metadata", () => {
+	it("does nothing unless enabled", async () => {
+		const result = await markdownToTypst(NOTE);
+
+		expect(result).not.toContain("#set document");
+		expect(result).not.toContain("bon-frontmatter");
+	});
+
+	it("maps fields to document and text settings", async () => {
+		const result = await markdownToTypst(NOTE, { preserveFrontmatter: true });
+
+		expect(result).toContain(
+			'#set document(title: "Über \\"Typst\\"", author: ("Ada Lovelace", "Alan Turing"), date: datetime(year: 2024, month: 3, day: 5), keywords: ("typst", "obsidian"))'
+		);
+		expect(result).toContain('#set text(lang: "de", region: "ch")');
+		expect(result.indexOf("#set document")).toBe(0);
+	});
+
+	it("exposes all fields as a dictionary for templates", async () => {
+		const result = await markdownToTypst(NOTE, { preserveFrontmatter: true });
+
+		expect(result).toContain("#let bon-frontmatter = (");
+		expect(result).toContain('  "typst-template": "paper",');
+		expect(result).toContain('  "date": "2024-03-05",');
+		expect(result).toContain('  "author": ("Ada Lovelace", "Alan Turing"),');
+		expect(result).toContain("#metadata(bon-frontmatter) <bon-frontmatter>");
+	});
+
+	it("follows a custom key mapping", async () => {
+		const result = await markdownToTypst(NOTE, {
+			preserveFrontmatter: true,
+			frontmatterMapping: parseFrontmatterMapping(
+				"keywords: tags\nlang:\nauthor: creator"
+			),
+		});
+
+		expect(result).toContain('keywords: ("draft",)');
+		expect(result).not.toContain("#set text(");
+		expect(result).not.toContain("author: (");
+	});
+
+	it("skips dates it cannot parse", async () => {
+		const result = await markdownToTypst("---\ndate: sometime\n---\n\nBody", {
+			preserveFrontmatter: true,
+		});
+
+		expect(result).not.toContain("#set document");
+		expect(result).toContain('"date": "sometime"');
+	});
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { markdownToTypst } from "../../transformer";
+
+describe("Heading labels", () => {
+	it("keeps CJK characters in labels", async () => {
+		const result = await markdownToTypst("# 标题\n\n## 日本語の見出し");
+
+		expect(result).toContain("= 标题 <标题>");
+		expect(result).toContain("== 日本語の見出し <日本語の見出し>");
+	});
+
+	it("keeps accented letters and lowercases them", async () => {
+		const result = await markdownToTypst("# Café Überblick");
+
+		expect(result).toContain("<café-überblick>");
+	});
+
+	it("drops superscripts and fractions that are invalid in labels", async () => {
+		const result = await markdownToTypst("# E=mc²\n\n## ½ cup\n\nSee [[#E=mc²]].");
+
+		expect(result).toContain("= E=mc² <e-mc>");
+		expect(result).toContain("== ½ cup <cup>");
+		expect(result).toContain("#link(<e-mc>)");
+	});
+
+	it("does not collide labels for headings that differ only in script", async () => {
+		const result = await markdownToTypst("# 概要\n\n# 总结\n\n# Summary");
+
+		expect(result).toContain("<概要>");
+		expect(result).toContain("<总结>");
+		expect(result).toContain("<summary>");
+	});
+
+	it("suffixes repeated headings in document order", async () => {
+		const result = await markdownToTypst("# Notes\n\n# Notes");
+
+		expect(result).toContain("= Notes <notes>\n");
+		expect(result).toContain("= Notes <notes-2>\n");
+	});
+
+	it("resolves same-note heading links to labels", async () => {
+		const result = await markdownToTypst(
+			"See [[#Café Überblick|overview]] and [[#标题]].\n\n# 标题\n\n# Café Überblick"
+		);
+
+		expect(result).toContain("#link(<café-überblick>)[overview]");
+		expect(result).toContain("#link(<标题>)[");
+	});
+
+	it("matches heading links the way Obsidian normalizes anchors", async () => {
+		const result = await markdownToTypst(
+			"[[#Setup Step 1]]\n\n## Setup: Step 1"
+		);
+
+		expect(result).toContain("#link(<setup-step-1>)[");
+	});
+});
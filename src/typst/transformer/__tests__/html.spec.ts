@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { markdownToTypst } from "../../transformer";
+
+describe("Inline HTML", () => {
+	it("maps text-level tags to Typst functions", async () => {
+		const result = await markdownToTypst(
+			"E = mc<sup>2</sup>, H<sub>2</sub>O, <u>under</u> and <mark>marked</mark>."
+		);
+
+		expect(result).toContain("E = mc#super[2], H#sub[2]O");
+		expect(result).toContain("#underline[under]");
+		expect(result).toContain("#highlight[marked]");
+	});
+
+	it("renders kbd as keycaps", async () => {
+		const result = await markdownToTypst("Press <kbd>Ctrl</kbd>+<kbd>C</kbd>");
+
+		expect(result).toContain("#box(stroke: 0.5pt + gray");
+		expect(result).toContain("[#text(size: 0.9em)[Ctrl]]");
+		expect(result).toContain("[#text(size: 0.9em)[C]]");
+	});
+
+	it("turns br into line breaks", async () => {
+		const result = await markdownToTypst("first<br>second<br/>third");
+
+		expect(result).toContain("first \\\nsecond \\\nthird");
+	});
+
+	it("colors span text from inline styles", async () => {
+		const result = await markdownToTypst(
+			'<span style="color: #ff0000">red</span>, <span style="color:blue; background-color: yellow">blue</span> and <font color="rgb(0, 128, 0)">green</font>'
+		);
+
+		expect(result).toContain('#text(fill: rgb("#ff0000"))[red]');
+		expect(result).toContain("#highlight(fill: yellow)[#text(fill: blue)[blue]]");
+		expect(result).toContain("#text(fill: rgb(0, 128, 0))[green]");
+	});
+
+	it("keeps content of spans with unknown colors", async () => {
+		const result = await markdownToTypst(
+			'<span style="color: var(--accent)">plain</span>'
+		);
+
+		expect(result).toContain("plain");
+		expect(result).not.toContain("#text(fill");
+	});
+
+	it("renders details with summary as an expanded block", async () => {
+		const result = await markdownToTypst(
+			[
+				"<details>",
+				"<summary>More <b>info</b></summary>",
+				"",
+				"Hidden **content**.",
+				"",
+				"</details>",
+			].join("\n")
+		);
+
+		expect(result).toContain("#block(width: 100%, stroke: 0.5pt + gray");
+		expect(result).toContain("#strong[▸ More #strong[info]]");
+		expect(result).toContain("Hidden #strong[content].");
+		expect(result).not.toContain("details");
+	});
+
+	it("strips comments and escapes unsupported or unclosed tags", async () => {
+		const result = await markdownToTypst(
+			"a <!-- note --> b <abbr title=\"x\">HTML</abbr> c <sup>open"
+		);
+
+		expect(result).not.toContain("note");
+		expect(result).toContain('\\<abbr title\\="x"\\>HTML\\<\\/abbr\\>');
+		expect(result).toContain("\\<sup\\>open");
+	});
+
+	it("decodes entities inside HTML blocks", async () => {
+		const result = await markdownToTypst("<sup>a &amp; b</sup>");
+
+		expect(result).toContain("#super[a & b]");
+	});
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { markdownToTypst } from "../../transformer";
+import { translateLatexMath } from "../latex";
+
+// [LaTeX 源码, 期望的 Typst 输出]
+const FIXTURES: [string, string][] = [
+	[String.raw`\frac{a}{b}`, "frac(a, b)"],
+	[String.raw`\alpha + \beta^2`, "alpha + beta^2"],
+	[String.raw`x_{i+1}^{2}`, "x_(i + 1)^2"],
+	[String.raw`x^12`, "x^1 2"],
+	[String.raw`\mathbb{R}^n`, "RR^n"],
+	[String.raw`\mathcal{L}`, "cal(L)"],
+	[String.raw`\left( \frac{1}{2} \right)`, "lr(paren.l frac(1, 2) paren.r)"],
+	[String.raw`\text{if } x > 0`, '"if " x > 0'],
+	[String.raw`\sqrt[3]{x} + \sqrt{y}`, "root(3, x) + sqrt(y)"],
+	[String.raw`\hat{x} \vec{v} \bar{y}`, "hat(x) arrow(v) macron(y)"],
+	[String.raw`a\,b\quad c`, "a thin b quad c"],
+	[String.raw`\sum_{i=1}^{n} i`, "sum_(i = 1)^n i"],
+	[String.raw`\int_0^1 f(x)\,dx`, "integral_0^1 f (x) thin d x"],
+	[String.raw`\lim_{x \to 0} \frac{\sin x}{x}`, "lim_(x -> 0) frac(sin x, x)"],
+	[String.raw`\operatorname{rank}(A)`, 'op("rank") (A)'],
+	["\\underbrace{a+b}_{n}", "underbrace(a + b, n)"],
+	[String.raw`{}^{14}C`, '""^14 C'],
+	[String.raw`a/b`, "a \\/ b"],
+	[String.raw`\frac{a, b}{c}`, "frac(a\\, b, c)"],
+	[String.raw`\frac{[0,1)}{2}`, "frac(\\[0\\, 1\\), 2)"],
+	[
+		String.raw`\begin{pmatrix} a & b \\ c & d \end{pmatrix}`,
+		"mat(a, b; c, d)",
+	],
+	[
+		String.raw`\begin{bmatrix} 1 & 2 \\ 3 & 4 \\ \end{bmatrix}`,
+		'mat(delim: "[", 1, 2; 3, 4)',
+	],
+	[
+		String.raw`f(x) = \begin{cases} 1 & x \geq 0 \\ 0 & \text{otherwise} \end{cases}`,
+		'f (x) = cases(1 & x >= 0, 0 & "otherwise")',
+	],
+	[
+		String.raw`\begin{aligned} a &= b + c \\ &= d \end{aligned}`,
+		"a & = b + c \\\n & = d",
+	],
+	[String.raw`\begin{gather} a \\ b \end{gather}`, "a \\\nb"],
+];
+
+describe("LaTeX to Typst math translation", () => {
+	it.each(FIXTURES)("translates %s", (latex, expected) => {
+		const result = translateLatexMath(latex);
+		expect(result.errors).toEqual([]);
+		expect(result.typst).toBe(expected);
+	});
+
+	it("reports unsupported commands and environments", () => {
+		expect(translateLatexMath(String.raw`\foo{x}`).errors).toEqual([
+			"Unsupported command \\foo",
+		]);
+		expect(
+			translateLatexMath(String.raw`\begin{tikzcd} a \end{tikzcd}`).errors
+		).toEqual(["Unsupported environment tikzcd"]);
+		expect(translateLatexMath(String.raw`\frac{a}{b`).errors).toContain(
+			"Missing closing brace"
+		);
+	});
+});
+
+describe("Math generation", () => {
+	it("emits inline and display math in Typst syntax", async () => {
+		const result = await markdownToTypst(
+			"Ratio $\\frac{a}{b}$ here.\n\n$$\n\\alpha^2\n$$"
+		);
+
+		expect(result).toContain("Ratio $frac(a, b)$ here.");
+		expect(result).toContain("$ alpha^2 $");
+	});
+
+	it("falls back to highlighted source for untranslatable math", async () => {
+		const reported: string[][] = [];
+		const result = await markdownToTypst("$$\n\\foo{x}\n$$", {
+			onMathError: (_latex, errors) => reported.push(errors),
+		});
+
+		expect(result).toContain(
+			"// LaTeX math could not be translated: Unsupported command \\foo"
+		);
+		expect(result).toContain('raw("\\\\foo{x}", lang: "latex", block: true)');
+		expect(reported).toEqual([["Unsupported command \\foo"]]);
+	});
+
+	it("keeps math verbatim when translation is disabled", async () => {
+		const result = await markdownToTypst("$a/b$", {
+			translateLatexMath: false,
+		});
+
+		expect(result).toContain("$a/b$");
+	});
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import type { Root } from "mdast";
+import { markdownToTypst, TypstGenerator } from "../../transformer";
+import type { TypstTransformOptions } from "../../transformer";
+
+describe("Standard node coverage", () => {
+	it("converts GFM strikethrough to #strike", async () => {
+		const result = await markdownToTypst("Keep ~~drop this~~ text.");
+
+		expect(result).toContain("Keep #strike[drop this] text.");
+	});
+
+	it("resolves reference links through their definitions", async () => {
+		const result = await markdownToTypst(
+			[
+				"See [the docs][docs], [Docs][] and [docs].",
+				"",
+				"[docs]: https://example.com/docs \"Documentation\"",
+			].join("\n")
+		);
+
+		expect(result).toContain('#link("https://example.com/docs")[the docs]');
+		expect(result).toContain('#link("https://example.com/docs")[Docs]');
+		expect(result).toContain('#link("https://example.com/docs")[docs]');
+		expect(result).not.toContain("Documentation");
+	});
+
+	it("resolves reference images through their definitions", async () => {
+		const result = await markdownToTypst(
+			"![Chart][chart]\n\n[chart]: https://example.com/chart.png"
+		);
+
+		expect(result).toContain(
+			'#image("https://example.com/chart.png", alt: "Chart")'
+		);
+	});
+
+	it("strips HTML comments and escapes other HTML as text", async () => {
+		const result = await markdownToTypst(
+			"Before <!-- hidden --> after <custom-tag>.\n\n<div class=\"a_b\">\nBlock\n</div>\n\nNext paragraph."
+		);
+
+		expect(result).not.toContain("hidden");
+		expect(result).toContain("after \\<custom-tag\\>.");
+		expect(result).toContain(
+			'\\<div class\\="a\\_b"\\> \\\nBlock \\\n\\<\\/div\\>\n#parbreak()'
+		);
+		expect(result).toContain("Next paragraph.");
+	});
+
+	it("does not output frontmatter or definitions in the body", async () => {
+		const result = await markdownToTypst(
+			"---\ntitle: Hidden\n---\n\n[x]: https://example.com\n\nBody"
+		);
+
+		expect(result).not.toContain("Hidden");
+		expect(result).not.toContain("example.com");
+		expect(result).toContain("Body");
+	});
+
+	it("degrades unknown nodes to escaped text and reports them", () => {
+		const unknown: string[] = [];
+		const generator = new TypstGenerator(
+			{
+				onUnknownNode: (type: string) => {
+					unknown.push(type);
+				},
+			} as unknown as TypstTransformOptions,
+			""
+		);
+		const tree = {
+			type: "root",
+			children: [
+				{
+					type: "customNode",
+					children: [{ type: "text", value: "Price: $5 #tag" }],
+				},
+			],
+		} as unknown as Root;
+
+		expect(generator.generate(tree)).toContain("Price: \\$5 \\#tag");
+		expect(unknown).toEqual(["customNode"]);
+	});
+});
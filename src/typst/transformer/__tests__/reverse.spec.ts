@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { markdownToTypst, typstToMarkdown } from "../../transformer";
+
+describe("Typst to Markdown", () => {
+	it("converts headings, labels, references and inline markup", () => {
+		const { markdown, warnings } = typstToMarkdown(
+			"= Intro <intro>\n\n== Details <sec-2>\n\n" +
+				"Text *bold* _it_ #strike[gone] #highlight[hl] with $alpha^2 <= 1/2$ and @intro, @sec-2, @smith2020."
+		);
+
+		expect(markdown).toBe(
+			"# Intro\n\n## Details ^sec-2\n\n" +
+				"Text **bold** *it* ~~gone~~ ==hl== with $\\alpha^2 \\le \\frac{1}{2}$ and [[#Intro]], [[#Details]], [@smith2020].\n"
+		);
+		expect(warnings).toEqual([]);
+	});
+
+	it("converts lists, tables, figures and block math", () => {
+		expect(
+			typstToMarkdown("- one\n  - nested\n\n+ first\n+ second\n\n/ Term: meaning").markdown
+		).toBe("- one\n  - nested\n\n1. first\n1. second\n\n- **Term**: meaning\n");
+
+		expect(typstToMarkdown("#table(\n  columns: 2,\n  [A], [B],\n  [1], [2],\n)").markdown).toBe(
+			"| A | B |\n| --- | --- |\n| 1 | 2 |\n"
+		);
+
+		expect(
+			typstToMarkdown('#figure(image("/assets/cat.png", width: 50%), caption: [A cat]) <fig-cat>')
+				.markdown
+		).toBe("![[assets/cat.png]]\n*A cat* ^fig-cat\n");
+
+		expect(typstToMarkdown("$ sum_(i=1)^n i = (n(n+1))/2 $").markdown).toBe(
+			"$$\n\\sum_{i=1}^n i = \\frac{n(n+1)}{2}\n$$\n"
+		);
+	});
+
+	it("keeps unmappable constructs as typst code blocks with warnings", () => {
+		const { markdown, warnings } = typstToMarkdown(
+			"#let x = 1\n#grid(columns: 2)[a][b]\n\nAfter."
+		);
+
+		expect(markdown).toBe("```typst\n#let x = 1\n\n#grid(columns: 2)[a][b]\n```\n\nAfter.\n");
+		expect(warnings).toHaveLength(2);
+		expect(warnings[0]).toContain("#let x = 1");
+	});
+
+	it("restores frontmatter, comments, footnotes, quotes and links", () => {
+		const { markdown } = typstToMarkdown(
+			'#set document(title: "Doc")\n\n// a comment\n\n' +
+				"Note#footnote[The detail.] here.\n\n" +
+				"#quote(attribution: [Someone])[Wise words]\n\n" +
+				'#link("https://x.org")[site]'
+		);
+
+		expect(markdown).toBe(
+			'---\ntitle: "Doc"\n---\n\n%%\na comment\n%%\n\n' +
+				"Note[^1] here.\n\n> Wise words\n>\n> — Someone\n\n[site](https://x.org)\n\n[^1]: The detail.\n"
+		);
+	});
+
+	it("round-trips Markdown converted to Typst", async () => {
+		const source = "# Title\n\nSome **bold** and $x^2$[^1].\n\n[^1]: Foot.\n";
+		const { markdown } = typstToMarkdown(await markdownToTypst(source));
+
+		expect(markdown).toBe(source);
+	});
+});
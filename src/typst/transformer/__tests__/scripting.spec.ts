@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import type { Parent } from "unist";
+import {
+	generateTypst,
+	mapTree,
+	parseMarkdown,
+	TransformerExtensions,
+} from "../../transformer";
+
+describe("Parse and generate", () => {
+	it("parses Obsidian syntax into extended nodes", async () => {
+		const tree = await parseMarkdown("See [[Note]] #draft\n\n> [!tip] Hint\n> Body");
+		const types = new Set<string>();
+		mapTree(tree, (node) => {
+			types.add(node.type);
+			return undefined;
+		});
+
+		expect(types).toContain("wikiLink");
+		expect(types).toContain("obsidianTag");
+		expect(types).toContain("callout");
+	});
+
+	it("removes and replaces nodes with mapTree", async () => {
+		const tree = await parseMarkdown("Text #draft and *more*");
+		mapTree(tree, (node) => {
+			if (node.type === "obsidianTag") {
+				return null;
+			}
+			if (node.type === "emphasis") {
+				return (node as Parent).children;
+			}
+			return undefined;
+		});
+
+		const { typst } = await generateTypst(tree);
+		expect(typst).toMatch(/^Text {2}and more\n/);
+	});
+
+	it("overrides node output per call before registered generators", async () => {
+		const extensions = new TransformerExtensions();
+		extensions.registerNodeGenerator({
+			name: "registered",
+			type: "table",
+			generate: () => "registered",
+		});
+		const tree = await parseMarkdown("| a | b |\n| - | - |\n| 1 | 2 |");
+
+		const { typst } = await generateTypst(tree, {
+			extensions,
+			generators: {
+				table: (_node, { next }) => `#align(center)[${next().trim()}]`,
+			},
+		});
+
+		expect(typst.trim()).toBe("#align(center)[registered]");
+		expect(extensions.getNodeGenerators("table")).toHaveLength(1);
+	});
+});
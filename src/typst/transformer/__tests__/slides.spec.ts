@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { markdownToTypst } from "../../transformer";
+
+const slides = (typst: string) => typst.split("#bon-slide[").slice(1);
+
+describe("Slides output", () => {
+	it("splits slides at thematic breaks", async () => {
+		const typst = await markdownToTypst("# One\n\nFirst\n\n---\n\nSecond\n\n---\n\n---\n\nThird", {
+			outputMode: "slides",
+		});
+
+		expect(typst).toContain('#set page(paper: "presentation-16-9"');
+		expect(typst).not.toContain("#import");
+		expect(typst).not.toContain("#line(");
+		expect(slides(typst)).toHaveLength(3);
+		expect(slides(typst)[0]).toContain("= One <one>");
+		expect(slides(typst)[2]).toContain("Third");
+	});
+
+	it("splits slides at headings up to the slide level", async () => {
+		const markdown = "# Part\n\n## A\n\nText\n\n### Detail\n\n## B\n\n---\n\nMore";
+		const typst = await markdownToTypst(markdown, {
+			outputMode: "slides",
+			slideLevel: 2,
+		});
+
+		const titles = slides(typst).map((slide) => slide.trim().split("\n")[0]);
+		expect(titles).toEqual(["= Part <part>", "== A <a>", "== B <b>", "More"]);
+		expect(slides(typst)[1]).toContain("=== Detail <detail>");
+	});
+
+	it("turns frontmatter into a title slide and comments into speaker notes", async () => {
+		const markdown =
+			'---\ntitle: Quarterly Review\nauthor: Ada\n---\n\n# Results\n\nRevenue grew. %%Mention the "Q3" dip%%\n\n%%\nPause for questions\n%%';
+		const typst = await markdownToTypst(markdown, { outputMode: "slides" });
+
+		expect(typst).toContain('#text(size: 2.4em, weight: "bold")[Quarterly Review]');
+		expect(typst.indexOf("Quarterly Review")).toBeLessThan(typst.indexOf("#bon-slide["));
+		expect(typst).toContain('#bon-speaker-note("Mention the \\"Q3\\" dip")');
+		expect(typst).toContain('#bon-speaker-note("Pause for questions")');
+		expect(slides(typst)).toHaveLength(1);
+	});
+
+	it("drops comments and keeps rules in documents", async () => {
+		const typst = await markdownToTypst("## Intro %%draft%%\n\nText %%todo%% here\n\n---\n\nEnd");
+
+		expect(typst).toMatch(/== Intro\s+<intro>/);
+		expect(typst).not.toContain("todo");
+		expect(typst).not.toContain("bon-slide");
+		expect(typst).toContain("#line(length: 100%");
+	});
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { markdownToTypstWithSourceMap } from "../../transformer";
+import { collapseBlankLines, extractSourceMap, markSourceChunk } from "../sourceMap";
+
+const linesOf = (typst: string, start: number, end: number) =>
+	typst.split("\n").slice(start - 1, end).join("\n");
+
+describe("Source map generation", () => {
+	it("maps top-level blocks to the Typst lines they produce", async () => {
+		const { typst, sourceMap } = await markdownToTypstWithSourceMap(
+			"# Title\n\nFirst paragraph\nstill first.\n\n- a\n- b\n"
+		);
+
+		expect(sourceMap.map((entry) => entry.markdown)).toEqual([
+			{ start: 1, end: 1 },
+			{ start: 3, end: 4 },
+			{ start: 6, end: 7 },
+		]);
+		const [heading, paragraph, list] = sourceMap;
+		expect(linesOf(typst, heading.typst.start, heading.typst.end)).toBe("= Title <title>");
+		expect(linesOf(typst, paragraph.typst.start, paragraph.typst.end)).toMatch(
+			/^First paragraph\nstill first\./
+		);
+		expect(linesOf(typst, list.typst.start, list.typst.end)).toBe("- a\n- b");
+	});
+
+	it("maps callouts after the generated preamble", async () => {
+		const { typst, sourceMap } = await markdownToTypstWithSourceMap(
+			"Intro\n\n> [!note] Hi\n> Body\n"
+		);
+
+		const callout = sourceMap.find((entry) => entry.markdown.start === 3);
+		if (!callout) {
+			throw new Error("callout is not mapped");
+		}
+		expect(callout.markdown.end).toBe(4);
+		expect(linesOf(typst, callout.typst.start, callout.typst.end)).toBe(
+			'#bon-callout("note", [Hi])[\nBody\n]'
+		);
+	});
+
+	it("keeps marks in place when collapsing blank lines", () => {
+		const sources = new Map([
+			[0, { start: 1, end: 1 }],
+			[1, { start: 5, end: 5 }],
+		]);
+		const output = `${markSourceChunk(0, "A\n\n\n")}\n\n${markSourceChunk(1, "B")}`;
+
+		const { text, sourceMap } = extractSourceMap(collapseBlankLines(output), sources);
+
+		expect(text).toBe("A\n\nB");
+		expect(sourceMap).toEqual([
+			{ markdown: { start: 1, end: 1 }, typst: { start: 1, end: 1 } },
+			{ markdown: { start: 5, end: 5 }, typst: { start: 3, end: 3 } },
+		]);
+	});
+});
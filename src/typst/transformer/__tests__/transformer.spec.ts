@@ -83,6 +83,305 @@ describe("markdownToTypst embeds", () => {
 			'#image("assets/chart1.pdf", width: 120pt, page: 2)'
 		);
 	});
+
+	it("defines callouts once in the embedding document", async () => {
+		const env = createEmbedEnvironment({
+			"notes/tips.md": { content: "> [!tip]\n> Inside", isMarkdown: true },
+			"notes/outer.md": { content: "![[notes/tips.md]]", isMarkdown: true },
+		});
+
+		const parent = await markdownToTypst("> [!note]\n> Outside\n\n![[notes/tips.md]]", {}, env);
+		const nested = await markdownToTypst("![[notes/outer.md]]", {}, env);
+
+		expect(parent.match(/#let bon-callout-styles = \(/g)).toHaveLength(1);
+		expect(nested.match(/#let bon-callout-styles = \(/g)).toHaveLength(1);
+		expect(nested.indexOf("#let bon-callout(")).toBeLessThan(nested.indexOf("#quote["));
+	});
+
+	it("keeps callout definitions in included modules", async () => {
+		const env = createEmbedEnvironment({
+			"notes/tips.md": { content: "> [!tip]\n> Inside", isMarkdown: true },
+		});
+		const modules = new Map<string, string>();
+
+		const typst = await markdownToTypst(
+			"![[notes/tips.md]]",
+			{ embedOutput: "include", onEmbedModule: (path, content) => modules.set(path, content) },
+			env
+		);
+
+		expect(typst).not.toContain("bon-callout");
+		expect(modules.get("notes/tips.embed.typ")).toContain("#let bon-callout(");
+	});
+});
+
+describe("markdownToTypst section and block embeds", () => {
+	const note = [
+		"# Intro",
+		"",
+		"Intro text.",
+		"",
+		"## Details",
+		"",
+		"Detail text.",
+		"",
+		"### Deep",
+		"",
+		"Deep text.",
+		"",
+		"## Other",
+		"",
+		"Other text.",
+		"",
+		"Tagged paragraph. ^para1",
+		"",
+		"- first item",
+		"- second item ^item2",
+		"",
+		"| a | b |",
+		"| - | - |",
+		"| 1 | 2 |",
+		"",
+		"^table1",
+	].join("\n");
+
+	function env() {
+		return createEmbedEnvironment({
+			"notes/source.md": { content: note, isMarkdown: true },
+		});
+	}
+
+	it("embeds only the heading section up to the next same-level heading", async () => {
+		const result = await markdownToTypst(
+			"![[notes/source.md#Details]]",
+			{},
+			env()
+		);
+
+		expect(result).toContain("Detail text.");
+		expect(result).toContain("Deep text.");
+		expect(result).not.toContain("Intro text.");
+		expect(result).not.toContain("Other text.");
+	});
+
+	it("resolves nested heading paths", async () => {
+		const result = await markdownToTypst(
+			"![[notes/source.md#Intro#Deep]]",
+			{},
+			env()
+		);
+
+		expect(result).toContain("Deep text.");
+		expect(result).not.toContain("Detail text.");
+	});
+
+	it("embeds a paragraph, list item or preceding block by block id", async () => {
+		const paragraph = await markdownToTypst(
+			"![[notes/source.md#^para1]]",
+			{},
+			env()
+		);
+		expect(paragraph).toContain("Tagged paragraph.");
+		expect(paragraph).not.toContain("Other text.");
+
+		const item = await markdownToTypst(
+			"![[notes/source.md#^item2]]",
+			{},
+			env()
+		);
+		expect(item).toContain("- second item");
+		expect(item).not.toContain("first item");
+
+		const table = await markdownToTypst(
+			"![[notes/source.md#^table1]]",
+			{},
+			env()
+		);
+		expect(table).toContain("#table(");
+		expect(table).not.toContain("second item");
+	});
+
+	it("reports missing sections instead of embedding the whole note", async () => {
+		const missing: string[] = [];
+		const result = await markdownToTypst(
+			"![[notes/source.md#Nowhere]]",
+			{ onMissingEmbed: (path) => missing.push(path) },
+			env()
+		);
+
+		expect(missing).toEqual(["notes/source.md#Nowhere"]);
+		expect(result).not.toContain("Intro text.");
+	});
+});
+
+describe("markdownToTypst embedded label namespaces", () => {
+	function env() {
+		return createEmbedEnvironment({
+			"notes/chapter.md": {
+				content: "# Introduction\n\nChapter text. ^key\n\nSee [[#Introduction]].",
+				isMarkdown: true,
+			},
+			"notes/nested.md": {
+				content: "# Introduction\n\n![[notes/chapter.md]]",
+				isMarkdown: true,
+			},
+		});
+	}
+
+	function labels(typst: string): string[] {
+		return Array.from(typst.matchAll(/<([^<>\s]+)>$/gm), (m) => m[1]);
+	}
+
+	it("prefixes labels of embedded notes with a namespace", async () => {
+		const result = await markdownToTypst(
+			"# Introduction\n\n![[notes/chapter.md]]",
+			{},
+			env()
+		);
+
+		expect(result).toContain("= Introduction <introduction>");
+		expect(result).toContain("= Introduction <chapter:introduction>");
+		expect(result).toContain('#label("chapter:key")');
+		expect(result).toContain("#link(<chapter:introduction>)");
+	});
+
+	it("gives each embed of the same note its own namespace", async () => {
+		const result = await markdownToTypst(
+			"![[notes/chapter.md]]\n\n![[notes/chapter.md]]",
+			{},
+			env()
+		);
+
+		expect(result).toContain("<chapter:introduction>");
+		expect(result).toContain("<chapter-2:introduction>");
+		expect(result).toContain('#label("chapter-2:key")');
+		expect(new Set(labels(result)).size).toBe(labels(result).length);
+	});
+
+	it("nests namespaces for embeds inside embeds", async () => {
+		const result = await markdownToTypst(
+			"![[notes/nested.md]]",
+			{},
+			env()
+		);
+
+		expect(result).toContain("<nested:introduction>");
+		expect(result).toContain("<nested:chapter:introduction>");
+	});
+
+	it("rewrites links into embedded notes to the namespaced labels", async () => {
+		const result = await markdownToTypst(
+			"See [[chapter#Introduction|the intro]], [[notes/chapter#^key]] and [[chapter]].\n\n![[notes/chapter.md]]",
+			{},
+			env()
+		);
+
+		expect(result).toContain("#link(<chapter:introduction>)[the intro]");
+		expect(result).toContain("#link(<chapter:key>)[");
+		expect(result).toContain("#link(<chapter:introduction>)[chapter]");
+		expect(result).not.toContain("obsidian://");
+	});
+});
+
+describe("markdownToTypst embed modules", () => {
+	function env() {
+		return createEmbedEnvironment({
+			"notes/chapter.md": {
+				content: "# Introduction\n\nChapter text.",
+				isMarkdown: true,
+			},
+			"notes/nested.md": {
+				content: "Nested intro.\n\n![[notes/chapter.md]]",
+				isMarkdown: true,
+			},
+		});
+	}
+
+	async function convert(markdown: string) {
+		const modules = new Map<string, string>();
+		const typst = await markdownToTypst(
+			markdown,
+			{
+				embedOutput: "include",
+				onEmbedModule: (path, content) => modules.set(path, content),
+			},
+			env()
+		);
+		return { typst, modules };
+	}
+
+	it("includes embedded notes from separate modules", async () => {
+		const { typst, modules } = await convert(
+			"See [[chapter#Introduction]].\n\n![[notes/chapter.md]]\n\n![[notes/chapter.md]]"
+		);
+
+		expect(typst).not.toContain("Chapter text");
+		expect(typst.match(/#include "\/notes\/chapter\.embed\.typ"/g)).toHaveLength(1);
+		expect(typst).toContain("#link(<notes-chapter:introduction>)");
+		expect([...modules.keys()]).toEqual(["notes/chapter.embed.typ"]);
+		expect(modules.get("notes/chapter.embed.typ")).toContain(
+			"= Introduction <notes-chapter:introduction>"
+		);
+	});
+
+	it("links repeated embeds to the first inclusion instead of including again", async () => {
+		const { typst } = await convert(
+			"![[notes/nested.md]]\n\n![[notes/chapter.md]]\n\nBack to [[chapter#Introduction]]."
+		);
+
+		expect(typst).not.toContain('#include "/notes/chapter.embed.typ"');
+		expect(typst.match(/#link\(<notes-chapter:introduction>\)/g)).toHaveLength(2);
+		expect(typst).toContain("#link(<notes-chapter:introduction>)[notes/chapter.md]");
+	});
+
+	it("generates modules independent of the embedding document", async () => {
+		const direct = await convert("![[notes/chapter.md]]");
+		const nested = await convert("# Other\n\n![[notes/nested.md]]");
+
+		expect(nested.modules.get("notes/nested.embed.typ")).toContain(
+			'#include "/notes/chapter.embed.typ"'
+		);
+		expect(nested.modules.get("notes/chapter.embed.typ")).toBe(
+			direct.modules.get("notes/chapter.embed.typ")
+		);
+	});
+});
+
+describe("markdownToTypst embed styles", () => {
+	const env = () =>
+		createEmbedEnvironment({
+			"notes/part.md": { content: "Part text.", isMarkdown: true },
+		});
+
+	it("quotes embedded notes with their path by default", async () => {
+		const typst = await markdownToTypst("![[notes/part.md]]", {}, env());
+
+		expect(typst).toMatch(/#quote\[Part text\.[\s\S]*#smallcaps\("notes\/part\.md"\)\]/);
+	});
+
+	it("applies the display parameter of each embed", async () => {
+		const typst = await markdownToTypst(
+			"![[notes/part.md|inline]]\n\n![[notes/part.md|box]]\n\n![[notes/part.md|pagebreak]]",
+			{},
+			env()
+		);
+
+		expect(typst).not.toContain("#quote");
+		expect(typst.startsWith("Part text.")).toBe(true);
+		expect(typst).toMatch(/#block\(width: 100%.*?\)\[Part text\.[\s\S]*#smallcaps\("notes\/part\.md"\)\]/);
+		expect(typst).toContain("#pagebreak(weak: true)\n\nPart text.");
+	});
+
+	it("uses the default style unless the embed overrides it", async () => {
+		const typst = await markdownToTypst(
+			"![[notes/part.md]]\n\n![[notes/part.md|Quote]]\n\n![[notes/part.md|Some alias]]",
+			{ embedStyle: "inline" },
+			env()
+		);
+
+		expect(typst.match(/#quote\[/g)).toHaveLength(1);
+		expect(typst.match(/^Part text\.$/gm)).toHaveLength(2);
+	});
 });
 
 describe("markdownToTypst special character escaping", () => {
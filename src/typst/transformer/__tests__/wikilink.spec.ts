@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { markdownToTypst } from "../../transformer";
+
+describe("Wikilink policy", () => {
+	it("links same-note headings and blocks to labels", async () => {
+		const result = await markdownToTypst(
+			"See [[#Intro]] and [[#^key-point|the key point]].\n\n# Intro\n\nImportant. ^key-point"
+		);
+
+		expect(result).toContain("#link(<intro>)[Intro]");
+		expect(result).toContain("#link(<key-point>)[the key point]");
+		expect(result).not.toContain('#link("")');
+	});
+
+	it("renders unknown same-note targets as styled text", async () => {
+		const result = await markdownToTypst("See [[#Missing]].");
+
+		expect(result).toContain('#text(fill: rgb("#0066cc"))[Missing]');
+		expect(result).not.toContain("#link(");
+	});
+
+	it("links other notes with obsidian:// URIs", async () => {
+		const result = await markdownToTypst(
+			"See [[Projects/Road map#Q1 goals|plan]].",
+			{ vaultName: "My Vault" }
+		);
+
+		expect(result).toContain(
+			'#link("obsidian://open?vault=My%20Vault&file=Projects%2FRoad%20map%23Q1%20goals")[plan]'
+		);
+	});
+
+	it("omits the vault parameter when no vault name is known", async () => {
+		const result = await markdownToTypst("[[Other]]");
+
+		expect(result).toContain('#link("obsidian://open?file=Other")[Other]');
+	});
+
+	it("renders other notes as styled text with the text policy", async () => {
+		const result = await markdownToTypst("See [[Other note]].", {
+			wikiLinkPolicy: "text",
+		});
+
+		expect(result).toContain('#text(fill: rgb("#0066cc"))[Other note]');
+		expect(result).not.toContain("obsidian://");
+	});
+
+	it("adds a footnote with the note title with the footnote policy", async () => {
+		const result = await markdownToTypst(
+			"See [[notes/Other note#Details|details]].",
+			{ wikiLinkPolicy: "footnote" }
+		);
+
+		expect(result).toContain("details#footnote[Other note › Details]");
+	});
+
+	it("keeps same-note anchors regardless of policy", async () => {
+		const result = await markdownToTypst("[[#Intro]]\n\n# Intro", {
+			wikiLinkPolicy: "footnote",
+		});
+
+		expect(result).toContain("#link(<intro>)[Intro]");
+	});
+});
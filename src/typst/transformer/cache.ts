@@ -0,0 +1,232 @@
+import type { Node } from "unist";
+import type { Root } from "mdast";
+import type { TransformerExtensions } from "./extensions";
+import type { TypstTransformOptions } from "./types";
+
+/**
+ * 顶层块的缓存条目：输出及渲染时对生成上下文的改动，命中时重放
+ */
+export interface CachedBlock {
+	typst: string;
+	footnotes: Array<[string, string]>; // 新输出的脚注（标识符与 label）
+	labels: string[]; // 新分配的 label
+	citations: string[]; // 新引用的文献 key
+	events: Array<[string, unknown[]]>; // 渲染时触发的 on* 回调（名称与参数）
+}
+
+export interface ConversionCacheCounters {
+	hits: number;
+	misses: number;
+	entries: number;
+}
+
+/**
+ * 缓存命中统计：blocks 为顶层块的生成结果，files 为笔记与嵌入文件的解析结果
+ */
+export interface ConversionCacheStats {
+	blocks: ConversionCacheCounters;
+	files: ConversionCacheCounters;
+}
+
+export interface ConversionCacheLimits {
+	maxBlocks: number;
+	maxFiles: number;
+}
+
+const DEFAULT_LIMITS: ConversionCacheLimits = {
+	maxBlocks: 20000,
+	maxFiles: 200,
+};
+
+/**
+ * 53 位字符串哈希（cyrb53），同步计算，供生成器在遍历中使用
+ */
+function cyrb53(value: string, seed: number): string {
+	let h1 = 0xdeadbeef ^ seed;
+	let h2 = 0x41c6ce57 ^ seed;
+	for (let i = 0; i < value.length; i++) {
+		const code = value.charCodeAt(i);
+		h1 = Math.imul(h1 ^ code, 2654435761);
+		h2 = Math.imul(h2 ^ code, 1597334677);
+	}
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+	return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * 内容哈希（两个种子的 cyrb53 拼接，约 106 位）
+ */
+export function hashString(value: string): string {
+	return `${cyrb53(value, 0)}${cyrb53(value, 0x9e3779b9).padStart(11, "0")}`;
+}
+
+/**
+ * 序列化节点用于计算缓存键，忽略 position（块移动位置后仍可命中）
+ */
+export function serializeNode(node: Node | Node[]): string {
+	return JSON.stringify(node, (key, value) =>
+		key === "position" ? undefined : value
+	);
+}
+
+function describeExtensions(extensions?: TransformerExtensions): string {
+	if (!extensions) {
+		return "";
+	}
+	// 同名注册被替换为新实现时，函数源码不同，缓存随之失效
+	const plugins = extensions
+		.getRemarkPlugins()
+		.map((entry) => [entry.name, entry.order, entry.options, String(entry.plugin)]);
+	const types = new Set(extensions.describe().nodeGenerators.map(({ type }) => type));
+	const generators = [...types]
+		.flatMap((type) => extensions.getNodeGenerators(type))
+		.map((entry) => [entry.name, entry.type, entry.order, String(entry.generate)]);
+	return JSON.stringify([plugins, generators]);
+}
+
+/**
+ * 转换选项的指纹：回调不影响输出，不参与计算；扩展按注册内容计算
+ */
+export function optionsFingerprint(options: Partial<TypstTransformOptions>): string {
+	const plain = JSON.stringify(options, (key, value) =>
+		key === "extensions" || key === "cache" || typeof value === "function"
+			? undefined
+			: value
+	);
+	return hashString(`${plain}\u0000${describeExtensions(options.extensions)}`);
+}
+
+/**
+ * 增量转换缓存
+ * - 顶层块：键为块内容、转换选项与文档上下文（label、脚注、链接定义等）的哈希
+ * - 文件：笔记与嵌入文件解析后的 mdast，键为内容与解析选项的哈希，取出时深拷贝
+ * 两者均按最近使用淘汰
+ */
+export class ConversionCache {
+	private readonly blocks = new Map<string, CachedBlock>();
+	private readonly files = new Map<string, Root>();
+	private readonly limits: ConversionCacheLimits;
+	private stats = {
+		blocks: { hits: 0, misses: 0 },
+		files: { hits: 0, misses: 0 },
+	};
+
+	constructor(limits: Partial<ConversionCacheLimits> = {}) {
+		this.limits = { ...DEFAULT_LIMITS, ...limits };
+	}
+
+	getBlock(key: string): CachedBlock | undefined {
+		const entry = touch(this.blocks, key);
+		this.stats.blocks[entry ? "hits" : "misses"] += 1;
+		return entry;
+	}
+
+	setBlock(key: string, entry: CachedBlock): void {
+		store(this.blocks, key, entry, this.limits.maxBlocks);
+	}
+
+	/**
+	 * 取出缓存的解析结果（深拷贝，调用方可以修改）
+	 */
+	getTree(key: string): Root | undefined {
+		const tree = touch(this.files, key);
+		this.stats.files[tree ? "hits" : "misses"] += 1;
+		return tree ? structuredClone(tree) : undefined;
+	}
+
+	setTree(key: string, tree: Root): void {
+		try {
+			store(this.files, key, structuredClone(tree), this.limits.maxFiles);
+		} catch {
+			// 插件在节点上放了无法复制的值（如函数），不缓存
+		}
+	}
+
+	getStats(): ConversionCacheStats {
+		return {
+			blocks: { ...this.stats.blocks, entries: this.blocks.size },
+			files: { ...this.stats.files, entries: this.files.size },
+		};
+	}
+
+	resetStats(): void {
+		this.stats = {
+			blocks: { hits: 0, misses: 0 },
+			files: { hits: 0, misses: 0 },
+		};
+	}
+
+	clear(): void {
+		this.blocks.clear();
+		this.files.clear();
+		this.resetStats();
+	}
+}
+
+// Map 按插入顺序迭代：命中时移到末尾，淘汰时删除开头
+function touch<T>(map: Map<string, T>, key: string): T | undefined {
+	const value = map.get(key);
+	if (value !== undefined) {
+		map.delete(key);
+		map.set(key, value);
+	}
+	return value;
+}
+
+function store<T>(map: Map<string, T>, key: string, value: T, max: number): void {
+	map.delete(key);
+	map.set(key, value);
+	while (map.size > max) {
+		map.delete(map.keys().next().value as string);
+	}
+}
+
+/**
+ * 集合中第 size 个之后加入的元素（Set 按插入顺序迭代）
+ */
+export function addedSince(set: Set<string>, size: number): string[] {
+	const added: string[] = [];
+	let index = 0;
+	for (const value of set) {
+		if (index++ >= size) {
+			added.push(value);
+		}
+	}
+	return added;
+}
+
+/**
+ * 包装选项中的 on* 回调，调用时同时记录到 events，缓存命中时据此重放
+ */
+export function recordCallbacks(
+	options: TypstTransformOptions,
+	events: CachedBlock["events"]
+): TypstTransformOptions {
+	const recording: Record<string, unknown> = { ...options };
+	for (const [name, value] of Object.entries(options)) {
+		if (/^on[A-Z]/.test(name) && typeof value === "function") {
+			recording[name] = (...args: unknown[]) => {
+				events.push([name, args]);
+				return value(...args);
+			};
+		}
+	}
+	return recording as unknown as TypstTransformOptions;
+}
+
+/**
+ * 重放缓存条目记录的回调
+ */
+export function replayCallbacks(
+	options: TypstTransformOptions,
+	events: CachedBlock["events"]
+): void {
+	const callbacks = options as unknown as Record<string, unknown>;
+	for (const [name, args] of events) {
+		const callback = callbacks[name];
+		if (typeof callback === "function") {
+			callback(...args);
+		}
+	}
+}
@@ -0,0 +1,131 @@
+import type {
+	NodeGeneratorRegistration,
+	RemarkPluginRegistration,
+} from "./types";
+
+/**
+ * 内置 remark 插件的执行顺序，注册插件通过 order 插入其间
+ * 例如自定义 `==color:text==` 语法需在 highlights 之前执行（order < 900）
+ */
+export const BUILTIN_PLUGIN_ORDER = {
+	math: 100,
+	embeds: 200,
+	comments: 300,
+	html: 400,
+	wikiLinks: 500,
+	citations: 600,
+	callouts: 700,
+	tags: 800,
+	highlights: 900,
+	blockRefs: 1000,
+	figures: 1100,
+} as const;
+
+// 未指定 order 的插件在全部内置插件之后执行
+export const DEFAULT_PLUGIN_ORDER = 2000;
+export const DEFAULT_GENERATOR_ORDER = 0;
+
+function byOrder<T extends { order?: number }>(
+	fallback: number
+): (a: T, b: T) => number {
+	return (a, b) => (a.order ?? fallback) - (b.order ?? fallback);
+}
+
+/**
+ * 用户注册的 remark 插件与节点生成器
+ * 同名注册会替换之前的注册，重复执行注册代码不会叠加
+ */
+export class TransformerExtensions {
+	private remarkPlugins: RemarkPluginRegistration[] = [];
+	private nodeGenerators: NodeGeneratorRegistration[] = [];
+
+	/**
+	 * 注册 remark 插件
+	 * @returns 取消注册的函数
+	 */
+	registerRemarkPlugin(registration: RemarkPluginRegistration): () => void {
+		if (!registration.name || typeof registration.plugin !== "function") {
+			throw new Error("A remark plugin registration needs a name and a plugin function");
+		}
+		this.remarkPlugins = this.remarkPlugins
+			.filter((entry) => entry.name !== registration.name)
+			.concat(registration);
+		return () => {
+			this.remarkPlugins = this.remarkPlugins.filter(
+				(entry) => entry !== registration
+			);
+		};
+	}
+
+	/**
+	 * 注册节点生成器
+	 * @returns 取消注册的函数
+	 */
+	registerNodeGenerator(registration: NodeGeneratorRegistration): () => void {
+		if (
+			!registration.name ||
+			!registration.type ||
+			typeof registration.generate !== "function"
+		) {
+			throw new Error(
+				"A node generator registration needs a name, a node type and a generate function"
+			);
+		}
+		this.nodeGenerators = this.nodeGenerators
+			.filter((entry) => entry.name !== registration.name)
+			.concat(registration);
+		return () => {
+			this.nodeGenerators = this.nodeGenerators.filter(
+				(entry) => entry !== registration
+			);
+		};
+	}
+
+	/**
+	 * 按执行顺序返回注册的 remark 插件（order 相同时按注册顺序）
+	 */
+	getRemarkPlugins(): RemarkPluginRegistration[] {
+		return [...this.remarkPlugins].sort(byOrder(DEFAULT_PLUGIN_ORDER));
+	}
+
+	/**
+	 * 按执行顺序返回某一节点类型的生成器
+	 */
+	getNodeGenerators(type: string): NodeGeneratorRegistration[] {
+		return this.nodeGenerators
+			.filter((entry) => entry.type === type)
+			.sort(byOrder(DEFAULT_GENERATOR_ORDER));
+	}
+
+	/**
+	 * 注册内容概览，便于排查顺序问题
+	 */
+	describe(): {
+		remarkPlugins: Array<{ name: string; order: number }>;
+		nodeGenerators: Array<{ name: string; type: string; order: number }>;
+	} {
+		return {
+			remarkPlugins: this.getRemarkPlugins().map(({ name, order }) => ({
+				name,
+				order: order ?? DEFAULT_PLUGIN_ORDER,
+			})),
+			nodeGenerators: [...this.nodeGenerators]
+				.sort(byOrder(DEFAULT_GENERATOR_ORDER))
+				.map(({ name, type, order }) => ({
+					name,
+					type,
+					order: order ?? DEFAULT_GENERATOR_ORDER,
+				})),
+		};
+	}
+
+	/**
+	 * 复制当前注册内容，用于只在一次转换中生效的注册（如脚本中的注册）
+	 */
+	fork(): TransformerExtensions {
+		const copy = new TransformerExtensions();
+		copy.remarkPlugins = [...this.remarkPlugins];
+		copy.nodeGenerators = [...this.nodeGenerators];
+		return copy;
+	}
+}
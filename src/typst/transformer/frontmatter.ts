@@ -0,0 +1,131 @@
+export type FrontmatterScalar = string | number | boolean;
+export type FrontmatterValue = FrontmatterScalar | FrontmatterScalar[];
+export type Frontmatter = Record<string, FrontmatterValue>;
+
+function unquote(value: string): string {
+	if (value.length >= 2) {
+		const quote = value[0];
+		if ((quote === '"' || quote === "'") && value.endsWith(quote)) {
+			const inner = value.slice(1, -1);
+			return quote === '"'
+				? inner.replace(/\\(["\\])/g, "$1").replace(/\\n/g, "\n")
+				: inner.replace(/''/g, "'");
+		}
+	}
+	return value;
+}
+
+/**
+ * 带引号的值到闭合引号为止，其后的内容（如行尾注释）忽略
+ */
+function quotedPrefix(value: string): string {
+	const quote = value[0];
+	for (let i = 1; i < value.length; i++) {
+		if (quote === '"' && value[i] === "\\") {
+			i++;
+		} else if (value[i] === quote) {
+			// 单引号中 '' 表示一个单引号
+			if (quote === "'" && value[i + 1] === "'") {
+				i++;
+				continue;
+			}
+			return value.slice(0, i + 1);
+		}
+	}
+	return value;
+}
+
+function parseScalar(raw: string): FrontmatterScalar {
+	const trimmed = raw.trim();
+	if (/^["']/.test(trimmed)) {
+		return unquote(quotedPrefix(trimmed));
+	}
+
+	// 行尾注释只在未加引号的值中识别
+	const value = trimmed.replace(/\s+#.*$/, "").trim();
+	if (value === "true" || value === "false") {
+		return value === "true";
+	}
+	if (/^-?\d+(\.\d+)?$/.test(value)) {
+		return Number(value);
+	}
+	return value;
+}
+
+function parseFlowList(raw: string): FrontmatterScalar[] {
+	const inner = raw.trim().slice(1, -1);
+	const items: string[] = [];
+	let current = "";
+	let quote = "";
+
+	for (const char of inner) {
+		if (quote) {
+			current += char;
+			if (char === quote) {
+				quote = "";
+			}
+		} else if (char === '"' || char === "'") {
+			quote = char;
+			current += char;
+		} else if (char === ",") {
+			items.push(current);
+			current = "";
+		} else {
+			current += char;
+		}
+	}
+	items.push(current);
+
+	return items
+		.map((item) => item.trim())
+		.filter(Boolean)
+		.map(parseScalar);
+}
+
+/**
+ * 解析 frontmatter 中常见的 YAML 子集：
+ * 标量（字符串、数字、布尔）、行内列表 [a, b] 与块列表（- item）
+ * 嵌套对象与多行字符串不在支持范围内，会被忽略
+ */
+export function parseFrontmatter(yaml: string): Frontmatter {
+	const result: Frontmatter = {};
+	const lines = yaml.split(/\r?\n/);
+	let listKey: string | null = null;
+
+	for (const line of lines) {
+		if (!line.trim() || line.trim().startsWith("#")) {
+			continue;
+		}
+
+		const listItem = /^\s+-\s+(.*)$|^-\s+(.*)$/.exec(line);
+		if (listItem && listKey) {
+			const list = result[listKey] as FrontmatterScalar[];
+			list.push(parseScalar(listItem[1] ?? listItem[2]));
+			continue;
+		}
+
+		listKey = null;
+
+		const entry = /^([^\s:#][^:]*?)\s*:(?:\s+(.*))?$/.exec(line);
+		if (!entry || /^\s/.test(line)) {
+			continue;
+		}
+
+		const key = entry[1].trim();
+		const value = (entry[2] ?? "").trim();
+
+		if (!value) {
+			// 值在后续的块列表中；没有列表项时保持为空列表
+			result[key] = [];
+			listKey = key;
+		} else if (value.startsWith("[") && value.endsWith("]")) {
+			result[key] = parseFlowList(value);
+		} else if (value === "|" || value === ">" || value.startsWith("{")) {
+			continue;
+		} else {
+			result[key] = parseScalar(value);
+		}
+	}
+
+	return result;
+}
@@ -2,11 +2,18 @@ import type {
 	Blockquote,
 	Break,
 	Code,
+	Definition,
+	Delete,
 	Emphasis,
+	FootnoteDefinition,
+	FootnoteReference,
 	Heading,
+	Html,
 	Image,
+	ImageReference,
 	InlineCode,
 	Link,
+	LinkReference,
 	List,
 	ListItem,
 	Paragraph,
@@ -14,13 +21,37 @@ import type {
 	Strong,
 	Table,
 	Text,
+	Yaml,
 } from "mdast";
 import type { Content } from "mdast";
+import { toString } from "mdast-util-to-string";
 import { visit } from "unist-util-visit";
+import { PHRASING_PARENTS } from "./plugins/utils";
+import { parseFrontmatter } from "./frontmatter";
+import {
+	addedSince,
+	hashString,
+	optionsFingerprint,
+	recordCallbacks,
+	replayCallbacks,
+	serializeNode,
+	type CachedBlock,
+	type ConversionCache,
+} from "./cache";
+import {
+	collapseBlankLines,
+	extractSourceMap,
+	markSourceChunk,
+	nodeLineRange,
+} from "./sourceMap";
 import type {
+	CitationNode,
 	EmbedDocumentNode,
+	HtmlElementNode,
 	ObsidianBlockRefNode,
 	ObsidianCalloutNode,
+	ObsidianCommentNode,
+	ObsidianFigureNode,
 	ObsidianHighlightNode,
 	ObsidianTagNode,
 	ObsidianWikiLinkNode,
@@ -29,9 +60,16 @@ import type {
 	MathNode,
 	TypstTransformOptions,
 } from "./types";
-import type { GeneratorContext } from "./types";
+import type {
+	EmbeddedNoteLabels,
+	GeneratorContext,
+	LabelScope,
+	LineRange,
+	TypstSourceMap,
+} from "./types";
 import {
 	generateCallout,
+	generateCalloutPrelude,
 	generateHeading,
 	generateParagraph,
 	generateText,
@@ -41,6 +79,19 @@ import {
 	generateLineBreak,
 	generateLink,
 	generateImage,
+	generateLinkReference,
+	generateImageReference,
+	generateDelete,
+	generateHtml,
+	generateHtmlElement,
+	generateCitation,
+	generateBibliography,
+	generateDocumentMetadata,
+	generateTitlePage,
+	generateSlidesPrelude,
+	generateSlide,
+	generateComment,
+	escapeTypstMarkup,
 	generateWikiLink,
 	generateList,
 	generateTable,
@@ -51,6 +102,12 @@ import {
 	generateBlockRef,
 	generateHighlight,
 	generateEmbedDocument,
+	generateFootnoteReference,
+	generateFootnoteDefinition,
+	generateFigure,
+	ensureLabel,
+	assignHeadingLabel,
+	createLabelScope,
 } from "./generators";
 
 type AnyNode =
@@ -70,16 +127,31 @@ type AnyNode =
 
 export class TypstGenerator {
 	private readonly context: GeneratorContext;
+	private sourceMap: TypstSourceMap = [];
+	private calloutsUsed = false;
 
-	constructor(options: TypstTransformOptions, currentFile: string) {
+	constructor(
+		options: TypstTransformOptions,
+		currentFile: string,
+		labelScope: LabelScope = createLabelScope()
+	) {
 		this.context = {
 			options,
 			currentDepth: 0,
 			inCodeBlock: false,
 			inListItem: false,
 			listDepth: 0,
-			collectedLabels: new Set(),
+			collectedLabels: labelScope.labels,
+			labelScope,
 			currentFile,
+			footnoteDefinitions: new Map(),
+			footnoteLabels: new Map(),
+			figureLabels: new Map(),
+			headingLabels: new Map(),
+			headingNodeLabels: new Map(),
+			blockLabels: new Map(),
+			definitions: new Map(),
+			blockHtml: new Set(),
 		};
 	}
 
@@ -98,9 +170,164 @@ export class TypstGenerator {
 		return hasCheckbox;
 	}
 
+	/**
+	 * 检测 AST 中是否包含 callout（包括内联嵌入笔记中的）
+	 * 用于决定是否需要输出 callout 样式定义
+	 */
+	private hasCallouts(tree: Root): boolean {
+		let hasCallout = false;
+		visit(tree, (node) => {
+			if (
+				node.type === "callout" ||
+				(node.type === "embedDocument" &&
+					(node as EmbedDocumentNode).data?.calloutsUsed)
+			) {
+				hasCallout = true;
+				return false;
+			}
+		});
+		return hasCallout;
+	}
+
+	/**
+	 * 上次生成的文档是否用到 callout（在 generate 之后调用）
+	 * 不输出 callout 定义时，由外层文档据此输出
+	 */
+	usesCallouts(): boolean {
+		return this.calloutsUsed;
+	}
+
+	/**
+	 * 收集脚注定义，供引用处内联输出
+	 */
+	private collectFootnoteDefinitions(tree: Root): void {
+		visit(tree, "footnoteDefinition", (node: FootnoteDefinition) => {
+			if (!this.context.footnoteDefinitions.has(node.identifier)) {
+				this.context.footnoteDefinitions.set(node.identifier, node);
+			}
+		});
+	}
+
+	/**
+	 * 收集链接定义，供引用式链接与图片解析
+	 */
+	private collectDefinitions(tree: Root): void {
+		visit(tree, "definition", (node: Definition) => {
+			if (!this.context.definitions.has(node.identifier)) {
+				this.context.definitions.set(node.identifier, node);
+			}
+		});
+	}
+
+	/**
+	 * 标记不在段落等行内容器中的 HTML 节点
+	 */
+	private collectBlockHtml(tree: Root): void {
+		visit(tree, "html", (node: Html, _index, parent) => {
+			if (parent && !PHRASING_PARENTS.has(parent.type)) {
+				this.context.blockHtml.add(node);
+			}
+		});
+	}
+
+	/**
+	 * 预先按文档顺序为标题分配 label，使其之前的 [[#标题]] 链接也能解析
+	 */
+	private collectHeadingLabels(tree: Root): void {
+		visit(tree, "heading", (node: Heading) => {
+			assignHeadingLabel(node, this.context);
+		});
+	}
+
+	/**
+	 * 预先为文档中的块 ID 分配 label，使 [[#^block-id]] 能解析
+	 */
+	private collectBlockLabels(tree: Root): void {
+		visit(tree, "obsidianBlockRef", (node: ObsidianBlockRefNode) => {
+			if (!this.context.blockLabels.has(node.value)) {
+				this.context.blockLabels.set(
+					node.value,
+					ensureLabel(this.context, node.value)
+				);
+			}
+		});
+	}
+
+	/**
+	 * 预先为带块 ID 的 figure 分配 label，使其之前的交叉引用也能解析
+	 */
+	private collectFigureLabels(tree: Root): void {
+		visit(tree, "figure", (node: ObsidianFigureNode) => {
+			if (node.blockId && !this.context.figureLabels.has(node.blockId)) {
+				this.context.figureLabels.set(
+					node.blockId,
+					ensureLabel(this.context, node.blockId)
+				);
+			}
+		});
+	}
+
+	/**
+	 * 导出本文档的标题与块 label（在 generate 之后调用），供嵌入方改写链接
+	 */
+	exportLabels(): EmbeddedNoteLabels {
+		const blocks = new Map(this.context.blockLabels);
+		this.context.figureLabels.forEach((label, blockId) => {
+			blocks.set(blockId, label);
+		});
+
+		return {
+			root: this.context.headingNodeLabels.values().next().value,
+			headings: new Map(this.context.headingLabels),
+			blocks,
+		};
+	}
+
+	/**
+	 * 预先分配本文档的标题与块 label 并导出（之后仍需 generate）
+	 * 书的各章在生成前全部登记，使指向后面章节的链接也能解析
+	 */
+	prepareLabels(root: Root): EmbeddedNoteLabels {
+		this.collectHeadingLabels(root);
+		this.collectFigureLabels(root);
+		this.collectBlockLabels(root);
+		return this.exportLabels();
+	}
+
 	generate(root: Root): string {
 		let output = "";
 
+		this.collectFootnoteDefinitions(root);
+		this.collectDefinitions(root);
+		this.collectBlockHtml(root);
+		this.collectHeadingLabels(root);
+		this.collectFigureLabels(root);
+		this.collectBlockLabels(root);
+
+		// frontmatter -> 文档元数据，需位于所有内容之前
+		if (this.context.options.preserveFrontmatter) {
+			const yaml = root.children.find((child) => child.type === "yaml");
+			if (yaml) {
+				output += generateDocumentMetadata(
+					parseFrontmatter((yaml as Yaml).value),
+					this.context.options.frontmatterMapping
+				);
+			}
+		}
+
+		// 幻灯片：页面设置与辅助函数，frontmatter 生成标题页
+		const slides = this.context.options.outputMode === "slides";
+		if (slides) {
+			output += generateSlidesPrelude();
+			const yaml = root.children.find((child) => child.type === "yaml");
+			if (yaml) {
+				output += generateTitlePage(
+					parseFrontmatter((yaml as Yaml).value),
+					this.context.options.frontmatterMapping
+				);
+			}
+		}
+
 		// 检测是否需要导入 cheq 包（支持扩展 checkbox）
 		// 仅在启用增强功能且文档包含 checkbox 时导入
 		if (this.context.options.enableCheckboxEnhancement && this.hasCheckboxes(root)) {
@@ -108,11 +335,195 @@ export class TypstGenerator {
 			output += "#show: checklist.with(extras: true)\n\n";
 		}
 
-		const result = this.renderChildren(root.children as Content[]);
+		this.calloutsUsed = this.hasCallouts(root);
+		if (this.calloutsUsed && this.context.options.calloutPrelude) {
+			output += generateCalloutPrelude(
+				this.context.options.calloutStyleOverrides
+			);
+		}
+
+		// 启用缓存时，未改变的顶层块直接复用上次的输出
+		const cache = this.context.options.cache;
+		let state = cache ? this.documentFingerprint() : "";
+		const render = (child: Content): string => {
+			if (!cache) {
+				return this.visitNode(child as AnyNode);
+			}
+			const block = this.renderCachedBlock(child, cache, state);
+			state = block.state;
+			return block.typst;
+		};
+
+		// 顶层块输出带起止标记，用于生成源码映射
+		const sources = new Map<number, LineRange>();
+		const children = root.children as Content[];
+		const chunks = children.map((child, index) => {
+			const rendered = render(child);
+			const range = nodeLineRange(child);
+			if (!range) {
+				return rendered;
+			}
+			sources.set(index, range);
+			return markSourceChunk(index, rendered);
+		});
+		let result = slides ? this.groupSlides(children, chunks) : chunks.join("");
+
+		const bibliography = generateBibliography(this.context);
+		if (bibliography) {
+			result += slides ? generateSlide(bibliography) : `\n\n${bibliography}`;
+		}
 
 		// 清理连续的多余空行
 		// Typst 会自动处理多个连续的 parbreak()，这里只需要清理格式
-		return (output + result).replace(/\n{3,}/g, "\n\n").trim() + "\n";
+		const { text, sourceMap } = extractSourceMap(
+			collapseBlankLines(output + result),
+			sources
+		);
+		this.sourceMap = sourceMap;
+		return `${text}\n`;
+	}
+
+	/**
+	 * 幻灯片模式：在 --- 与不深于 slideLevel 的标题处分页，每张幻灯片包装为 #bon-slide[...]
+	 * 不产生内容的块（frontmatter、链接与脚注定义等）不单独成页
+	 */
+	private groupSlides(children: Content[], chunks: string[]): string {
+		const { slideLevel } = this.context.options;
+		const slides: Array<{ chunks: string[]; empty: boolean }> = [
+			{ chunks: [], empty: true },
+		];
+
+		children.forEach((child, index) => {
+			let current = slides[slides.length - 1];
+			const startsSlide =
+				child.type === "thematicBreak" ||
+				(child.type === "heading" && child.depth <= slideLevel);
+			if (startsSlide && !current.empty) {
+				current = { chunks: [], empty: true };
+				slides.push(current);
+			}
+			current.chunks.push(chunks[index]);
+			if (
+				child.type !== "thematicBreak" &&
+				child.type !== "yaml" &&
+				child.type !== "definition" &&
+				child.type !== "footnoteDefinition"
+			) {
+				current.empty = false;
+			}
+		});
+
+		return slides
+			.map(({ chunks: content, empty }) =>
+				empty ? content.join("") : generateSlide(content.join(""))
+			)
+			.join("");
+	}
+
+	/**
+	 * 文档上下文的指纹（在预先收集 label、脚注与链接定义之后计算）
+	 * 顶层块的输出除自身内容外只取决于这些信息
+	 */
+	private documentFingerprint(): string {
+		const { context } = this;
+		const embeddedNotes = [...context.labelScope.embeddedNotes].map(
+			([key, labels]) => [key, labels.root, [...labels.headings], [...labels.blocks]]
+		);
+		return hashString(
+			[
+				optionsFingerprint(context.options),
+				context.currentFile,
+				JSON.stringify([
+					[...context.collectedLabels],
+					[...context.headingLabels],
+					[...context.blockLabels],
+					[...context.figureLabels],
+					embeddedNotes,
+				]),
+				serializeNode([...context.definitions.values()]),
+				serializeNode([...context.footnoteDefinitions.values()]),
+			].join("\u0000")
+		);
+	}
+
+	/**
+	 * 渲染顶层块；命中缓存时复用输出，并重放渲染时对上下文的改动
+	 * @param state 文档指纹与之前各块改动的累积哈希
+	 */
+	private renderCachedBlock(
+		node: Content,
+		cache: ConversionCache,
+		state: string
+	): { typst: string; state: string } {
+		let key: string;
+		try {
+			// 同名标题内容相同但 label 不同，标题的 label 也计入键
+			const headings: string[] = [];
+			visit(node, "heading", (heading: Heading) => {
+				headings.push(this.context.headingNodeLabels.get(heading) ?? "");
+			});
+			key = hashString(`${state}\u0000${headings.join(",")}\u0000${serializeNode(node)}`);
+		} catch {
+			// 无法序列化的节点（如插件留下的循环引用）不缓存
+			return { typst: this.visitNode(node as AnyNode), state };
+		}
+
+		let entry = cache.getBlock(key);
+		if (entry) {
+			entry.footnotes.forEach(([id, label]) => this.context.footnoteLabels.set(id, label));
+			entry.labels.forEach((label) => this.context.collectedLabels.add(label));
+			entry.citations.forEach((citation) => this.context.labelScope.citations.add(citation));
+			replayCallbacks(this.context.options, entry.events);
+		} else {
+			entry = this.renderRecordedBlock(node);
+			cache.setBlock(key, entry);
+		}
+
+		// 已输出的脚注与新分配的 label 影响后续块的输出
+		const changed = entry.footnotes.length > 0 || entry.labels.length > 0;
+		return {
+			typst: entry.typst,
+			state: changed
+				? hashString(
+						`${state}\u0000${entry.footnotes.map(([id]) => id).join(",")}\u0000${entry.labels.join(",")}`
+					)
+				: state,
+		};
+	}
+
+	/**
+	 * 渲染顶层块并记录其对上下文的改动
+	 */
+	private renderRecordedBlock(node: Content): CachedBlock {
+		const { context } = this;
+		const footnotes = context.footnoteLabels.size;
+		const labels = context.collectedLabels.size;
+		const citations = context.labelScope.citations.size;
+		const events: CachedBlock["events"] = [];
+
+		const options = context.options;
+		context.options = recordCallbacks(options, events);
+		let typst: string;
+		try {
+			typst = this.visitNode(node as AnyNode);
+		} finally {
+			context.options = options;
+		}
+
+		return {
+			typst,
+			footnotes: [...context.footnoteLabels].slice(footnotes),
+			labels: addedSince(context.collectedLabels, labels),
+			citations: addedSince(context.labelScope.citations, citations),
+			events,
+		};
+	}
+
+	/**
+	 * 导出 Markdown 顶层块行号到生成的 Typst 行号的映射（在 generate 之后调用）
+	 */
+	getSourceMap(): TypstSourceMap {
+		return this.sourceMap;
 	}
 
 	private renderChildren = (children: Content[]): string => {
@@ -122,6 +533,29 @@ export class TypstGenerator {
 	};
 
 	private visitNode(node: AnyNode): string {
+		const overrides =
+			this.context.options.extensions?.getNodeGenerators(node.type) ?? [];
+		if (!overrides.length) {
+			return this.visitBuiltinNode(node);
+		}
+
+		// 注册的生成器按顺序执行，next() 交给下一个，最后为内置实现
+		const run = (index: number): string => {
+			if (index >= overrides.length) {
+				return this.visitBuiltinNode(node);
+			}
+			return overrides[index].generate(node, {
+				renderChildren: this.renderChildren,
+				next: () => run(index + 1),
+				escape: escapeTypstMarkup,
+				options: this.context.options,
+				currentFile: this.context.currentFile,
+			});
+		};
+		return run(0);
+	}
+
+	private visitBuiltinNode(node: AnyNode): string {
 		switch (node.type) {
 			case "root":
 				return this.renderChildren(
@@ -157,21 +591,45 @@ export class TypstGenerator {
 				return generateTable(node as Table, this.renderChildren);
 			case "link":
 				return generateLink(node as Link, this.renderChildren);
+			case "linkReference":
+				return generateLinkReference(
+					node as LinkReference,
+					this.renderChildren,
+					this.context
+				);
 			case "image":
 				return generateImage(node as Image, this.context);
+			case "imageReference":
+				return generateImageReference(node as ImageReference, this.context);
+			case "delete":
+				return generateDelete(node as Delete, this.renderChildren);
+			case "html":
+				return generateHtml(node as Html, this.context);
+			case "citation":
+				return generateCitation(node as CitationNode, this.context);
+			case "htmlElement":
+				return generateHtmlElement(
+					node as HtmlElementNode,
+					this.renderChildren
+				);
+			case "definition":
+			case "yaml":
+				// 链接定义在引用处解析；frontmatter 不输出到正文
+				return "";
 			case "inlineMath":
-				return generateInlineMath(node as InlineMathNode);
+				return generateInlineMath(node as InlineMathNode, this.context);
 			case "math":
-				return generateMath(node as MathNode);
+				return generateMath(node as MathNode, this.context);
 			case "callout":
 				return generateCallout(
 					node as ObsidianCalloutNode,
-					this.renderChildren
+					this.renderChildren,
+					this.context
 				);
 			case "obsidianTag":
 				return generateTag(node as ObsidianTagNode);
 			case "obsidianBlockRef":
-				return generateBlockRef(node as ObsidianBlockRefNode);
+				return generateBlockRef(node as ObsidianBlockRefNode, this.context);
 			case "obsidianHighlight":
 				return generateHighlight(
 					node as ObsidianHighlightNode,
@@ -183,8 +641,22 @@ export class TypstGenerator {
 					this.renderChildren,
 					this.context
 				);
+			case "footnoteReference":
+				return generateFootnoteReference(
+					node as FootnoteReference,
+					this.renderChildren,
+					this.context
+				);
+			case "footnoteDefinition":
+				return generateFootnoteDefinition(node as FootnoteDefinition);
+			case "figure":
+				return generateFigure(
+					node as ObsidianFigureNode,
+					this.renderChildren,
+					this.context
+				);
 			case "wikiLink":
-				return generateWikiLink(node as ObsidianWikiLinkNode);
+				return generateWikiLink(node as ObsidianWikiLinkNode, this.context);
 			case "blockquote":
 				const content = this.renderChildren(
 					(node as Blockquote).children as Content[]
@@ -193,9 +665,16 @@ export class TypstGenerator {
 				const cleaned = content.replace(/\n#parbreak\(\)\n$/, "");
 				return `#quote[${cleaned}]\n\n`;
 			case "thematicBreak":
-				return "#line(length: 100%, stroke: (paint: gray, thickness: 0.2pt))\n\n";
+				// 幻灯片模式下 --- 为分页位置，不输出
+				return this.context.options.outputMode === "slides"
+					? ""
+					: "#line(length: 100%, stroke: (paint: gray, thickness: 0.2pt))\n\n";
+			case "obsidianComment":
+				return generateComment(node as ObsidianCommentNode, this.context);
 			default:
-				return "";
+				// 未知节点降级为转义后的纯文本，并发出警告
+				this.context.options.onUnknownNode?.(node.type);
+				return escapeTypstMarkup(toString(node));
 		}
 	}
 }
@@ -0,0 +1,48 @@
+import type { Frontmatter, FrontmatterValue } from "../frontmatter";
+import type { FrontmatterMapping } from "../types";
+import { lookupDocumentField } from "./frontmatter";
+import { escapeTypstText } from "./text";
+
+function toText(value: FrontmatterValue | undefined): string {
+	const text = Array.isArray(value) ? value.join(", ") : String(value ?? "");
+	return escapeTypstText(text.trim());
+}
+
+/**
+ * 书的标题页：标题、副标题（subtitle）、作者与日期，独占一页且不编页码
+ */
+export function generateTitlePage(
+	metadata: Frontmatter,
+	mapping: FrontmatterMapping = {}
+): string {
+	const title = toText(lookupDocumentField(metadata, mapping, "title"));
+	const subtitle = toText(metadata.subtitle);
+	const author = toText(lookupDocumentField(metadata, mapping, "author"));
+	const date = toText(lookupDocumentField(metadata, mapping, "date"));
+
+	const lines: string[] = [];
+	if (title) {
+		lines.push(`#text(size: 2.4em, weight: "bold")[${title}]`);
+	}
+	if (subtitle) {
+		lines.push(`#text(size: 1.4em)[${subtitle}]`);
+	}
+	if (author) {
+		lines.push(`#v(2em)\n#text(size: 1.2em)[${author}]`);
+	}
+	if (date) {
+		lines.push(`#v(1em)\n${date}`);
+	}
+	if (!lines.length) {
+		return "";
+	}
+
+	return `#page(numbering: none, header: none, footer: none)[\n#align(center + horizon)[\n${lines.join("\n\n")}\n]\n]\n\n`;
+}
+
+/**
+ * 部（Part）的标题，另起一页
+ */
+export function generatePartHeading(title: string, level: number): string {
+	return `#pagebreak(weak: true)\n\n${"=".repeat(Math.max(1, level))} ${escapeTypstText(title)}\n\n`;
+}
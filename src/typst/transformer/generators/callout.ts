@@ -0,0 +1,111 @@
+import type { GeneratorContext, ObsidianCalloutNode } from "../types";
+import { escapeTypstText } from "./text";
+import type { RenderChildren } from "./types";
+
+export interface CalloutStyle {
+	color: string; // 主色：边框与标题颜色，背景取其淡色
+	icon: string;
+}
+
+/**
+ * Callout 样式表（与 Obsidian 默认主题的颜色保持一致）
+ */
+export const CALLOUT_STYLES: Record<string, CalloutStyle> = {
+	note: { color: "#086ddd", icon: "✎" },
+	abstract: { color: "#00bfbc", icon: "≡" },
+	info: { color: "#086ddd", icon: "ℹ" },
+	todo: { color: "#086ddd", icon: "☑" },
+	tip: { color: "#00bfbc", icon: "✦" },
+	success: { color: "#08b94e", icon: "✓" },
+	question: { color: "#ec7500", icon: "?" },
+	warning: { color: "#ec7500", icon: "⚠" },
+	failure: { color: "#e93147", icon: "✗" },
+	danger: { color: "#e93147", icon: "⚡" },
+	bug: { color: "#e93147", icon: "✱" },
+	example: { color: "#7852ee", icon: "☰" },
+	quote: { color: "#9e9e9e", icon: "❝" },
+};
+
+/**
+ * Callout 类型别名 -> 标准类型
+ */
+export const CALLOUT_ALIASES: Record<string, string> = {
+	summary: "abstract",
+	tldr: "abstract",
+	hint: "tip",
+	important: "tip",
+	check: "success",
+	done: "success",
+	help: "question",
+	faq: "question",
+	caution: "warning",
+	attention: "warning",
+	fail: "failure",
+	missing: "failure",
+	error: "danger",
+	cite: "quote",
+};
+
+export function resolveCalloutType(type: string): string {
+	const normalized = type.toLowerCase();
+	return CALLOUT_ALIASES[normalized] ?? normalized;
+}
+
+/**
+ * 生成 callout 的 Typst 定义：样式字典 + 用户覆盖片段 + 渲染函数
+ * 用户片段位于两者之间，可通过合并字典覆盖或新增类型，例如：
+ * #let bon-callout-styles = bon-callout-styles + ("warning": (fill: rgb("#fff3e0"), border: orange, icon: "!", title: orange))
+ */
+export function generateCalloutPrelude(overrides = ""): string {
+	const entries = Object.entries(CALLOUT_STYLES)
+		.map(
+			([type, style]) =>
+				`  "${type}": (fill: rgb("${style.color}1a"), border: rgb("${style.color}"), icon: "${style.icon}", title: rgb("${style.color}")),`
+		)
+		.join("\n");
+
+	const userSnippet = overrides.trim() ? `${overrides.trim()}\n` : "";
+
+	return `#let bon-callout-styles = (
+${entries}
+)
+${userSnippet}#let bon-callout(kind, title, body) = {
+  let style = bon-callout-styles.at(kind, default: bon-callout-styles.at("note"))
+  block(
+    width: 100%,
+    fill: style.fill,
+    stroke: (left: 2pt + style.border),
+    inset: 10pt,
+    radius: 4pt,
+  )[
+    #text(fill: style.title, weight: "bold")[#style.icon #title]
+
+    #body
+  ]
+}
+
+`;
+}
+
+function defaultTitle(type: string): string {
+	return type.charAt(0).toUpperCase() + type.slice(1);
+}
+
+export function generateCallout(
+	node: ObsidianCalloutNode,
+	renderChildren: RenderChildren,
+	context: GeneratorContext
+): string {
+	const kind = resolveCalloutType(node.calloutType);
+	const title = node.titleChildren
+		? renderChildren(node.titleChildren)
+		: escapeTypstText(node.title || defaultTitle(node.calloutType));
+
+	// 移除内容末尾多余的 #parbreak()
+	const content = renderChildren(node.children)
+		.replace(/(\n#parbreak\(\)\n?)+$/, "")
+		.trim();
+
+	// 折叠标记在导出的文档中无法交互，内容始终展开
+	return `#bon-callout("${kind}", [${title}])[\n${content}\n]\n\n`;
+}
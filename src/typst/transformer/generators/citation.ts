@@ -0,0 +1,72 @@
+import type { CitationItem, CitationNode, GeneratorContext } from "../types";
+import { escapeTypstString, escapeTypstText } from "./text";
+
+// 可用于 @key / <key> 简写的文献 key（不能以 . 或 : 结尾）
+const LABEL_KEY_PATTERN = /^[\p{L}\p{N}_](?:[\p{L}\p{N}_\-:.]*[\p{L}\p{N}_-])?$/u;
+
+function citeTarget(key: string): string {
+	return LABEL_KEY_PATTERN.test(key)
+		? `<${key}>`
+		: `label("${escapeTypstString(key)}")`;
+}
+
+function generateCitationItem(item: CitationItem, attached: boolean): string {
+	const prefix = item.prefix ? `${escapeTypstText(item.prefix)} ` : "";
+
+	if (
+		!item.suffix &&
+		!item.suppressAuthor &&
+		!attached &&
+		LABEL_KEY_PATTERN.test(item.key)
+	) {
+		return `${prefix}@${item.key}`;
+	}
+
+	const args = [citeTarget(item.key)];
+	if (item.suffix) {
+		args.push(`supplement: [${escapeTypstText(item.suffix)}]`);
+	}
+	if (item.suppressAuthor) {
+		args.push(`form: "year"`);
+	}
+
+	return `${prefix}#cite(${args.join(", ")})`;
+}
+
+/**
+ * Pandoc 引用 -> Typst 引用；相邻的多个引用由 Typst 自动合并
+ */
+export function generateCitation(
+	node: CitationNode,
+	context: GeneratorContext
+): string {
+	node.items.forEach((item) => context.labelScope.citations.add(item.key));
+
+	return node.items
+		.map((item, index) =>
+			generateCitationItem(
+				item,
+				Boolean(node.attached) && index === node.items.length - 1
+			)
+		)
+		.join(" ");
+}
+
+/**
+ * 文档末尾的 #bibliography()，使用以 vault 为根的绝对路径（编译时 --root 为 vault），
+ * 与 .typ 文件的存放位置（typFileStorageMode）无关
+ */
+export function generateBibliography(context: GeneratorContext): string {
+	const { bibliography, citationStyle } = context.options;
+	if (!bibliography?.length || !context.labelScope.citations.size) {
+		return "";
+	}
+
+	const paths = bibliography.map(
+		(path) => `"/${escapeTypstString(path.replace(/\\/g, "/").replace(/^\/+/, ""))}"`
+	);
+	const source = paths.length === 1 ? paths[0] : `(${paths.join(", ")})`;
+	const style = citationStyle ? `, style: "${escapeTypstString(citationStyle)}"` : "";
+
+	return `#bibliography(${source}${style})\n`;
+}
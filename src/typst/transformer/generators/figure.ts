@@ -0,0 +1,61 @@
+import type { Image } from "mdast";
+import type {
+	EmbedDocumentNode,
+	GeneratorContext,
+	ObsidianFigureNode,
+} from "../types";
+import { ensureLabel, slugify } from "./label";
+import type { RenderChildren } from "./types";
+
+function fileStem(path: string): string {
+	const name = path.replace(/\\/g, "/").split("/").pop() ?? "";
+	return name.replace(/\.[^.]+$/, "");
+}
+
+/**
+ * 为没有块 ID 的 figure 生成稳定 label：
+ * 图片取文件名，表格取标题文本，均不依赖在文档中的位置；两者皆无时不加 label
+ */
+function autoLabelBase(
+	node: ObsidianFigureNode,
+	caption: string
+): string {
+	const prefix = node.kind === "table" ? "tbl" : "fig";
+	const child = node.children[0];
+	let source = caption;
+
+	if (node.kind === "image") {
+		source =
+			child.type === "image"
+				? fileStem((child as Image).url)
+				: fileStem((child as unknown as EmbedDocumentNode).data?.originalPath ?? "");
+	}
+
+	const slug = slugify(source);
+	return slug ? `${prefix}-${slug}` : "";
+}
+
+export function generateFigure(
+	node: ObsidianFigureNode,
+	renderChildren: RenderChildren,
+	context: GeneratorContext
+): string {
+	const body = renderChildren(node.children).trim();
+
+	// 嵌入的 Markdown 笔记等非图片内容不包装为 figure
+	if (!body.startsWith("#image(") && !body.startsWith("#table(")) {
+		return body ? `${body}\n\n` : "";
+	}
+
+	const caption = node.caption ? renderChildren(node.caption).trim() : "";
+	const base = autoLabelBase(node, caption);
+	const label =
+		(node.blockId && context.figureLabels.get(node.blockId)) ||
+		(base && ensureLabel(context, base));
+
+	// 去掉前导 #，作为 figure 的参数（代码模式）
+	const content = body.slice(1).replace(/\n/g, "\n  ");
+	const captionArg = caption ? `,\n  caption: [${caption}]` : "";
+
+	return `#figure(\n  ${content}${captionArg},\n)${label ? ` <${label}>` : ""}\n\n`;
+}
@@ -0,0 +1,49 @@
+import type { FootnoteDefinition, FootnoteReference } from "mdast";
+import type { GeneratorContext } from "../types";
+import type { RenderChildren } from "./types";
+import { ensureLabel, slugify } from "./label";
+
+
+export function generateFootnoteReference(
+	node: FootnoteReference,
+	renderChildren: RenderChildren,
+	context: GeneratorContext
+): string {
+	const definition = context.footnoteDefinitions.get(node.identifier);
+	if (!definition) {
+		// 没有对应定义时保留原始标记文本
+		return `\\[^${node.label ?? node.identifier}\\]`;
+	}
+
+	// 同一脚注被多次引用：后续引用指向首次生成的脚注
+	const rendered = context.footnoteLabels.get(node.identifier);
+	if (rendered) {
+		return `#footnote(<${rendered}>)`;
+	}
+
+	// 先分配 label 再渲染，避免脚注内容中自引用导致无限递归
+	// label 与标题等共用分配，避免 [^1] 与标题“fn 1”、[^a b] 与 [^a-b] 等冲突
+	const slug = slugify(node.identifier);
+	const label = ensureLabel(context, slug ? `fn-${slug}` : "fn");
+	context.footnoteLabels.set(node.identifier, label);
+
+	// 脚注内容按独立块渲染，不继承外层列表状态
+	const originalFlag = context.inListItem;
+	const originalDepth = context.listDepth;
+	context.inListItem = false;
+	context.listDepth = 0;
+
+	const content = renderChildren(definition.children)
+		.replace(/(\n#parbreak\(\)\n?)+$/, "")
+		.trim();
+
+	context.inListItem = originalFlag;
+	context.listDepth = originalDepth;
+
+	return `#footnote[${content}] <${label}>`;
+}
+
+export function generateFootnoteDefinition(_node: FootnoteDefinition): string {
+	// 定义内容在引用处以内联 #footnote 输出
+	return "";
+}
@@ -0,0 +1,195 @@
+import type { Frontmatter, FrontmatterValue } from "../frontmatter";
+import type { DocumentField, FrontmatterMapping } from "../types";
+import { escapeTypstString } from "./text";
+
+/**
+ * 默认映射：文档字段 -> 依次尝试的 frontmatter 键
+ */
+export const DEFAULT_FRONTMATTER_MAPPING: Record<DocumentField, string[]> = {
+	title: ["title"],
+	author: ["author", "authors"],
+	date: ["date"],
+	keywords: ["keywords"],
+	lang: ["lang", "language"],
+	region: ["region"],
+};
+
+const DOCUMENT_FIELDS = Object.keys(
+	DEFAULT_FRONTMATTER_MAPPING
+) as DocumentField[];
+
+/**
+ * 解析映射配置文本，每行 `字段: 键1, 键2`；未出现的字段沿用默认映射，值为空表示不映射
+ */
+export function parseFrontmatterMapping(text: string): FrontmatterMapping {
+	const mapping: FrontmatterMapping = {};
+
+	for (const line of text.split(/\r?\n/)) {
+		const match = /^\s*([\w-]+)\s*:(.*)$/.exec(line);
+		const field = match?.[1].toLowerCase() as DocumentField | undefined;
+		if (!match || !field || !DOCUMENT_FIELDS.includes(field)) {
+			continue;
+		}
+		mapping[field] = match[2]
+			.split(",")
+			.map((key) => key.trim())
+			.filter(Boolean);
+	}
+
+	return mapping;
+}
+
+function toTypstValue(value: FrontmatterValue): string {
+	if (Array.isArray(value)) {
+		const items = value.map(toTypstValue);
+		return items.length === 1 ? `(${items[0]},)` : `(${items.join(", ")})`;
+	}
+	if (typeof value === "string") {
+		return `"${escapeTypstString(value)}"`;
+	}
+	return String(value);
+}
+
+function toStringList(value: FrontmatterValue): string[] {
+	const items = Array.isArray(value)
+		? value.map(String)
+		: String(value).split(",");
+	return items.map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * YYYY-MM-DD[ HH:MM[:SS]] -> datetime(...)
+ */
+function toTypstDate(value: FrontmatterValue): string | undefined {
+	const match =
+		/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?/.exec(
+			String(value).trim()
+		);
+	if (!match) {
+		return undefined;
+	}
+
+	const [, year, month, day, hour, minute, second] = match;
+	const parts = [
+		`year: ${Number(year)}`,
+		`month: ${Number(month)}`,
+		`day: ${Number(day)}`,
+	];
+	if (hour) {
+		parts.push(
+			`hour: ${Number(hour)}`,
+			`minute: ${Number(minute)}`,
+			`second: ${Number(second ?? 0)}`
+		);
+	}
+	return `datetime(${parts.join(", ")})`;
+}
+
+/**
+ * 按映射依次查找文档字段的值，跳过空值
+ */
+export function lookupDocumentField(
+	frontmatter: Frontmatter,
+	mapping: FrontmatterMapping,
+	field: DocumentField
+): FrontmatterValue | undefined {
+	const keys = mapping[field] ?? DEFAULT_FRONTMATTER_MAPPING[field];
+	for (const key of keys) {
+		const value = frontmatter[key];
+		const empty =
+			value === undefined ||
+			value === "" ||
+			(Array.isArray(value) && !value.length);
+		if (!empty) {
+			return value;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * frontmatter -> 文档元数据与语言设置，以及供模板使用的字典：
+ * - #set document(title, author, date, keywords)
+ * - #set text(lang, region)：影响断字与引号样式
+ * - #let bon-frontmatter = (...)，并以 <bon-frontmatter> 标记的 metadata 提供给
+ *   位于正文之前的模板（context query(<bon-frontmatter>).first().value）
+ */
+export function generateDocumentMetadata(
+	frontmatter: Frontmatter,
+	mapping: FrontmatterMapping = {}
+): string {
+	const title = lookupDocumentField(frontmatter, mapping, "title");
+	const author = lookupDocumentField(frontmatter, mapping, "author");
+	const date = lookupDocumentField(frontmatter, mapping, "date");
+	const keywords = lookupDocumentField(frontmatter, mapping, "keywords");
+	const langValue = lookupDocumentField(frontmatter, mapping, "lang");
+	const regionValue = lookupDocumentField(frontmatter, mapping, "region");
+
+	// lang 可写作 de-CH / zh_CN，其中的地区部分在未单独设置 region 时使用
+	const [langPart, langRegion] = String(langValue ?? "")
+		.trim()
+		.toLowerCase()
+		.split(/[-_]/);
+	const lang = /^[a-z]{2,3}$/.test(langPart) ? langPart : undefined;
+	const regionCandidate = String(regionValue ?? langRegion ?? "")
+		.trim()
+		.toLowerCase();
+	const region = /^[a-z]{2}$/.test(regionCandidate)
+		? regionCandidate
+		: undefined;
+
+	const fields: Frontmatter = { ...frontmatter };
+	const documentArgs: string[] = [];
+
+	if (title !== undefined) {
+		fields.title = String(title);
+		documentArgs.push(`title: ${toTypstValue(fields.title)}`);
+	}
+	if (author !== undefined) {
+		const authors = toStringList(author);
+		fields.author = authors;
+		documentArgs.push(`author: ${toTypstValue(authors)}`);
+	}
+	if (date !== undefined) {
+		const datetime = toTypstDate(date);
+		fields.date = String(date);
+		if (datetime) {
+			documentArgs.push(`date: ${datetime}`);
+		}
+	}
+	if (keywords !== undefined) {
+		const list = toStringList(keywords).map((keyword) =>
+			keyword.replace(/^#/, "")
+		);
+		fields.keywords = list;
+		documentArgs.push(`keywords: ${toTypstValue(list)}`);
+	}
+
+	const textArgs: string[] = [];
+	if (lang) {
+		fields.lang = lang;
+		textArgs.push(`lang: "${lang}"`);
+	}
+	if (region) {
+		fields.region = region;
+		textArgs.push(`region: "${region}"`);
+	}
+
+	const entries = Object.entries(fields).map(
+		([key, value]) => `  "${escapeTypstString(key)}": ${toTypstValue(value)},`
+	);
+
+	let output = "";
+	if (documentArgs.length) {
+		output += `#set document(${documentArgs.join(", ")})\n`;
+	}
+	if (textArgs.length) {
+		output += `#set text(${textArgs.join(", ")})\n`;
+	}
+	output += entries.length
+		? `#let bon-frontmatter = (\n${entries.join("\n")}\n)\n`
+		: "#let bon-frontmatter = (:)\n";
+	output += "#metadata(bon-frontmatter) <bon-frontmatter>\n\n";
+
+	return output;
+}
@@ -2,25 +2,40 @@ import type { Heading } from "mdast";
 import { toString } from "mdast-util-to-string";
 import type { GeneratorContext } from "../types";
 import type { RenderChildren } from "./types";
+import {
+	ensureLabel,
+	headingAnchorKey,
+	normalizeHeadingAnchor,
+	slugify,
+} from "./label";
+
+/**
+ * 为标题分配 label，并登记锚点以便 [[#标题]] 解析
+ * 同名标题按出现顺序追加 -2、-3…，与 Obsidian 一样以首个同名标题为链接目标
+ */
+export function assignHeadingLabel(
+	node: Heading,
+	context: GeneratorContext
+): string | undefined {
+	const existing = context.headingNodeLabels.get(node);
+	if (existing) {
+		return existing;
+	}
 
-function slugify(value: string): string {
-	return value
-		.toLowerCase()
-		.replace(/[^a-z0-9]+/g, "-")
-		.replace(/(^-|-$)/g, "");
-}
+	const anchor = normalizeHeadingAnchor(toString(node));
+	const slug = anchor ? slugify(anchor) : "";
+	if (!slug) {
+		return undefined;
+	}
 
-function ensureLabel(context: GeneratorContext, base: string): string {
-	const prefix = context.options.labelPrefix ?? "";
-	let label = `${prefix}${base}`;
-	let counter = 2;
+	const label = ensureLabel(context, slug);
+	context.headingNodeLabels.set(node, label);
 
-	while (context.collectedLabels.has(label)) {
-		label = `${prefix}${base}-${counter}`;
-		counter += 1;
+	const key = headingAnchorKey(anchor);
+	if (!context.headingLabels.has(key)) {
+		context.headingLabels.set(key, label);
 	}
 
-	context.collectedLabels.add(label);
 	return label;
 }
 
@@ -29,9 +44,6 @@ export function generateHeading(
 	context: GeneratorContext,
 	renderChildren: RenderChildren
 ): string {
-	const text = toString(node).trim();
-	const slug = text ? slugify(text) : "";
-
 	const typstLevel = Math.max(1, context.options.h1Level + node.depth - 1);
 	const content = renderChildren(node.children);
 
@@ -39,8 +51,8 @@ export function generateHeading(
 	const prefix = "=".repeat(typstLevel);
 	let result = `${prefix} ${content}`;
 
-	if (slug) {
-		const label = ensureLabel(context, slug);
+	const label = assignHeadingLabel(node, context);
+	if (label) {
 		result += ` <${label}>`;
 	}
 
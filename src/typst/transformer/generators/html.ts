@@ -0,0 +1,170 @@
+import type { Html } from "mdast";
+import type { GeneratorContext, HtmlElementNode } from "../types";
+import { escapeTypstMarkup } from "./text";
+import type { RenderChildren } from "./types";
+
+const COMMENT_PATTERN = /^<!--[\s\S]*?-->$/;
+
+/**
+ * 未转换为 htmlElement 的 HTML 节点（不支持或未配对的标签）：
+ * 注释不输出，其余按原文转义为文本
+ * 块级 HTML 独立成段，避免与后续段落连在一起
+ */
+export function generateHtml(node: Html, context: GeneratorContext): string {
+	const value = node.value.trim();
+	if (!value || COMMENT_PATTERN.test(value)) {
+		return "";
+	}
+
+	const text = escapeTypstMarkup(value).replace(/\n/g, " \\\n");
+	return context.blockHtml.has(node) ? `${text}\n#parbreak()\n` : text;
+}
+
+// Typst 内置的颜色名
+const TYPST_COLORS = new Set([
+	"black",
+	"gray",
+	"silver",
+	"white",
+	"navy",
+	"blue",
+	"aqua",
+	"teal",
+	"eastern",
+	"purple",
+	"fuchsia",
+	"maroon",
+	"red",
+	"orange",
+	"yellow",
+	"olive",
+	"green",
+	"lime",
+]);
+
+/**
+ * 将 CSS 颜色转为 Typst 颜色表达式，无法识别时返回 undefined
+ */
+function toTypstColor(value: string | undefined): string | undefined {
+	const color = value?.trim().toLowerCase();
+	if (!color) {
+		return undefined;
+	}
+
+	if (/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(color)) {
+		return `rgb("${color}")`;
+	}
+
+	const rgb = /^rgba?\(([^)]*)\)$/.exec(color);
+	if (rgb) {
+		const parts = rgb[1].split(/[\s,/]+/).filter(Boolean);
+		const numeric = parts.every((part) => /^\d+(\.\d+)?%?$/.test(part));
+		if (parts.length === 3 && numeric) {
+			return `rgb(${parts.join(", ")})`;
+		}
+		return undefined;
+	}
+
+	if (color === "grey") {
+		return "gray";
+	}
+
+	return TYPST_COLORS.has(color) ? color : undefined;
+}
+
+function readStyle(
+	style: string | undefined,
+	property: string
+): string | undefined {
+	const pattern = new RegExp(`(?:^|;)\\s*${property}\\s*:\\s*([^;]+)`, "i");
+	return style ? pattern.exec(style)?.[1] : undefined;
+}
+
+function generateColoredText(
+	node: HtmlElementNode,
+	content: string
+): string {
+	const style = node.attributes.style;
+	const color = toTypstColor(
+		readStyle(style, "color") ?? node.attributes.color
+	);
+	const background = toTypstColor(
+		readStyle(style, "background-color") ?? readStyle(style, "background")
+	);
+
+	let result = content;
+	if (color) {
+		result = `#text(fill: ${color})[${result}]`;
+	}
+	if (background) {
+		result = `#highlight(fill: ${background})[${result}]`;
+	}
+	return result;
+}
+
+/**
+ * <details> 在导出的文档中无法折叠：以 <summary> 为标题，内容始终展开
+ */
+function generateDetails(
+	node: HtmlElementNode,
+	renderChildren: RenderChildren
+): string {
+	const summary = node.children.find(
+		(child): child is HtmlElementNode =>
+			child.type === "htmlElement" &&
+			(child as HtmlElementNode).tagName === "summary"
+	);
+	const body = node.children.filter((child) => child !== summary);
+
+	const title = summary ? renderChildren(summary.children).trim() : "Details";
+	const content = renderChildren(body)
+		.replace(/(\n#parbreak\(\)\n?)+$/, "")
+		.trim();
+
+	return `#block(width: 100%, stroke: 0.5pt + gray, inset: 8pt, radius: 4pt)[\n#strong[▸ ${title}]\n\n${content}\n]\n\n`;
+}
+
+export function generateHtmlElement(
+	node: HtmlElementNode,
+	renderChildren: RenderChildren
+): string {
+	switch (node.tagName) {
+		case "br":
+			return " \\\n";
+		case "details":
+			return generateDetails(node, renderChildren);
+	}
+
+	const content = renderChildren(node.children);
+
+	switch (node.tagName) {
+		case "sup":
+			return `#super[${content}]`;
+		case "sub":
+			return `#sub[${content}]`;
+		case "u":
+		case "ins":
+			return `#underline[${content}]`;
+		case "s":
+		case "del":
+		case "strike":
+			return `#strike[${content}]`;
+		case "b":
+		case "strong":
+		case "summary":
+			return `#strong[${content}]`;
+		case "i":
+		case "em":
+			return `#emph[${content}]`;
+		case "mark":
+			return `#highlight[${content}]`;
+		case "kbd":
+			// 键帽样式
+			return `#box(stroke: 0.5pt + gray, inset: (x: 3pt), outset: (y: 3pt), radius: 2pt)[#text(size: 0.9em)[${content}]]`;
+		case "span":
+		case "font":
+			return generateColoredText(node, content);
+		default:
+			return content;
+	}
+}
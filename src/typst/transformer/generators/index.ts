@@ -1,9 +1,18 @@
 export * from "./types";
+export * from "./label";
 export * from "./heading";
 export * from "./text";
 export * from "./link";
+export * from "./html";
 export * from "./list";
 export * from "./table";
 export * from "./code";
 export * from "./math";
 export * from "./obsidian";
+export * from "./callout";
+export * from "./footnote";
+export * from "./figure";
+export * from "./citation";
+export * from "./frontmatter";
+export * from "./book";
+export * from "./slides";
@@ -0,0 +1,107 @@
+import type { GeneratorContext, LabelScope } from "../types";
+
+/**
+ * 按 Obsidian 的规则标准化标题锚点：
+ * 链接中不能出现 # | ^ : % [ ] 等字符，Obsidian 以空格代替，再合并空白
+ */
+export function normalizeHeadingAnchor(value: string): string {
+	return value
+		.replace(/[#|^:%[\]\\]/g, " ")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+/**
+ * 标题锚点的比较键（忽略大小写），用于将 [[#标题]] 匹配到对应标题
+ */
+export function headingAnchorKey(value: string): string {
+	return normalizeHeadingAnchor(value).normalize("NFC").toLowerCase();
+}
+
+/**
+ * 生成 Typst label 可用的 slug
+ * 保留各语言的字母、数字与组合符号（中文、日文、带重音的拉丁字母等），
+ * 其余字符折叠为连字符；² ½ 等不属于 XID_Continue 的数字与符号在 label 中无效，同样折叠
+ */
+export function slugify(value: string): string {
+	return value
+		.normalize("NFC")
+		.toLowerCase()
+		.replace(/[^\p{L}\p{Nd}\p{Nl}\p{Mn}\p{Mc}_]+/gu, "-")
+		.replace(/(^-+|-+$)/g, "");
+}
+
+/**
+ * 生成文档内唯一的 label（带 labelPrefix，重复时追加序号）
+ */
+export function ensureLabel(context: GeneratorContext, base: string): string {
+	const prefix = context.options.labelPrefix ?? "";
+	let label = `${prefix}${base}`;
+	let counter = 2;
+
+	while (context.collectedLabels.has(label)) {
+		label = `${prefix}${base}-${counter}`;
+		counter += 1;
+	}
+
+	context.collectedLabels.add(label);
+	return label;
+}
+
+export function createLabelScope(): LabelScope {
+	return {
+		labels: new Set(),
+		namespaces: new Set(),
+		embeddedNotes: new Map(),
+		citations: new Set(),
+		modules: new Map(),
+	};
+}
+
+/**
+ * 笔记路径或链接文本的比较键：去掉 .md 扩展名并忽略大小写
+ */
+export function noteKey(path: string): string {
+	return path
+		.replace(/\\/g, "/")
+		.replace(/\.md$/i, "")
+		.normalize("NFC")
+		.toLowerCase();
+}
+
+/**
+ * 为嵌入笔记分配唯一的 label 前缀，如 `chapter-1:`、重复嵌入时 `chapter-1-2:`
+ */
+export function allocateNamespace(
+	scope: LabelScope,
+	parentPrefix: string,
+	path: string
+): string {
+	const stem = noteKey(path).split("/").pop() ?? "";
+	const base = `${parentPrefix}${slugify(stem) || "embed"}`;
+	let namespace = base;
+	let counter = 2;
+
+	while (scope.namespaces.has(namespace)) {
+		namespace = `${base}-${counter}`;
+		counter += 1;
+	}
+
+	scope.namespaces.add(namespace);
+	return `${namespace}:`;
+}
+
+/**
+ * include 模式下嵌入模块的 label 前缀，如 `notes-chapter-1:`
+ * 只由笔记路径（与章节）决定，使模块内容与嵌入它的文档无关，可被多个文档共用
+ */
+export function moduleNamespace(
+	scope: LabelScope,
+	path: string,
+	fragment?: string
+): string {
+	const base = slugify(noteKey(path)) || "embed";
+	const namespace = fragment ? `${base}-${slugify(fragment)}` : base;
+	scope.namespaces.add(namespace);
+	return `${namespace}:`;
+}
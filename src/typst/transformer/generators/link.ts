@@ -1,6 +1,8 @@
-import type { Image, Link } from "mdast";
+import type { Image, ImageReference, Link, LinkReference } from "mdast";
 import type { ObsidianWikiLinkNode, GeneratorContext } from "../types";
 import type { RenderChildren } from "./types";
+import { headingAnchorKey, noteKey } from "./label";
+import { escapeTypstMarkup, escapeTypstText } from "./text";
 
 function escapeAttribute(value: string): string {
 	return value.replace(/"/g, '\\"');
@@ -12,7 +14,7 @@ function escapeAttribute(value: string): string {
  * @param to 目标文件路径（图片路径）
  * @returns 相对路径
  */
-function calculateRelativePath(from: string, to: string): string {
+export function calculateRelativePath(from: string, to: string): string {
 	// 规范化路径分隔符为 /
 	const fromParts = from.replace(/\\/g, "/").split("/");
 	const toParts = to.replace(/\\/g, "/").split("/");
@@ -65,8 +67,147 @@ export function generateImage(node: Image, context: GeneratorContext): string {
 	return `#image("${escapeAttribute(imagePath)}"${alt})`;
 }
 
-export function generateWikiLink(node: ObsidianWikiLinkNode): string {
+/**
+ * 未找到定义时按原文还原引用的后半部分：[text][id]、[text][] 或 [text]
+ */
+function referenceSuffix(node: LinkReference | ImageReference): string {
+	switch (node.referenceType) {
+		case "full":
+			return `\\[${escapeTypstMarkup(node.label ?? node.identifier)}\\]`;
+		case "collapsed":
+			return "\\[\\]";
+		default:
+			return "";
+	}
+}
+
+export function generateLinkReference(
+	node: LinkReference,
+	renderChildren: RenderChildren,
+	context: GeneratorContext
+): string {
+	const definition = context.definitions.get(node.identifier);
+	if (!definition) {
+		return `\\[${renderChildren(node.children)}\\]${referenceSuffix(node)}`;
+	}
+
+	return generateLink(
+		{ type: "link", url: definition.url, children: node.children },
+		renderChildren
+	);
+}
+
+export function generateImageReference(
+	node: ImageReference,
+	context: GeneratorContext
+): string {
+	const definition = context.definitions.get(node.identifier);
+	if (!definition) {
+		return `!\\[${escapeTypstMarkup(node.alt ?? "")}\\]${referenceSuffix(node)}`;
+	}
+
+	return generateImage(
+		{ type: "image", url: definition.url, alt: node.alt },
+		context
+	);
+}
+
+/**
+ * 在标题/块 label 表中查找 `#标题`、`#H1#H2` 或 `#^block-id` 对应的 label
+ */
+function lookupLabel(
+	heading: string,
+	headings: Map<string, string>,
+	blocks: Map<string, string>
+): string | undefined {
+	if (heading.startsWith("^")) {
+		return blocks.get(heading.slice(1));
+	}
+
+	// [[#H1#H2]] 以最后一级标题为准
+	const segments = heading.split("#");
+	return headings.get(headingAnchorKey(segments[segments.length - 1]));
+}
+
+/**
+ * 指向已嵌入本文档的笔记的链接：改写为嵌入内容中带命名空间的 label
+ */
+function resolveEmbeddedLabel(
+	node: ObsidianWikiLinkNode,
+	context: GeneratorContext
+): string | undefined {
+	const note = context.labelScope.embeddedNotes.get(noteKey(node.path ?? ""));
+	if (!note) {
+		return undefined;
+	}
+
+	return node.heading
+		? lookupLabel(node.heading, note.headings, note.blocks)
+		: note.root;
+}
+
+function buildObsidianUri(target: string, vaultName: string): string {
+	const vault = vaultName ? `vault=${encodeURIComponent(vaultName)}&` : "";
+	return `obsidian://open?${vault}file=${encodeURIComponent(target)}`;
+}
+
+function noteTitle(path: string): string {
+	const name = path.replace(/\\/g, "/").split("/").pop() ?? path;
+	return name.replace(/\.md$/i, "");
+}
+
+export function generateWikiLink(
+	node: ObsidianWikiLinkNode,
+	context: GeneratorContext
+): string {
+	const display = escapeTypstText(node.alias ?? node.value);
+
+	if (!node.path && node.heading) {
+		// [[#^fig-id]]：指向本文档 figure 的交叉引用
+		const figureLabel = node.heading.startsWith("^")
+			? context.figureLabels.get(node.heading.slice(1))
+			: undefined;
+		if (figureLabel) {
+			return `@${figureLabel}`;
+		}
+
+		const label = lookupLabel(
+			node.heading,
+			context.headingLabels,
+			context.blockLabels
+		);
+		if (label) {
+			return `#link(<${label}>)[${display}]`;
+		}
+
+		// 本文档中不存在的标题/块：没有可跳转的目标
+		return `#text(fill: rgb("#0066cc"))[${display}]`;
+	}
+
+	const embeddedLabel = resolveEmbeddedLabel(node, context);
+	if (embeddedLabel) {
+		return `#link(<${embeddedLabel}>)[${display}]`;
+	}
+
 	const target = node.path ?? node.value;
-	const display = node.alias ?? node.value;
-	return `#link("${escapeAttribute(target)}")[${display}]`;
+	const fragment = node.heading ? `#${node.heading}` : "";
+
+	switch (context.options.wikiLinkPolicy) {
+		case "text":
+			return `#text(fill: rgb("#0066cc"))[${display}]`;
+		case "footnote": {
+			const title = escapeTypstText(
+				`${noteTitle(target)}${node.heading ? ` › ${node.heading}` : ""}`
+			);
+			return `${display}#footnote[${title}]`;
+		}
+		case "link":
+		default: {
+			const uri = buildObsidianUri(
+				`${target}${fragment}`,
+				context.options.vaultName
+			);
+			return `#link("${escapeAttribute(uri)}")[${display}]`;
+		}
+	}
 }
@@ -1,9 +1,37 @@
-import type { MathNode, InlineMathNode } from "../types";
+import type { MathNode, InlineMathNode, GeneratorContext } from "../types";
+import { translateLatexMath } from "../latex";
+import { escapeTypstString } from "./text";
 
-export function generateInlineMath(node: InlineMathNode): string {
-	return `$${node.value}$`;
+export function generateInlineMath(
+	node: InlineMathNode,
+	context: GeneratorContext
+): string {
+	if (!context.options.translateLatexMath) {
+		return `$${node.value}$`;
+	}
+
+	const { typst, errors } = translateLatexMath(node.value);
+	if (errors.length) {
+		context.options.onMathError?.(node.value, errors);
+		// 降级：以红框原样显示 LaTeX 源码，避免生成无法编译的公式
+		return `#box(stroke: red + 0.5pt, inset: 2pt, raw("${escapeTypstString(node.value)}", lang: "latex"))`;
+	}
+
+	return typst ? `$${typst}$` : "";
 }
 
-export function generateMath(node: MathNode): string {
-	return `$${node.value}$\n\n`;
+export function generateMath(node: MathNode, context: GeneratorContext): string {
+	if (!context.options.translateLatexMath) {
+		return `$${node.value}$\n\n`;
+	}
+
+	const { typst, errors } = translateLatexMath(node.value);
+	if (errors.length) {
+		context.options.onMathError?.(node.value, errors);
+		const reason = errors.join("; ").replace(/\n/g, " ");
+		return `// LaTeX math could not be translated: ${reason}\n#block(stroke: red + 0.5pt, inset: 6pt, raw("${escapeTypstString(node.value)}", lang: "latex", block: true))\n\n`;
+	}
+
+	// 首尾留空格的 $ ... $ 在 Typst 中为独立公式块
+	return typst ? `$ ${typst} $\n\n` : "";
 }
@@ -1,12 +1,12 @@
 import type {
 	EmbedDocumentNode,
 	ObsidianBlockRefNode,
-	ObsidianCalloutNode,
 	ObsidianHighlightNode,
 	ObsidianTagNode,
 	GeneratorContext,
 } from "../types";
 import type { RenderChildren } from "./types";
+import { escapeTypstText } from "./text";
 
 function escapeAttribute(value: string): string {
 	return value.replace(/"/g, '\\"');
@@ -63,26 +63,18 @@ function formatImageAttributes(
 	return parts.length ? `, ${parts.join(", ")}` : "";
 }
 
-export function generateCallout(
-	node: ObsidianCalloutNode,
-	renderChildren: RenderChildren
-): string {
-	// 使用 Typst 原生 quote + 标题
-	const typeLabel = node.calloutType.toUpperCase();
-	const title = node.title || typeLabel;
-	const content = renderChildren(node.children);
-
-	return `#block(\n  fill: rgb("#f0f0f0"),\n  inset: 10pt,\n  radius: 4pt,\n  [\n    #text(weight: "bold")[${title}]\n    \n    ${content}\n  ]\n)\n\n`;
-}
-
 export function generateTag(node: ObsidianTagNode): string {
 	// 直接输出标签文本，使用特殊格式
 	return `#text(fill: rgb("#0066cc"))[\\#${escapeAttribute(node.value)}]`;
 }
 
-export function generateBlockRef(node: ObsidianBlockRefNode): string {
-	// 块引用转为 label
-	return `#label("${escapeAttribute(node.value)}")`;
+export function generateBlockRef(
+	node: ObsidianBlockRefNode,
+	context: GeneratorContext
+): string {
+	// 块引用转为 label（嵌入笔记中带命名空间前缀）
+	const label = context.blockLabels.get(node.value) ?? node.value;
+	return `#label("${escapeAttribute(label)}")`;
 }
 
 export function generateHighlight(
@@ -94,6 +86,31 @@ export function generateHighlight(
 	return `#highlight[${content}]`;
 }
 
+/**
+ * 按嵌入参数或默认设置包装嵌入笔记的内容
+ */
+function presentEmbed(
+	content: string,
+	data: EmbedDocumentNode["data"],
+	context: GeneratorContext
+): string {
+	const style = data.embedStyle ?? context.options.embedStyle ?? "quote";
+	const source = data.originalPath
+		? `\n\n#smallcaps("${escapeAttribute(normalizeTypstPath(data.originalPath))}")`
+		: "";
+
+	switch (style) {
+		case "inline":
+			return `${content}\n\n`;
+		case "pagebreak":
+			return `#pagebreak(weak: true)\n\n${content}\n\n`;
+		case "box":
+			return `#block(width: 100%, inset: 8pt, radius: 4pt, stroke: 0.5pt + luma(180))[${content}${source}]\n\n`;
+		default:
+			return `#quote[${content}${source}]\n\n`;
+	}
+}
+
 export function generateEmbedDocument(
 	node: EmbedDocumentNode,
 	renderChildren: RenderChildren,
@@ -120,14 +137,20 @@ export function generateEmbedDocument(
 		return `#link("${escapeAttribute(normalizedPath)}")[Embedded file]\n\n`;
 	}
 
-	// Markdown 文件：使用已转换的 Typst 内容，包装在 quote 中
+	// Markdown 文件（include 模式）：以 vault 根路径引入模块文件
+	if (data.assetKind === "markdown" && data.modulePath) {
+		// 模块已在前文引入：改为指向第一次引入处，避免 label 重复定义
+		if (data.includedBefore) {
+			const name = escapeTypstText(normalizeTypstPath(data.originalPath));
+			return data.moduleLabel ? `#link(<${data.moduleLabel}>)[${name}]\n\n` : `${name}\n\n`;
+		}
+		const modulePath = normalizeTypstPath(data.modulePath);
+		return presentEmbed(`#include "/${escapeAttribute(modulePath)}"`, data, context);
+	}
+
+	// Markdown 文件：使用已转换的 Typst 内容
 	if (data.assetKind === "markdown" && data.convertedTypst) {
-		const normalizedPath = normalizeTypstPath(data.originalPath);
-		const content = data.convertedTypst.trim();
-		const source = data.originalPath
-			? `\n\n#smallcaps("${escapeAttribute(normalizedPath)}")`
-			: "";
-		return `#quote[${content}${source}]\n\n`;
+		return presentEmbed(data.convertedTypst.trim(), data, context);
 	}
 
 	// 降级处理：使用 renderChildren（兼容旧逻辑）
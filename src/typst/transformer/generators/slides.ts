@@ -0,0 +1,50 @@
+import type { ObsidianCommentNode, GeneratorContext } from "../types";
+import { escapeTypstString } from "./text";
+
+/**
+ * 幻灯片的页面设置与辅助函数（不依赖网络包，WASM 渲染器同样可用）
+ * - bon-slide：每张幻灯片另起一页
+ * - bon-speaker-note：演讲者备注，以 <bon-speaker-note> 标记的 metadata 输出，
+ *   可用 `typst query <file> "<bon-speaker-note>" --field value` 导出；
+ *   编译时传入 `--input notes=show` 则显示在页面底部
+ */
+export function generateSlidesPrelude(): string {
+	return [
+		'#set page(paper: "presentation-16-9", margin: (x: 2.5em, top: 2em, bottom: 2.5em), footer: context align(right, text(size: 0.6em, counter(page).display())))',
+		"#set text(size: 22pt)",
+		"#show heading: set block(below: 1em)",
+		"#let bon-slide(body) = {",
+		"  pagebreak(weak: true)",
+		"  body",
+		"}",
+		"#let bon-speaker-note(note) = {",
+		"  [#metadata(note) <bon-speaker-note>]",
+		'  if sys.inputs.at("notes", default: "hide") == "show" {',
+		"    place(bottom, float: true, block(width: 100%, fill: luma(235), inset: 0.5em, text(size: 0.55em, note)))",
+		"  }",
+		"}",
+		"",
+		"",
+	].join("\n");
+}
+
+/**
+ * 一张幻灯片
+ */
+export function generateSlide(content: string): string {
+	return `#bon-slide[\n${content.trim()}\n]\n\n`;
+}
+
+/**
+ * Obsidian 注释（%%...%%）：幻灯片模式下作为演讲者备注，其余情况不输出
+ */
+export function generateComment(
+	node: ObsidianCommentNode,
+	context: GeneratorContext
+): string {
+	const note = node.comment.trim();
+	if (context.options.outputMode !== "slides" || !note) {
+		return "";
+	}
+	return `#bon-speaker-note("${escapeTypstString(note)}")`;
+}
@@ -1,5 +1,6 @@
 import type {
 	Break,
+	Delete,
 	Emphasis,
 	InlineCode,
 	Paragraph,
@@ -36,6 +37,23 @@ export function escapeTypstText(text: string): string {
 	});
 }
 
+/**
+ * 转义所有 Typst 标记字符，用于按原文输出的内容（HTML、无法识别的节点等）
+ */
+export function escapeTypstMarkup(text: string): string {
+	return text.replace(/([\\#[\]<>*_`$@~=/])/g, "\\$1");
+}
+
+/**
+ * 转义 Typst 字符串字面量的内容（不含两侧引号）
+ */
+export function escapeTypstString(value: string): string {
+	return value
+		.replace(/\\/g, "\\\\")
+		.replace(/"/g, '\\"')
+		.replace(/\n/g, "\\n");
+}
+
 export function generateText(node: Text, _context: GeneratorContext): string {
 	return escapeTypstText(node.value);
 }
@@ -58,6 +76,15 @@ export function generateEmphasis(
 	return `_${content}_`;
 }
 
+export function generateDelete(
+	node: Delete,
+	renderChildren: RenderChildren
+): string {
+	// GFM 删除线 ~~text~~
+	const content = renderChildren(node.children);
+	return `#strike[${content}]`;
+}
+
 export function generateParagraph(
 	node: Paragraph,
 	renderChildren: RenderChildren,
@@ -1,6 +1,6 @@
 import { normalizePath, type Vault } from "obsidian";
 import { unified } from "unified";
-import type { Processor } from "unified";
+import type { Pluggable, Plugin, PluginTuple } from "unified";
 import remarkParse from "remark-parse";
 import remarkGfm from "remark-gfm";
 import remarkMath from "remark-math";
@@ -9,12 +9,37 @@ import { visit } from "unist-util-visit";
 import type { Content, Root } from "mdast";
 import { TypstGenerator } from "./generator";
 import * as plugins from "./plugins";
+import { extractEmbedFragment } from "./sections";
+import {
+	BUILTIN_PLUGIN_ORDER,
+	DEFAULT_PLUGIN_ORDER,
+	TransformerExtensions,
+} from "./extensions";
+import { IMAGE_EXTENSIONS } from "./plugins/utils";
+import { hashString, optionsFingerprint } from "./cache";
+import {
+	allocateNamespace,
+	createLabelScope,
+	moduleNamespace,
+	noteKey,
+	slugify,
+} from "./generators/label";
+import { generateDocumentMetadata } from "./generators/frontmatter";
+import { generatePartHeading, generateTitlePage } from "./generators/book";
+import { generateCalloutPrelude } from "./generators/callout";
 import type {
+	BookChapter,
+	BookDocument,
 	EmbedDocumentNode,
+	EmbeddedNoteLabels,
 	EmbedEnvironment,
 	EmbedImageOptions,
 	EmbedResolveResult,
+	EmbedStyle,
+	GenerateOptions,
+	LabelScope,
 	ResolveFilePath,
+	TypstSourceMap,
 	TypstTransformOptions,
 } from "./types";
 
@@ -26,25 +51,29 @@ const DEFAULT_OPTIONS: TypstTransformOptions = {
 	enableBlockRefs: true,
 	enableHighlights: true,
 	enableComments: true,
+	enableHtml: true,
+	enableCitations: true,
 	enableMath: true,
 	h1Level: 1,
 	labelPrefix: "",
 	preserveFrontmatter: false,
+	frontmatterMapping: {},
 	maxEmbedDepth: 5,
 	enableCheckboxEnhancement: true,
+	translateLatexMath: true,
+	enableFigures: false,
+	embedOutput: "inline",
+	embedStyle: "quote",
+	outputMode: "document",
+	slideLevel: 0,
+	calloutStyleOverrides: "",
+	calloutPrelude: true,
+	wikiLinkPolicy: "link",
+	vaultName: "",
+	bibliography: [],
+	citationStyle: "",
 };
 
-const IMAGE_EXTENSIONS = new Set([
-	"png",
-	"jpg",
-	"jpeg",
-	"gif",
-	"bmp",
-	"svg",
-	"webp",
-	"avif",
-]);
-
 function toTypstLength(value: string): string {
 	return /^\d+(\.\d+)?$/.test(value) ? `${value}pt` : value;
 }
@@ -82,43 +111,97 @@ function parseImageOptions(raw?: string): EmbedImageOptions | undefined {
 	return Object.keys(options).length ? options : undefined;
 }
 
-function createProcessor(options: TypstTransformOptions) {
-	const processor = unified() as Processor<any>;
-	processor.use(remarkParse).use(remarkGfm).use(remarkFrontmatter, ["yaml"]);
-
-	if (options.enableMath) {
-		processor.use(remarkMath);
-	}
-
-	if (options.enableEmbeds) {
-		processor.use(plugins.remarkEmbeds);
-	}
-
-	if (options.enableComments) {
-		processor.use(plugins.remarkComments);
-	}
-
-	if (options.enableWikiLinks) {
-		processor.use(plugins.remarkWikiLinks);
-	}
+const EMBED_STYLES = new Map<string, EmbedStyle>([
+	["inline", "inline"],
+	["quote", "quote"],
+	["box", "box"],
+	["pagebreak", "pagebreak"],
+	["page", "pagebreak"],
+]);
 
-	if (options.enableCallouts) {
-		processor.use(plugins.remarkCallouts);
-	}
+/**
+ * 嵌入笔记的呈现方式：嵌入的显示参数（`![[note|inline]]`）或 frontmatter 中的 typst-embed-style
+ * 无法识别的值（如别名）返回 undefined
+ */
+export function parseEmbedStyle(raw?: string): EmbedStyle | undefined {
+	return raw ? EMBED_STYLES.get(raw.trim().toLowerCase()) : undefined;
+}
 
-	if (options.enableTags) {
-		processor.use(plugins.remarkTags);
-	}
+// 内置插件及其启用条件，按 BUILTIN_PLUGIN_ORDER 与注册插件一起排序
+const BUILTIN_PLUGINS: Array<{
+	order: number;
+	plugin: Plugin<[], Root>;
+	enabled: (options: TypstTransformOptions) => boolean;
+}> = [
+	{ order: BUILTIN_PLUGIN_ORDER.math, plugin: remarkMath, enabled: (o) => o.enableMath },
+	{ order: BUILTIN_PLUGIN_ORDER.embeds, plugin: plugins.remarkEmbeds, enabled: (o) => o.enableEmbeds },
+	{ order: BUILTIN_PLUGIN_ORDER.comments, plugin: plugins.remarkComments, enabled: (o) => o.enableComments },
+	{ order: BUILTIN_PLUGIN_ORDER.html, plugin: plugins.remarkHtml, enabled: (o) => o.enableHtml },
+	{ order: BUILTIN_PLUGIN_ORDER.wikiLinks, plugin: plugins.remarkWikiLinks, enabled: (o) => o.enableWikiLinks },
+	{ order: BUILTIN_PLUGIN_ORDER.citations, plugin: plugins.remarkCitations, enabled: (o) => o.enableCitations },
+	{ order: BUILTIN_PLUGIN_ORDER.callouts, plugin: plugins.remarkCallouts, enabled: (o) => o.enableCallouts },
+	{ order: BUILTIN_PLUGIN_ORDER.tags, plugin: plugins.remarkTags, enabled: (o) => o.enableTags },
+	{ order: BUILTIN_PLUGIN_ORDER.highlights, plugin: plugins.remarkHighlights, enabled: (o) => o.enableHighlights },
+	{ order: BUILTIN_PLUGIN_ORDER.blockRefs, plugin: plugins.remarkBlockRefs, enabled: (o) => o.enableBlockRefs },
+	{ order: BUILTIN_PLUGIN_ORDER.figures, plugin: plugins.remarkFigures, enabled: (o) => o.enableFigures },
+];
 
-	if (options.enableHighlights) {
-		processor.use(plugins.remarkHighlights);
-	}
+function createProcessor(options: TypstTransformOptions) {
+	// 注册插件的选项以 [plugin, options] 元组传入
+	const steps: Array<{ order: number; pluggable: Pluggable }> = [
+		...BUILTIN_PLUGINS.filter((entry) => entry.enabled(options)).map(
+			({ order, plugin }) => ({ order, pluggable: plugin })
+		),
+		...(options.extensions?.getRemarkPlugins() ?? []).map((entry) => {
+			const tuple: PluginTuple<[unknown], Root> = [entry.plugin, entry.options];
+			return {
+				order: entry.order ?? DEFAULT_PLUGIN_ORDER,
+				pluggable: entry.options === undefined ? entry.plugin : tuple,
+			};
+		}),
+	];
+	// 排序稳定，order 相同时内置插件先执行
+	steps.sort((a, b) => a.order - b.order);
+
+	return unified()
+		.use(remarkParse)
+		.use(remarkGfm)
+		.use(remarkFrontmatter, ["yaml"])
+		.use(steps.map((step) => step.pluggable));
+}
 
-	if (options.enableBlockRefs) {
-		processor.use(plugins.remarkBlockRefs);
+/**
+ * 解析 Markdown 并执行 remark 插件
+ * 提供 cache 时按内容与解析相关的选项复用结果（未修改的笔记与嵌入文件不再重复解析）
+ */
+async function parseWithPlugins(
+	markdown: string,
+	options: TypstTransformOptions
+): Promise<Root> {
+	const { cache } = options;
+	let key = "";
+	if (cache) {
+		// 只有启用的插件影响解析结果
+		const parseOptions: Partial<TypstTransformOptions> = {
+			extensions: options.extensions,
+		};
+		for (const [name, value] of Object.entries(options)) {
+			if (name.startsWith("enable")) {
+				(parseOptions as Record<string, unknown>)[name] = value;
+			}
+		}
+		key = hashString(`${optionsFingerprint(parseOptions)}\u0000${markdown}`);
+		const cached = cache.getTree(key);
+		if (cached) {
+			return cached;
+		}
 	}
 
-	return processor as Processor<Root>;
+	const processor = createProcessor(options);
+	const parsed = processor.parse(markdown) as Root;
+	const tree = (await processor.run(parsed)) as Root;
+	cache?.setTree(key, tree);
+	return tree;
 }
 
 async function fallbackResolveFilePath(
@@ -139,12 +222,47 @@ async function fallbackResolveFilePath(
 	};
 }
 
+/**
+ * 登记嵌入笔记导出的 label，父文档中的 [[笔记#标题]] 据此改写为文档内跳转
+ * 同时以完整路径和文件名登记，重复嵌入时以第一次为准
+ */
+function registerEmbeddedLabels(
+	scope: LabelScope,
+	path: string,
+	labels: EmbeddedNoteLabels
+): void {
+	const fullKey = noteKey(path);
+	const nameKey = fullKey.split("/").pop() ?? fullKey;
+
+	for (const key of [fullKey, nameKey]) {
+		if (!scope.embeddedNotes.has(key)) {
+			scope.embeddedNotes.set(key, labels);
+		}
+	}
+}
+
+/**
+ * include 模式下嵌入模块的 vault 路径；嵌入章节或块时追加其 slug
+ * 例如 notes/ch1.md -> notes/ch1.embed.typ，notes/ch1.md#Intro -> notes/ch1.embed.intro.typ
+ */
+function embedModulePath(
+	path: string,
+	fragment: string | undefined,
+	options: TypstTransformOptions
+): string {
+	const modulePath =
+		options.embedModulePath?.(path) ?? path.replace(/\.md$/i, "") + ".embed.typ";
+	const slug = fragment ? slugify(fragment) : "";
+	return slug ? modulePath.replace(/\.typ$/i, `.${slug}.typ`) : modulePath;
+}
+
 async function resolveEmbedNode(
 	node: EmbedDocumentNode,
 	options: TypstTransformOptions,
 	env: EmbedEnvironment,
 	depth: number,
-	stack: string[]
+	stack: string[],
+	scope: LabelScope
 ): Promise<void> {
 	const linkTarget =
 		node.data?.originalPath ??
@@ -200,6 +318,23 @@ async function resolveEmbedNode(
 	}
 
 	node.data.assetKind = "markdown";
+	node.data.embedStyle = parseEmbedStyle(node.data.parameters);
+
+	// include 模式：同一模块在一次转换中只生成并引入一次
+	// 再次嵌入时只登记其 label 并指向第一次引入处，重复 #include 会使模块中的 label 重复
+	let modulePath: string | undefined;
+	if (options.embedOutput === "include") {
+		modulePath = embedModulePath(resolved.path, node.data.heading, options);
+		node.data.modulePath = modulePath;
+		const known = scope.modules.get(modulePath);
+		if (known) {
+			registerEmbeddedLabels(scope, resolved.path, known);
+			node.data.includedBefore = true;
+			node.data.moduleLabel = known.root;
+			node.children = [];
+			return;
+		}
+	}
 
 	const adapter = env.vault.adapter;
 	const content = await adapter.read(resolved.path);
@@ -211,25 +346,60 @@ async function resolveEmbedNode(
 	};
 
 	// 1. 解析嵌入文件的 Markdown 为 AST
-	const processor = createProcessor(options);
-	const parsed = processor.parse(content) as Root;
-	const transformed = (await processor.run(parsed)) as Root;
+	const transformed = await parseWithPlugins(content, options);
+
+	// 1.5 ![[note#Heading]] / ![[note#^block]]：只保留对应章节或块
+	let fragment = transformed;
+	if (node.data.heading) {
+		const extracted = extractEmbedFragment(transformed, node.data.heading);
+		if (!extracted) {
+			options.onMissingEmbed?.(`${resolved.path}#${node.data.heading}`);
+			node.children = [];
+			return;
+		}
+		fragment = extracted;
+	}
+
+	// 每个嵌入使用独立的 label 命名空间，避免与父文档及重复嵌入冲突
+	// 模块的命名空间只取决于笔记路径，使其可被多个文档共用
+	// 参考文献与文档元数据只由顶层文档输出，嵌入笔记总是按普通文档生成（不再拆分幻灯片）
+	// 内联内容位于 #quote[...] 等块中，其中的 #let 对外不可见，callout 定义由外层文档输出；
+	// include 模块单独求值，需自带定义
+	const embedOptions: TypstTransformOptions = {
+		...options,
+		labelPrefix: modulePath
+			? moduleNamespace(scope, resolved.path, node.data.heading)
+			: allocateNamespace(scope, options.labelPrefix, resolved.path),
+		bibliography: [],
+		preserveFrontmatter: false,
+		outputMode: "document",
+		calloutPrelude: modulePath !== undefined,
+	};
 
 	// 2. 递归解析嵌入的嵌入（保持深度和栈的连续性）
 	await resolveEmbedsInTree(
-		transformed,
-		options,
+		fragment,
+		embedOptions,
 		nextEnv,
 		depth + 1,
-		stack.concat(resolved.path)
+		stack.concat(resolved.path),
+		scope
 	);
 
 	// 3. 生成 Typst 代码（传入当前文件路径用于计算相对路径）
-	const generator = new TypstGenerator(options, resolved.path);
-	const convertedTypst = generator.generate(transformed);
-
-	// 4. 存储转换后的 Typst 内容
-	node.data.convertedTypst = convertedTypst;
+	const generator = new TypstGenerator(embedOptions, resolved.path, scope);
+	const convertedTypst = generator.generate(fragment);
+	const labels = generator.exportLabels();
+	registerEmbeddedLabels(scope, resolved.path, labels);
+
+	// 4. 存储转换后的 Typst 内容（include 模式下交给调用方写入模块文件）
+	if (modulePath) {
+		scope.modules.set(modulePath, labels);
+		options.onEmbedModule?.(modulePath, convertedTypst);
+	} else {
+		node.data.convertedTypst = convertedTypst;
+		node.data.calloutsUsed = generator.usesCallouts();
+	}
 
 	// 5. 清空 children（不再需要 AST 节点）
 	node.children = [];
@@ -240,7 +410,8 @@ async function resolveEmbedsInTree(
 	options: TypstTransformOptions,
 	env: EmbedEnvironment,
 	depth = 0,
-	stack: string[] = []
+	stack: string[] = [],
+	scope: LabelScope = createLabelScope()
 ): Promise<void> {
 	if (!options.enableEmbeds) {
 		return;
@@ -252,7 +423,7 @@ async function resolveEmbedsInTree(
 	});
 
 	for (const embedNode of embedNodes) {
-		await resolveEmbedNode(embedNode, options, env, depth, stack);
+		await resolveEmbedNode(embedNode, options, env, depth, stack, scope);
 	}
 }
 
@@ -261,26 +432,226 @@ export async function markdownToTypst(
 	options: Partial<TypstTransformOptions> = {},
 	embedEnvironment?: EmbedEnvironment
 ): Promise<string> {
+	const { typst } = await markdownToTypstWithSourceMap(
+		markdown,
+		options,
+		embedEnvironment
+	);
+	return typst;
+}
+
+/**
+ * 转换 Markdown，同时返回顶层块的行号映射（Markdown 行 -> Typst 行）
+ */
+export async function markdownToTypstWithSourceMap(
+	markdown: string,
+	options: Partial<TypstTransformOptions> = {},
+	embedEnvironment?: EmbedEnvironment
+): Promise<{ typst: string; sourceMap: TypstSourceMap }> {
+	const tree = await parseMarkdown(markdown, options);
+	return generateTypst(tree, options, embedEnvironment);
+}
+
+/**
+ * 解析 Markdown 为经 Obsidian 插件扩展后的 mdast（wikiLink、callout、obsidianTag 等节点）
+ * 嵌入在生成时才解析
+ */
+export async function parseMarkdown(
+	markdown: string,
+	options: Partial<TypstTransformOptions> = {}
+): Promise<Root> {
+	return parseWithPlugins(markdown, { ...DEFAULT_OPTIONS, ...options });
+}
+
+/**
+ * 由 mdast 生成 Typst（先解析其中的嵌入）
+ * options.generators 按节点类型覆盖输出，先于注册的生成器执行
+ */
+export async function generateTypst(
+	tree: Root,
+	options: GenerateOptions = {},
+	embedEnvironment?: EmbedEnvironment
+): Promise<{ typst: string; sourceMap: TypstSourceMap }> {
+	const { generators, ...transformOptions } = options;
 	const fullOptions: TypstTransformOptions = {
 		...DEFAULT_OPTIONS,
-		...options,
+		...transformOptions,
 	};
 
-	const processor = createProcessor(fullOptions);
-	const parsed = processor.parse(markdown) as Root;
-	const transformed = (await processor.run(parsed)) as Root;
+	if (generators && Object.keys(generators).length) {
+		const extensions =
+			fullOptions.extensions?.fork() ?? new TransformerExtensions();
+		for (const [type, generate] of Object.entries(generators)) {
+			extensions.registerNodeGenerator({
+				name: `generate:${type}`,
+				type,
+				generate,
+				order: Number.MIN_SAFE_INTEGER,
+			});
+		}
+		fullOptions.extensions = extensions;
+	}
+
+	// 整棵嵌入树共享 label 作用域
+	const scope = createLabelScope();
 
 	if (embedEnvironment && fullOptions.enableEmbeds) {
-		await resolveEmbedsInTree(transformed, fullOptions, embedEnvironment, 0, [
-			embedEnvironment.currentFile,
-		]);
+		await resolveEmbedsInTree(
+			tree,
+			fullOptions,
+			embedEnvironment,
+			0,
+			[embedEnvironment.currentFile],
+			scope
+		);
 	}
 
 	// 传入当前文件路径（用于计算图片等资源的相对路径）
 	const currentFile = embedEnvironment?.currentFile || "";
-	const generator = new TypstGenerator(fullOptions, currentFile);
-	return generator.generate(transformed);
+	const generator = new TypstGenerator(fullOptions, currentFile, scope);
+	const typst = generator.generate(tree);
+	return { typst, sourceMap: generator.getSourceMap() };
+}
+
+/**
+ * 章节笔记不以一级标题开头时，以章标题（默认为文件名）补上，使每章都从一级标题开始
+ */
+function ensureChapterHeading(tree: Root, chapter: BookChapter): void {
+	const first = tree.children.find((child) => child.type !== "yaml");
+	if (first?.type === "heading" && first.depth === 1) {
+		return;
+	}
+
+	const name = chapter.path.replace(/\\/g, "/").split("/").pop() ?? chapter.path;
+	const title = chapter.title ?? name.replace(/\.md$/i, "");
+	const index = first ? tree.children.indexOf(first) : tree.children.length;
+	tree.children.splice(index, 0, {
+		type: "heading",
+		depth: 1,
+		children: [{ type: "text", value: title }],
+	});
+}
+
+/**
+ * 将多篇笔记转换为一本书：标题页、目录、部与章
+ * - 各章共享 label 作用域并各自使用独立的命名空间；生成前先为所有章节分配 label，
+ *   章节之间的 [[笔记#标题]] 链接（包括指向后面章节的）都改写为文档内跳转
+ * - 有部时部占据 h1Level，各章标题降一级
+ * - 参考文献在全书末尾输出一次
+ * embedEnvironment.currentFile 为书的清单笔记，资源与参考文献的相对路径按它计算
+ */
+export async function bookToTypst(
+	book: BookDocument,
+	options: Partial<TypstTransformOptions> = {},
+	embedEnvironment?: EmbedEnvironment
+): Promise<string> {
+	const fullOptions: TypstTransformOptions = {
+		...DEFAULT_OPTIONS,
+		...options,
+	};
+	const bookFile = embedEnvironment?.currentFile ?? "";
+	const hasParts = book.chapters.some((chapter) => chapter.part);
+	const scope = createLabelScope();
+
+	// 1. 解析各章并预先分配 label
+	const prepared: Array<{
+		chapter: BookChapter;
+		tree: Root;
+		options: TypstTransformOptions;
+		generator: TypstGenerator;
+	}> = [];
+	for (const [index, chapter] of book.chapters.entries()) {
+		const chapterOptions: TypstTransformOptions = {
+			...fullOptions,
+			h1Level: fullOptions.h1Level + (hasParts ? 1 : 0),
+			labelPrefix: allocateNamespace(scope, fullOptions.labelPrefix, chapter.path),
+			preserveFrontmatter: false,
+			outputMode: "document",
+			calloutPrelude: false,
+			bibliography:
+				index === book.chapters.length - 1 ? fullOptions.bibliography : [],
+		};
+		const tree = await parseWithPlugins(chapter.markdown, chapterOptions);
+		ensureChapterHeading(tree, chapter);
+
+		const generator = new TypstGenerator(chapterOptions, bookFile, scope);
+		registerEmbeddedLabels(scope, chapter.path, generator.prepareLabels(tree));
+		prepared.push({ chapter, tree, options: chapterOptions, generator });
+	}
+
+	// 2. 书的元数据、标题页与目录
+	const metadata = book.metadata ?? {};
+	let output = "";
+	if (fullOptions.preserveFrontmatter) {
+		output += generateDocumentMetadata(metadata, fullOptions.frontmatterMapping);
+	}
+	if (book.titlePage !== false) {
+		output += generateTitlePage(metadata, fullOptions.frontmatterMapping);
+	}
+	if (book.outline !== false) {
+		output += "#outline()\n\n";
+	}
+
+	// 3. 依次解析各章的嵌入并生成，每章另起一页；callout 定义在各章之前输出一次
+	let chapters = "";
+	let calloutsUsed = false;
+	for (const { chapter, tree, options: chapterOptions, generator } of prepared) {
+		if (embedEnvironment && chapterOptions.enableEmbeds) {
+			await resolveEmbedsInTree(
+				tree,
+				chapterOptions,
+				{ ...embedEnvironment, currentFile: chapter.path },
+				0,
+				[chapter.path],
+				scope
+			);
+		}
+		if (chapter.part) {
+			chapters += generatePartHeading(chapter.part, fullOptions.h1Level);
+		}
+		chapters += `#pagebreak(weak: true)\n\n${generator.generate(tree)}\n`;
+		calloutsUsed ||= generator.usesCallouts();
+	}
+	if (calloutsUsed && fullOptions.calloutPrelude) {
+		output += generateCalloutPrelude(fullOptions.calloutStyleOverrides);
+	}
+	output += chapters;
+
+	return `${output.trimEnd()}\n`;
 }
 
 export { TypstGenerator };
 export type { TypstTransformOptions, EmbedEnvironment };
+export {
+	BUILTIN_PLUGIN_ORDER,
+	DEFAULT_GENERATOR_ORDER,
+	DEFAULT_PLUGIN_ORDER,
+	TransformerExtensions,
+} from "./extensions";
+export type {
+	BookChapter,
+	BookDocument,
+	EmbedStyle,
+	FrontmatterMapping,
+	GenerateOptions,
+	LineRange,
+	NodeGenerator,
+	NodeGeneratorHelpers,
+	NodeGeneratorRegistration,
+	RemarkPluginRegistration,
+	SourceMapEntry,
+	TypstSourceMap,
+	WikiLinkPolicy,
+} from "./types";
+export { parseFrontmatterMapping } from "./generators/frontmatter";
+export { escapeTypstString } from "./generators/text";
+export { parseFrontmatter } from "./frontmatter";
+export { mapTree, type TreeMapper } from "./mapTree";
+export { ConversionCache } from "./cache";
+export type {
+	ConversionCacheCounters,
+	ConversionCacheLimits,
+	ConversionCacheStats,
+} from "./cache";
+export { typstToMarkdown } from "./reverse";
+export type { TypstToMarkdownOptions, TypstToMarkdownResult } from "./reverse";
@@ -0,0 +1,2 @@
+export { translateLatexMath } from "./translator";
+export type { LatexTranslationResult } from "./translator";
@@ -0,0 +1,391 @@
+/**
+ * LaTeX 命令 -> Typst 数学符号对照表
+ */
+export const SYMBOLS: Record<string, string> = {
+	// 希腊字母（小写）
+	alpha: "alpha",
+	beta: "beta",
+	gamma: "gamma",
+	delta: "delta",
+	epsilon: "epsilon.alt",
+	varepsilon: "epsilon",
+	zeta: "zeta",
+	eta: "eta",
+	theta: "theta",
+	vartheta: "theta.alt",
+	iota: "iota",
+	kappa: "kappa",
+	varkappa: "kappa.alt",
+	lambda: "lambda",
+	mu: "mu",
+	nu: "nu",
+	xi: "xi",
+	omicron: "omicron",
+	pi: "pi",
+	varpi: "pi.alt",
+	rho: "rho",
+	varrho: "rho.alt",
+	sigma: "sigma",
+	varsigma: "sigma.alt",
+	tau: "tau",
+	upsilon: "upsilon",
+	phi: "phi.alt",
+	varphi: "phi",
+	chi: "chi",
+	psi: "psi",
+	omega: "omega",
+
+	// 希腊字母（大写）
+	Gamma: "Gamma",
+	Delta: "Delta",
+	Theta: "Theta",
+	Lambda: "Lambda",
+	Xi: "Xi",
+	Pi: "Pi",
+	Sigma: "Sigma",
+	Upsilon: "Upsilon",
+	Phi: "Phi",
+	Psi: "Psi",
+	Omega: "Omega",
+
+	// 二元运算符
+	pm: "plus.minus",
+	mp: "minus.plus",
+	times: "times",
+	div: "div",
+	cdot: "dot.op",
+	ast: "ast",
+	star: "star",
+	circ: "compose",
+	bullet: "bullet",
+	oplus: "plus.circle",
+	ominus: "minus.circle",
+	otimes: "times.circle",
+	odot: "dot.circle",
+	cup: "union",
+	cap: "inter",
+	setminus: "without",
+	wedge: "and",
+	land: "and",
+	vee: "or",
+	lor: "or",
+	neg: "not",
+	lnot: "not",
+
+	// 关系符
+	le: "<=",
+	leq: "<=",
+	leqslant: "lt.eq.slant",
+	ge: ">=",
+	geq: ">=",
+	geqslant: "gt.eq.slant",
+	ne: "!=",
+	neq: "!=",
+	ll: "<<",
+	gg: ">>",
+	approx: "approx",
+	equiv: "equiv",
+	sim: "tilde.op",
+	simeq: "tilde.eq",
+	cong: "tilde.equiv",
+	propto: "prop",
+	in: "in",
+	notin: "in.not",
+	ni: "in.rev",
+	subset: "subset",
+	subseteq: "subset.eq",
+	supset: "supset",
+	supseteq: "supset.eq",
+	perp: "perp",
+	parallel: "parallel",
+	mid: "divides",
+	vdash: "tack.r",
+	models: "models",
+	prec: "prec",
+	succ: "succ",
+
+	// 箭头
+	to: "->",
+	rightarrow: "->",
+	leftarrow: "<-",
+	gets: "<-",
+	leftrightarrow: "<->",
+	Rightarrow: "=>",
+	Leftarrow: "arrow.l.double",
+	Leftrightarrow: "<=>",
+	iff: "<=>",
+	implies: "==>",
+	impliedby: "<==",
+	longrightarrow: "-->",
+	longleftarrow: "<--",
+	Longrightarrow: "==>",
+	mapsto: "|->",
+	uparrow: "arrow.t",
+	downarrow: "arrow.b",
+	Uparrow: "arrow.t.double",
+	Downarrow: "arrow.b.double",
+	nearrow: "arrow.tr",
+	searrow: "arrow.br",
+	hookrightarrow: "arrow.r.hook",
+
+	// 大型运算符
+	sum: "sum",
+	prod: "product",
+	coprod: "product.co",
+	int: "integral",
+	iint: "integral.double",
+	iiint: "integral.triple",
+	oint: "integral.cont",
+	bigcup: "union.big",
+	bigcap: "inter.big",
+	bigoplus: "plus.circle.big",
+	bigotimes: "times.circle.big",
+	bigwedge: "and.big",
+	bigvee: "or.big",
+
+	// 杂项符号
+	infty: "infinity",
+	partial: "diff",
+	nabla: "nabla",
+	forall: "forall",
+	exists: "exists",
+	nexists: "exists.not",
+	emptyset: "emptyset",
+	varnothing: "nothing",
+	aleph: "aleph",
+	hbar: "planck.reduce",
+	ell: "ell",
+	Re: "Re",
+	Im: "Im",
+	angle: "angle",
+	degree: "degree",
+	prime: "prime",
+	top: "top",
+	bot: "bot",
+	therefore: "therefore",
+	because: "because",
+	dots: "...",
+	ldots: "...",
+	cdots: "dots.c",
+	vdots: "dots.v",
+	ddots: "dots.down",
+	colon: "colon",
+
+	// 定界符
+	langle: "angle.l",
+	rangle: "angle.r",
+	lfloor: "floor.l",
+	rfloor: "floor.r",
+	lceil: "ceil.l",
+	rceil: "ceil.r",
+	lbrace: "brace.l",
+	rbrace: "brace.r",
+	"{": "brace.l",
+	"}": "brace.r",
+	vert: "bar.v",
+	lvert: "bar.v",
+	rvert: "bar.v",
+	Vert: "bar.v.double",
+	lVert: "bar.v.double",
+	rVert: "bar.v.double",
+	"|": "bar.v.double",
+
+	// 转义字符
+	"#": "\\#",
+	$: "\\$",
+	"%": "%",
+	"&": "\\&",
+	_: "\\_",
+};
+
+/**
+ * 间距命令
+ */
+export const SPACING: Record<string, string> = {
+	",": "thin",
+	thinspace: "thin",
+	":": "med",
+	">": "med",
+	medspace: "med",
+	";": "thick",
+	thickspace: "thick",
+	" ": "space",
+	quad: "quad",
+	qquad: "wide",
+	"!": "",
+	negthinspace: "",
+};
+
+/**
+ * Typst 内置的数学算子（\sin -> sin）
+ */
+export const OPERATORS = new Set([
+	"arccos",
+	"arcsin",
+	"arctan",
+	"arg",
+	"cos",
+	"cosh",
+	"cot",
+	"coth",
+	"csc",
+	"deg",
+	"det",
+	"dim",
+	"exp",
+	"gcd",
+	"hom",
+	"inf",
+	"ker",
+	"lg",
+	"lim",
+	"liminf",
+	"limsup",
+	"ln",
+	"log",
+	"max",
+	"min",
+	"Pr",
+	"sec",
+	"sin",
+	"sinh",
+	"sup",
+	"tan",
+	"tanh",
+]);
+
+/**
+ * 字体命令 -> Typst 函数
+ */
+export const FONTS: Record<string, string> = {
+	mathbb: "bb",
+	mathcal: "cal",
+	mathscr: "cal",
+	mathfrak: "frak",
+	mathbf: "bold",
+	boldsymbol: "bold",
+	bm: "bold",
+	mathit: "italic",
+	mathrm: "upright",
+	mathsf: "sans",
+	mathtt: "mono",
+};
+
+/**
+ * 重音命令 -> Typst 函数
+ */
+export const ACCENTS: Record<string, string> = {
+	hat: "hat",
+	widehat: "hat",
+	tilde: "tilde",
+	widetilde: "tilde",
+	bar: "macron",
+	vec: "arrow",
+	overrightarrow: "arrow",
+	overleftarrow: "arrow.l",
+	dot: "dot",
+	ddot: "dot.double",
+	dddot: "dot.triple",
+	acute: "acute",
+	grave: "grave",
+	breve: "breve",
+	check: "caron",
+	mathring: "circle",
+};
+
+/**
+ * 装饰命令（上下划线、括号）-> Typst 函数
+ */
+export const DECORATIONS: Record<string, string> = {
+	overline: "overline",
+	underline: "underline",
+	overbrace: "overbrace",
+	underbrace: "underbrace",
+	overbracket: "overbracket",
+	underbracket: "underbracket",
+	cancel: "cancel",
+};
+
+/**
+ * 文本命令 -> 包裹字符串的 Typst 函数（空字符串表示直接输出字符串）
+ */
+export const TEXT_COMMANDS: Record<string, string> = {
+	text: "",
+	textrm: "",
+	textnormal: "",
+	mbox: "",
+	hbox: "",
+	textbf: "bold",
+	textit: "italic",
+	textsf: "sans",
+	texttt: "mono",
+};
+
+/**
+ * 矩阵类环境 -> mat 的 delim 参数
+ */
+export const MATRIX_DELIMITERS: Record<string, string> = {
+	matrix: "#none",
+	smallmatrix: "#none",
+	pmatrix: '"("',
+	bmatrix: '"["',
+	Bmatrix: '"{"',
+	vmatrix: '"|"',
+	Vmatrix: '"||"',
+};
+
+/**
+ * 多行对齐类环境
+ */
+export const ALIGN_ENVIRONMENTS = new Set([
+	"align",
+	"align*",
+	"aligned",
+	"alignat",
+	"alignat*",
+	"alignedat",
+	"split",
+	"gather",
+	"gather*",
+	"gathered",
+	"multline",
+	"multline*",
+	"eqnarray",
+	"eqnarray*",
+	"equation",
+	"equation*",
+	"displaymath",
+]);
+
+/**
+ * 不影响 Typst 输出、可直接忽略的命令
+ */
+export const IGNORED_COMMANDS = new Set([
+	"displaystyle",
+	"textstyle",
+	"scriptstyle",
+	"scriptscriptstyle",
+	"limits",
+	"nolimits",
+	"nonumber",
+	"notag",
+	"big",
+	"Big",
+	"bigg",
+	"Bigg",
+	"bigl",
+	"bigr",
+	"Bigl",
+	"Bigr",
+	"biggl",
+	"biggr",
+	"Biggl",
+	"Biggr",
+	"hline",
+	"middle",
+]);
+
+/**
+ * 需要丢弃一个参数的命令
+ */
+export const IGNORED_WITH_ARGUMENT = new Set(["label", "tag"]);
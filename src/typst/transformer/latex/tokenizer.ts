@@ -0,0 +1,72 @@
+export type LatexToken =
+	| { kind: "command"; value: string }
+	| { kind: "char"; value: string }
+	| { kind: "space" };
+
+/**
+ * 将 LaTeX 数学源码切分为命令、字符与空白
+ * - `\name` 读取为命令（字母序列）
+ * - `\,`、`\\`、`\{` 等读取为单字符命令
+ * - `%` 注释直到行尾被丢弃
+ */
+export function tokenizeLatex(source: string): LatexToken[] {
+	const tokens: LatexToken[] = [];
+	let index = 0;
+
+	while (index < source.length) {
+		const char = source[index];
+
+		if (char === "\\") {
+			const next = source[index + 1];
+			if (next === undefined) {
+				tokens.push({ kind: "char", value: "\\" });
+				index += 1;
+				continue;
+			}
+
+			if (/[a-zA-Z]/.test(next)) {
+				let end = index + 1;
+				while (end < source.length && /[a-zA-Z]/.test(source[end])) {
+					end += 1;
+				}
+				// \operatorname* 的星号属于命令本身
+				if (
+					source[end] === "*" &&
+					source.slice(index + 1, end) === "operatorname"
+				) {
+					end += 1;
+				}
+				tokens.push({ kind: "command", value: source.slice(index + 1, end) });
+				index = end;
+				continue;
+			}
+
+			tokens.push({ kind: "command", value: next });
+			index += 2;
+			continue;
+		}
+
+		if (char === "%") {
+			while (index < source.length && source[index] !== "\n") {
+				index += 1;
+			}
+			continue;
+		}
+
+		if (/\s/.test(char)) {
+			while (index < source.length && /\s/.test(source[index])) {
+				index += 1;
+			}
+			tokens.push({ kind: "space" });
+			continue;
+		}
+
+		// 按码点切分，避免拆开代理对
+		const codePoint = source.codePointAt(index) ?? 0;
+		const value = String.fromCodePoint(codePoint);
+		tokens.push({ kind: "char", value });
+		index += value.length;
+	}
+
+	return tokens;
+}
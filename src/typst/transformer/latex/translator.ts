@@ -0,0 +1,704 @@
+import { tokenizeLatex, type LatexToken } from "./tokenizer";
+import { escapeTypstString } from "../generators/text";
+import {
+	ACCENTS,
+	ALIGN_ENVIRONMENTS,
+	DECORATIONS,
+	FONTS,
+	IGNORED_COMMANDS,
+	IGNORED_WITH_ARGUMENT,
+	MATRIX_DELIMITERS,
+	OPERATORS,
+	SPACING,
+	SYMBOLS,
+	TEXT_COMMANDS,
+} from "./symbols";
+
+export interface LatexTranslationResult {
+	typst: string;
+	errors: string[];
+}
+
+// 普通括号先以占位标记（私用区字符）输出，待所在参数闭合后再决定是否需要转义
+const DELIMITER_MARK = "\uE000";
+
+// 在 Typst 数学中需要转义的普通字符
+const ESCAPED_CHARS = new Set(["/", '"', "#", "$", "@", "\\"]);
+
+const DELIMITER_NAMES: Record<string, string> = {
+	"(": "paren.l",
+	")": "paren.r",
+	"[": "bracket.l",
+	"]": "bracket.r",
+	"|": "bar.v",
+	"<": "angle.l",
+	">": "angle.r",
+};
+
+const BLACKBOARD_SHORTHANDS = new Set(["N", "Z", "Q", "R", "C"]);
+
+const SIMPLE_ATTACHMENT = /^(?:[\p{L}\p{N}.]+|"(?:[^"\\]|\\.)*"|[^\s(),;])$/u;
+
+type StopPredicate = (token: LatexToken) => boolean;
+
+/**
+ * 将占位的普通括号还原：配对时原样输出，不配对时转义，
+ * 避免 `[0, 1)` 这类区间写法破坏 Typst 函数调用的括号结构
+ */
+function resolveDelimiters(value: string): string {
+	const stack: string[] = [];
+	let balanced = true;
+	const pairs: Record<string, string> = { ")": "(", "]": "[" };
+
+	for (let i = 0; i < value.length; i++) {
+		if (value[i] !== DELIMITER_MARK) {
+			continue;
+		}
+		const char = value[i + 1];
+		if (char === "(" || char === "[") {
+			stack.push(char);
+		} else if (stack.pop() !== pairs[char]) {
+			balanced = false;
+			break;
+		}
+	}
+	balanced = balanced && stack.length === 0;
+
+	return value.replace(/\uE000(.)/g, (_, char: string) =>
+		balanced ? char : `\\${char}`
+	);
+}
+
+class LatexTranslator {
+	private index = 0;
+	private argumentDepth = 0;
+	readonly errors: string[] = [];
+
+	constructor(private readonly tokens: LatexToken[]) {}
+
+	translate(): string {
+		const result = this.parseSequence(() => false);
+		if (this.index < this.tokens.length) {
+			this.errors.push("Unexpected closing brace");
+		}
+		return resolveDelimiters(result).trim();
+	}
+
+	private peek(offset = 0): LatexToken | undefined {
+		return this.tokens[this.index + offset];
+	}
+
+	private skipSpaces(): void {
+		while (this.peek()?.kind === "space") {
+			this.index += 1;
+		}
+	}
+
+	private isChar(token: LatexToken | undefined, value: string): boolean {
+		return token?.kind === "char" && token.value === value;
+	}
+
+	private isCommand(token: LatexToken | undefined, value: string): boolean {
+		return token?.kind === "command" && token.value === value;
+	}
+
+	/**
+	 * 解析原子序列直到遇到终止符（不消费终止符）
+	 */
+	private parseSequence(stop: StopPredicate): string {
+		const atoms: string[] = [];
+
+		while (this.index < this.tokens.length) {
+			this.skipSpaces();
+			const token = this.peek();
+			if (!token || stop(token) || this.isChar(token, "}")) {
+				break;
+			}
+
+			const atom = this.parseAtom();
+			if (atom === null) {
+				continue;
+			}
+			atoms.push(this.parseAttachments(atom));
+		}
+
+		return this.joinAtoms(atoms.filter((atom) => atom !== ""));
+	}
+
+	/**
+	 * 以空格连接原子（Typst 中相邻字母需空格分隔），
+	 * 括号内侧与逗号前不加空格以保持输出可读
+	 */
+	private joinAtoms(atoms: string[]): string {
+		let output = "";
+		for (const atom of atoms) {
+			const tight =
+				!output ||
+				/\uE000[([]$/.test(output) ||
+				/^\uE000[)\]]/.test(atom) ||
+				atom === "," ||
+				atom === "\\,";
+			output += tight ? atom : ` ${atom}`;
+		}
+		return output;
+	}
+
+	/**
+	 * 解析上下标与撇号，附着在前一个原子上
+	 */
+	private parseAttachments(base: string): string {
+		let result = base;
+
+		while (this.index < this.tokens.length) {
+			this.skipSpaces();
+			const token = this.peek();
+
+			if (this.isChar(token, "'")) {
+				this.index += 1;
+				result = `${result || '""'}'`;
+				continue;
+			}
+
+			if (this.isChar(token, "^") || this.isChar(token, "_")) {
+				this.index += 1;
+				const argument = this.parseArgument();
+				if (argument) {
+					result = `${result || '""'}${(token as { value: string }).value}${this.wrapAttachment(argument)}`;
+				}
+				continue;
+			}
+
+			break;
+		}
+
+		return result;
+	}
+
+	private wrapAttachment(value: string): string {
+		return SIMPLE_ATTACHMENT.test(value) ? value : `(${value})`;
+	}
+
+	/**
+	 * 读取一个命令参数：花括号分组或单个记号
+	 */
+	private parseArgument(): string {
+		this.skipSpaces();
+		const token = this.peek();
+		if (!token) {
+			this.errors.push("Missing argument");
+			return "";
+		}
+
+		if (this.isChar(token, "^") || this.isChar(token, "_")) {
+			this.index += 1;
+			this.errors.push("Double superscript or subscript");
+			return "";
+		}
+
+		this.argumentDepth += 1;
+		let result: string;
+
+		if (this.isChar(token, "{")) {
+			result = this.parseGroup();
+		} else if (token.kind === "char" && /\d/.test(token.value)) {
+			// LaTeX 中 x^12 只取第一个数字
+			this.index += 1;
+			result = token.value;
+		} else {
+			result = this.parseAtom() ?? "";
+		}
+
+		this.argumentDepth -= 1;
+		return resolveDelimiters(result);
+	}
+
+	/**
+	 * 解析 `{...}` 分组，返回内部翻译结果
+	 */
+	private parseGroup(): string {
+		this.index += 1; // 跳过 {
+		const content = this.parseSequence(() => false);
+		if (this.isChar(this.peek(), "}")) {
+			this.index += 1;
+		} else {
+			this.errors.push("Missing closing brace");
+		}
+		return content;
+	}
+
+	/**
+	 * 读取 `{...}` 中的原始文本（用于环境名、\text 等）
+	 */
+	private readRawGroup(): string {
+		this.skipSpaces();
+		if (!this.isChar(this.peek(), "{")) {
+			const token = this.peek();
+			this.index += 1;
+			if (!token || token.kind === "space") {
+				return "";
+			}
+			return token.value;
+		}
+
+		this.index += 1;
+		let depth = 1;
+		let text = "";
+
+		while (this.index < this.tokens.length) {
+			const token = this.tokens[this.index];
+			this.index += 1;
+
+			if (token.kind === "space") {
+				text += " ";
+			} else if (token.kind === "char") {
+				if (token.value === "{") {
+					depth += 1;
+				} else if (token.value === "}") {
+					depth -= 1;
+					if (depth === 0) {
+						return text;
+					}
+				}
+				text += token.value;
+			} else if (/^[a-zA-Z]/.test(token.value)) {
+				text += `\\${token.value}`;
+			} else {
+				// \$、\& 等转义字符在文本中按字面输出
+				text += token.value;
+			}
+		}
+
+		this.errors.push("Missing closing brace");
+		return text;
+	}
+
+	/**
+	 * 读取可选参数 `[...]`
+	 */
+	private parseOptionalArgument(): string | null {
+		this.skipSpaces();
+		if (!this.isChar(this.peek(), "[")) {
+			return null;
+		}
+		this.index += 1;
+		this.argumentDepth += 1;
+		const content = this.parseSequence((token) => this.isChar(token, "]"));
+		this.argumentDepth -= 1;
+		if (this.isChar(this.peek(), "]")) {
+			this.index += 1;
+		} else {
+			this.errors.push("Missing closing bracket");
+		}
+		return resolveDelimiters(content);
+	}
+
+	private parseAtom(): string | null {
+		const token = this.peek();
+		if (!token) {
+			return null;
+		}
+
+		if (token.kind === "space") {
+			this.index += 1;
+			return null;
+		}
+
+		if (token.kind === "command") {
+			this.index += 1;
+			return this.parseCommand(token.value);
+		}
+
+		return this.parseChar(token.value);
+	}
+
+	private parseChar(char: string): string {
+		this.index += 1;
+
+		if (char === "{") {
+			this.index -= 1;
+			return this.parseGroup();
+		}
+
+		// 无底数的上下标（如 ^{14}C）交由 parseAttachments 处理
+		if (char === "^" || char === "_") {
+			this.index -= 1;
+			return "";
+		}
+
+		// 连续数字（含小数点）合并为一个数
+		if (/\d/.test(char)) {
+			let number = char;
+			while (this.index < this.tokens.length) {
+				const next = this.peek();
+				const after = this.peek(1);
+				if (next?.kind === "char" && /\d/.test(next.value)) {
+					number += next.value;
+					this.index += 1;
+				} else if (
+					this.isChar(next, ".") &&
+					after?.kind === "char" &&
+					/\d/.test(after.value)
+				) {
+					number += ".";
+					this.index += 1;
+				} else {
+					break;
+				}
+			}
+			return number;
+		}
+
+		if (char === "(" || char === ")" || char === "[" || char === "]") {
+			return `${DELIMITER_MARK}${char}`;
+		}
+
+		if (char === "~") {
+			return "space";
+		}
+
+		if ((char === "," || char === ";") && this.argumentDepth > 0) {
+			return `\\${char}`;
+		}
+
+		if (ESCAPED_CHARS.has(char)) {
+			return `\\${char}`;
+		}
+
+		if (char === "&") {
+			return "&";
+		}
+
+		if (char === "}") {
+			this.errors.push("Unexpected closing brace");
+			return "";
+		}
+
+		return char;
+	}
+
+	private parseCommand(name: string): string | null {
+		if (name in SYMBOLS) {
+			return SYMBOLS[name];
+		}
+
+		if (name in SPACING) {
+			return SPACING[name];
+		}
+
+		if (OPERATORS.has(name)) {
+			return name;
+		}
+
+		if (IGNORED_COMMANDS.has(name)) {
+			return null;
+		}
+
+		if (IGNORED_WITH_ARGUMENT.has(name)) {
+			this.readRawGroup();
+			return null;
+		}
+
+		if (name in FONTS) {
+			const argument = this.parseArgument();
+			if (name === "mathbb" && BLACKBOARD_SHORTHANDS.has(argument)) {
+				return `${argument}${argument}`;
+			}
+			return `${FONTS[name]}(${argument})`;
+		}
+
+		if (name in ACCENTS) {
+			return `${ACCENTS[name]}(${this.parseArgument()})`;
+		}
+
+		if (name in DECORATIONS) {
+			return this.parseDecoration(DECORATIONS[name]);
+		}
+
+		if (name in TEXT_COMMANDS) {
+			const text = `"${escapeTypstString(this.readRawGroup())}"`;
+			const wrapper = TEXT_COMMANDS[name];
+			return wrapper ? `${wrapper}(${text})` : text;
+		}
+
+		switch (name) {
+			case "frac":
+			case "dfrac":
+			case "tfrac":
+			case "cfrac":
+				return `frac(${this.parseArgument()}, ${this.parseArgument()})`;
+			case "binom":
+			case "dbinom":
+			case "tbinom":
+				return `binom(${this.parseArgument()}, ${this.parseArgument()})`;
+			case "sqrt": {
+				const index = this.parseOptionalArgument();
+				const radicand = this.parseArgument();
+				return index ? `root(${index}, ${radicand})` : `sqrt(${radicand})`;
+			}
+			case "operatorname":
+				return `op("${escapeTypstString(this.readRawGroup())}")`;
+			case "operatorname*":
+				return `op("${escapeTypstString(this.readRawGroup())}", limits: #true)`;
+			case "overset":
+			case "stackrel": {
+				const over = this.parseArgument();
+				const base = this.parseArgument();
+				return `limits(${base})^${this.wrapAttachment(over)}`;
+			}
+			case "underset": {
+				const under = this.parseArgument();
+				const base = this.parseArgument();
+				return `limits(${base})_${this.wrapAttachment(under)}`;
+			}
+			case "xrightarrow":
+			case "xleftarrow": {
+				this.parseOptionalArgument();
+				const label = this.parseArgument();
+				const arrow = name === "xrightarrow" ? "arrow.r.long" : "arrow.l.long";
+				return label ? `limits(${arrow})^${this.wrapAttachment(label)}` : arrow;
+			}
+			case "bmod":
+			case "mod":
+				return "mod";
+			case "pmod":
+				return `(mod ${this.parseArgument()})`;
+			case "not":
+				return this.parseNegation();
+			case "boxed":
+				return `#box(stroke: 0.5pt, inset: 3pt, $${this.parseArgument()}$)`;
+			case "left":
+				return this.parseLeftRight();
+			case "right":
+				this.errors.push("\\right without matching \\left");
+				return null;
+			case "begin":
+				return this.parseEnvironment();
+			case "end":
+				this.errors.push(`Unexpected \\end{${this.readRawGroup()}}`);
+				return null;
+			case "\\":
+				return "\\";
+			default:
+				this.errors.push(`Unsupported command \\${name}`);
+				return null;
+		}
+	}
+
+	private parseDecoration(fn: string): string {
+		const body = this.parseArgument();
+
+		// \underbrace{x}_{n} / \overbrace{x}^{n} 的注释作为第二个参数
+		const attachment =
+			fn === "underbrace" || fn === "underbracket" ? "_" : fn === "overbrace" || fn === "overbracket" ? "^" : null;
+		if (attachment) {
+			this.skipSpaces();
+			if (this.isChar(this.peek(), attachment)) {
+				this.index += 1;
+				return `${fn}(${body}, ${this.parseArgument()})`;
+			}
+		}
+
+		return `${fn}(${body})`;
+	}
+
+	private parseNegation(): string | null {
+		this.skipSpaces();
+		const token = this.peek();
+		if (this.isChar(token, "=")) {
+			this.index += 1;
+			return "!=";
+		}
+		if (this.isCommand(token, "in")) {
+			this.index += 1;
+			return "in.not";
+		}
+		if (this.isCommand(token, "subset")) {
+			this.index += 1;
+			return "subset.not";
+		}
+		const negated = this.parseAtom();
+		return negated ? `cancel(${negated})` : null;
+	}
+
+	private readDelimiter(): string {
+		this.skipSpaces();
+		const token = this.peek();
+		this.index += 1;
+
+		if (!token) {
+			this.errors.push("Missing delimiter after \\left or \\right");
+			return "";
+		}
+
+		if (token.kind === "char") {
+			if (token.value === ".") {
+				return "";
+			}
+			if (token.value in DELIMITER_NAMES) {
+				return DELIMITER_NAMES[token.value];
+			}
+		} else if (token.kind === "command" && token.value in SYMBOLS) {
+			return SYMBOLS[token.value];
+		}
+
+		this.errors.push("Unsupported delimiter after \\left or \\right");
+		return "";
+	}
+
+	/**
+	 * \left( ... \right) -> lr(paren.l ... paren.r)
+	 * 定界符使用符号名，避免与 lr() 调用本身的括号冲突
+	 */
+	private parseLeftRight(): string {
+		const open = this.readDelimiter();
+		this.argumentDepth += 1;
+		const body = resolveDelimiters(
+			this.parseSequence((token) => this.isCommand(token, "right"))
+		);
+		this.argumentDepth -= 1;
+
+		let close = "";
+		if (this.isCommand(this.peek(), "right")) {
+			this.index += 1;
+			close = this.readDelimiter();
+		} else {
+			this.errors.push("\\left without matching \\right");
+		}
+
+		const parts = [open, body, close].filter(Boolean).join(" ");
+		return `lr(${parts})`;
+	}
+
+	/**
+	 * 解析环境主体为行列结构（按 & 与 \\ 切分）
+	 */
+	private parseRows(): string[][] {
+		const rows: string[][] = [];
+		let cells: string[] = [];
+		const stop: StopPredicate = (token) =>
+			this.isChar(token, "&") ||
+			this.isCommand(token, "\\") ||
+			this.isCommand(token, "end");
+
+		while (this.index < this.tokens.length) {
+			cells.push(resolveDelimiters(this.parseSequence(stop)));
+			const token = this.peek();
+
+			if (this.isChar(token, "&")) {
+				this.index += 1;
+				continue;
+			}
+
+			rows.push(cells);
+			cells = [];
+
+			if (this.isCommand(token, "\\")) {
+				this.index += 1;
+				// 跳过换行后的可选间距参数，如 \\[2pt]
+				this.skipSpaces();
+				if (this.isChar(this.peek(), "[")) {
+					while (this.index < this.tokens.length && !this.isChar(this.peek(), "]")) {
+						this.index += 1;
+					}
+					this.index += 1;
+				}
+				continue;
+			}
+
+			break;
+		}
+
+		// 去掉末尾 \\ 产生的空行
+		while (rows.length && rows[rows.length - 1].every((cell) => !cell)) {
+			rows.pop();
+		}
+
+		return rows;
+	}
+
+	private parseEnvironment(): string | null {
+		const name = this.readRawGroup().trim();
+
+		const isMatrix = name in MATRIX_DELIMITERS || name === "array" || name === "subarray";
+		const isCases = name === "cases" || name === "dcases" || name === "rcases";
+		const isAlign = ALIGN_ENVIRONMENTS.has(name);
+
+		if (!isMatrix && !isCases && !isAlign) {
+			this.errors.push(`Unsupported environment ${name}`);
+			this.skipEnvironment(name);
+			return null;
+		}
+
+		let columnAlign = "";
+		if (name === "array" || name === "subarray") {
+			const spec = this.readRawGroup().replace(/[|\s]/g, "");
+			const unique = new Set(spec.split(""));
+			if (unique.size === 1) {
+				const align = { l: "left", c: "center", r: "right" }[spec[0]];
+				columnAlign = align ? `align: ${align}, ` : "";
+			}
+		} else if (name.startsWith("alignat") || name === "alignedat") {
+			this.readRawGroup();
+		}
+
+		if (isMatrix || isCases) {
+			this.argumentDepth += 1;
+		}
+		const rows = this.parseRows();
+		if (isMatrix || isCases) {
+			this.argumentDepth -= 1;
+		}
+
+		if (this.isCommand(this.peek(), "end")) {
+			this.index += 1;
+			const endName = this.readRawGroup().trim();
+			if (endName !== name) {
+				this.errors.push(`\\begin{${name}} ended by \\end{${endName}}`);
+			}
+		} else {
+			this.errors.push(`Missing \\end{${name}}`);
+		}
+
+		if (isMatrix) {
+			const delim = MATRIX_DELIMITERS[name] ?? "#none";
+			const body = rows.map((row) => row.join(", ")).join("; ");
+			const delimArg = delim === '"("' ? "" : `delim: ${delim}, `;
+			return `mat(${delimArg}${columnAlign}${body})`;
+		}
+
+		if (isCases) {
+			const body = rows.map((row) => row.join(" & ")).join(", ");
+			const reverse = name === "rcases" ? "reverse: #true, " : "";
+			return `cases(${reverse}${body})`;
+		}
+
+		return rows.map((row) => row.join(" & ")).join(" \\\n");
+	}
+
+	private skipEnvironment(name: string): void {
+		let depth = 1;
+		while (this.index < this.tokens.length) {
+			const token = this.tokens[this.index];
+			this.index += 1;
+			if (this.isCommand(token, "begin")) {
+				depth += 1;
+			} else if (this.isCommand(token, "end")) {
+				depth -= 1;
+				const endName = this.readRawGroup().trim();
+				if (depth === 0 && endName === name) {
+					return;
+				}
+			}
+		}
+	}
+}
+
+/**
+ * 将 LaTeX 数学公式翻译为 Typst 数学语法
+ * 无法翻译的命令或环境记录在 errors 中，由调用方决定如何降级
+ */
+export function translateLatexMath(latex: string): LatexTranslationResult {
+	const translator = new LatexTranslator(tokenizeLatex(latex));
+	const typst = translator.translate();
+	return { typst, errors: translator.errors };
+}
@@ -0,0 +1,40 @@
+import type { Node, Parent } from "unist";
+
+/**
+ * 节点映射函数
+ * 返回节点则替换（可为原节点），返回数组则展开替换，返回 null 则删除，返回 undefined 保持不变
+ */
+export type TreeMapper = (
+	node: Node,
+	parent: Parent | null
+) => Node | Node[] | null | undefined;
+
+function mapNode(node: Node, parent: Parent | null, mapper: TreeMapper): Node[] {
+	const result = mapper(node, parent);
+	const mapped =
+		result === undefined ? [node] : result === null ? [] : ([] as Node[]).concat(result);
+
+	// 先映射父节点，再进入其（可能已替换的）子节点；删除的子树不再访问
+	for (const item of mapped) {
+		const children = (item as Parent).children;
+		if (Array.isArray(children)) {
+			(item as Parent).children = children.flatMap((child) =>
+				mapNode(child, item as Parent, mapper)
+			) as Parent["children"];
+		}
+	}
+	return mapped;
+}
+
+/**
+ * 自上而下映射整棵树（原地修改子节点列表），根节点本身不会被删除或替换
+ */
+export function mapTree<T extends Node>(tree: T, mapper: TreeMapper): T {
+	const children = (tree as unknown as Parent).children;
+	if (Array.isArray(children)) {
+		(tree as unknown as Parent).children = children.flatMap((child) =>
+			mapNode(child, tree as unknown as Parent, mapper)
+		) as Parent["children"];
+	}
+	return tree;
+}
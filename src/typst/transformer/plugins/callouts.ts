@@ -1,13 +1,55 @@
 import type { Plugin } from "unified";
 import { visit } from "unist-util-visit";
-import type { Blockquote, Paragraph, Root, Text } from "mdast";
+import type { Blockquote, Paragraph, PhrasingContent, Root, Text } from "mdast";
+import { toString } from "mdast-util-to-string";
 import type { ObsidianCalloutNode } from "../types";
 
-const CALLOUT_PATTERN = /^\s*\[!([a-zA-Z-]+)\]\s*(.*)$/;
+// 只匹配首行：[!type]、[!type]- 或 [!type]+，其后为可选标题
+const CALLOUT_PATTERN = /^[ \t]*\[!([\w-]+)\]([+-]?)[ \t]*/;
 
-function extractCalloutMeta(
-	paragraph: Paragraph
-): { type: string; title?: string } | null {
+interface CalloutMeta {
+	type: string;
+	fold?: "open" | "closed";
+	title: PhrasingContent[];
+}
+
+/**
+ * 从段落中拆出标题行（首个换行之前的内容），其余内容留在段落中
+ */
+function splitTitleLine(paragraph: Paragraph): PhrasingContent[] {
+	const title: PhrasingContent[] = [];
+
+	while (paragraph.children.length) {
+		const child = paragraph.children[0];
+
+		if (child.type === "break") {
+			paragraph.children.shift();
+			break;
+		}
+
+		if (child.type === "text") {
+			const newline = child.value.indexOf("\n");
+			if (newline !== -1) {
+				const head = child.value.slice(0, newline);
+				if (head) {
+					title.push({ type: "text", value: head });
+				}
+				child.value = child.value.slice(newline + 1);
+				if (!child.value) {
+					paragraph.children.shift();
+				}
+				break;
+			}
+		}
+
+		title.push(child);
+		paragraph.children.shift();
+	}
+
+	return title;
+}
+
+function extractCalloutMeta(paragraph: Paragraph): CalloutMeta | null {
 	const firstChild = paragraph.children[0];
 	if (!firstChild || firstChild.type !== "text") {
 		return null;
@@ -19,14 +61,26 @@ function extractCalloutMeta(
 		return null;
 	}
 
-	textChild.value = textChild.value.slice(match[0].length).trimStart();
+	textChild.value = textChild.value.slice(match[0].length);
 	if (!textChild.value) {
 		paragraph.children.shift();
 	}
 
+	const title = splitTitleLine(paragraph);
+
+	// 去掉标题末尾空白
+	const last = title[title.length - 1];
+	if (last?.type === "text") {
+		last.value = last.value.trimEnd();
+		if (!last.value) {
+			title.pop();
+		}
+	}
+
 	return {
 		type: match[1].toLowerCase(),
-		title: match[2]?.trim() || undefined,
+		fold: match[2] === "-" ? "closed" : match[2] === "+" ? "open" : undefined,
+		title,
 	};
 }
 
@@ -48,13 +102,22 @@ export const remarkCallouts: Plugin<[], Root> = () => {
 				return;
 			}
 
+			if (!firstParagraph.children.length) {
+				blockquote.children.shift();
+			}
+
 			const calloutNode: ObsidianCalloutNode = {
 				type: "callout",
 				calloutType: meta.type,
-				title: meta.title,
+				title: meta.title.length
+					? toString({ type: "paragraph", children: meta.title })
+					: undefined,
+				titleChildren: meta.title.length ? meta.title : undefined,
+				fold: meta.fold,
 				children: blockquote.children,
 			};
 
+			// 嵌套的引用块共享同一个 children 数组，遍历会继续处理内部 callout
 			parent.children.splice(index, 1, calloutNode);
 		});
 
@@ -0,0 +1,83 @@
+import type { Plugin } from "unified";
+import { visit } from "unist-util-visit";
+import type { Root, Text } from "mdast";
+import type { CitationItem, CitationNode } from "../types";
+import { replaceInTextNode } from "./utils";
+
+// Pandoc 引用：方括号内至少包含一个 @key
+const CITATION_GROUP_PATTERN = /\[([^[\]]*@[^[\]]*)\]/g;
+
+// 单个条目：[前缀 ][-]@key[, 后缀]
+// key 以字母数字或下划线开头和结尾，中间可含 Pandoc 允许的标点；{...} 形式可包含任意字符
+const CITATION_ITEM_PATTERN =
+	/^(?:(.*?)\s+)?(-?)@(\{[^}]+\}|[\p{L}\p{N}_](?:[\p{L}\p{N}_:.#$%&\-+?<>~/]*[\p{L}\p{N}_])?)(.*)$/su;
+
+const WORD_CHAR = /^[\p{L}\p{N}_]/u;
+
+function parseCitationItem(raw: string): CitationItem | null {
+	const match = CITATION_ITEM_PATTERN.exec(raw.trim());
+	if (!match) {
+		return null;
+	}
+
+	const [, prefix, suppress, rawKey, rest] = match;
+	const key = rawKey.startsWith("{") ? rawKey.slice(1, -1).trim() : rawKey;
+	const suffix = rest.replace(/^\s*,?\s*/, "").trim();
+
+	return {
+		key,
+		prefix: prefix?.trim() || undefined,
+		suffix: suffix || undefined,
+		suppressAuthor: suppress === "-" || undefined,
+	};
+}
+
+/**
+ * 解析方括号内的引用组，任一条目不是引用时整体视为普通文本
+ */
+function parseCitationGroup(content: string): CitationItem[] | null {
+	const items: CitationItem[] = [];
+
+	for (const part of content.split(";")) {
+		const item = parseCitationItem(part);
+		if (!item) {
+			return null;
+		}
+		items.push(item);
+	}
+
+	return items;
+}
+
+export const remarkCitations: Plugin<[], Root> = () => {
+	return (tree) => {
+		visit(tree, "text", (node, index, parent) => {
+			if (!parent || typeof index !== "number") {
+				return;
+			}
+
+			const textNode = node as Text;
+			if (!textNode.value.includes("@")) {
+				return;
+			}
+
+			const value = textNode.value;
+			replaceInTextNode(parent, index, CITATION_GROUP_PATTERN, (match) => {
+				const items = parseCitationGroup(match[1]);
+				if (!items) {
+					return { type: "text", value: match[0] };
+				}
+
+				const next = value.charAt(match.index + match[0].length);
+				const citation: CitationNode = {
+					type: "citation",
+					items,
+					attached: WORD_CHAR.test(next) || undefined,
+				};
+				return citation;
+			});
+		});
+
+		return tree;
+	};
+};
@@ -1,10 +1,14 @@
 import type { Plugin } from "unified";
 import { visit } from "unist-util-visit";
 import type { Root, Text } from "mdast";
+import type { ObsidianCommentNode } from "../types";
 import { replaceInTextNode } from "./utils";
 
-const COMMENT_PATTERN = /%%[\s\S]*?%%/g;
+const COMMENT_PATTERN = /%%([\s\S]*?)%%/g;
 
+/**
+ * %%注释%% -> obsidianComment 节点（普通文档中不输出，幻灯片中作为演讲者备注）
+ */
 export const remarkComments: Plugin<[], Root> = () => {
 	return (tree) => {
 		visit(tree, "text", (node, index, parent) => {
@@ -17,7 +21,13 @@ export const remarkComments: Plugin<[], Root> = () => {
 				return;
 			}
 
-			replaceInTextNode(parent, index, COMMENT_PATTERN, () => []);
+			replaceInTextNode(parent, index, COMMENT_PATTERN, (match) => {
+				const comment: ObsidianCommentNode = {
+					type: "obsidianComment",
+					comment: match[1],
+				};
+				return comment;
+			});
 		});
 
 		return tree;
@@ -0,0 +1,169 @@
+import type { Plugin } from "unified";
+import type {
+	Content,
+	Image,
+	Paragraph,
+	PhrasingContent,
+	Root,
+	Table,
+	Text,
+} from "mdast";
+import type { Parent } from "unist";
+import type { EmbedDocumentNode, ObsidianFigureNode } from "../types";
+import { IMAGE_EXTENSIONS } from "./utils";
+
+const BLOCK_ID_TEXT = /^\s*\^([a-zA-Z0-9-]+)\s*$/;
+
+// 嵌入参数中表示尺寸/页码的写法（其余视为标题）
+const IMAGE_OPTION_PATTERN = /^\d+(\.\d+)?([a-zA-Z%]+)?$|=/;
+
+function isBlank(node: PhrasingContent): boolean {
+	return node.type === "text" && !(node as Text).value.trim();
+}
+
+function isImageEmbed(node: PhrasingContent): boolean {
+	if ((node.type as string) !== "embedDocument") {
+		return false;
+	}
+	const path = (node as unknown as EmbedDocumentNode).data?.originalPath ?? "";
+	const extension = path.split(".").pop()?.toLowerCase() ?? "";
+	return IMAGE_EXTENSIONS.has(extension);
+}
+
+function readBlockId(node: PhrasingContent): string | undefined {
+	if ((node.type as string) === "obsidianBlockRef") {
+		return (node as unknown as { value: string }).value;
+	}
+	if (node.type === "text") {
+		return BLOCK_ID_TEXT.exec((node as Text).value)?.[1];
+	}
+	return undefined;
+}
+
+function defaultCaption(node: PhrasingContent): PhrasingContent[] | undefined {
+	if (node.type === "image") {
+		const alt = (node as Image).alt?.trim();
+		return alt ? [{ type: "text", value: alt }] : undefined;
+	}
+
+	const parameters = (node as unknown as EmbedDocumentNode).data?.parameters;
+	if (parameters && !IMAGE_OPTION_PATTERN.test(parameters.trim())) {
+		return [{ type: "text", value: parameters.trim() }];
+	}
+	return undefined;
+}
+
+/**
+ * 解析只包含单张图片的段落：图片 [+ 换行斜体标题] [+ ^block-id]
+ */
+function parseImageParagraph(
+	paragraph: Paragraph
+): Pick<ObsidianFigureNode, "blockId" | "caption" | "children"> | null {
+	const parts = paragraph.children.filter((child) => !isBlank(child));
+	const [first, ...rest] = parts;
+
+	if (!first || (first.type !== "image" && !isImageEmbed(first))) {
+		return null;
+	}
+
+	let caption = defaultCaption(first);
+	let blockId: string | undefined;
+
+	for (const part of rest) {
+		const id = readBlockId(part);
+		if (id && !blockId) {
+			blockId = id;
+		} else if (part.type === "emphasis") {
+			caption = part.children;
+		} else {
+			return null;
+		}
+	}
+
+	return { blockId, caption, children: [first as Content] };
+}
+
+/**
+ * 读取块后紧随的斜体标题段落与 ^block-id 段落
+ * 两者也可位于同一段落，如 `*表格标题* ^tbl-x`
+ * @returns 需要移除的段落数量
+ */
+function readTrailingMeta(
+	siblings: Content[],
+	start: number,
+	figure: ObsidianFigureNode
+): number {
+	let consumed = 0;
+
+	for (let i = start; i < siblings.length && consumed < 2; i++) {
+		const sibling = siblings[i];
+		if (sibling.type !== "paragraph") {
+			break;
+		}
+
+		const parts = sibling.children.filter((child) => !isBlank(child));
+		let caption: PhrasingContent[] | undefined;
+		let blockId = figure.blockId;
+		let valid = parts.length > 0;
+
+		for (const part of parts) {
+			const id = readBlockId(part);
+			if (id && !blockId) {
+				blockId = id;
+			} else if (part.type === "emphasis" && !caption) {
+				caption = part.children;
+			} else {
+				valid = false;
+				break;
+			}
+		}
+		if (!valid) {
+			break;
+		}
+
+		figure.caption = caption ?? figure.caption;
+		figure.blockId = blockId;
+		consumed += 1;
+	}
+
+	return consumed;
+}
+
+function transformChildren(parent: Parent): void {
+	const children = parent.children as Content[];
+
+	for (let index = 0; index < children.length; index++) {
+		const child = children[index];
+		let figure: ObsidianFigureNode | null = null;
+
+		if (child.type === "paragraph") {
+			const parsed = parseImageParagraph(child);
+			if (parsed) {
+				figure = { type: "figure", kind: "image", ...parsed };
+			}
+		} else if (child.type === "table") {
+			figure = { type: "figure", kind: "table", children: [child as Table] };
+		}
+
+		if (!figure) {
+			if ("children" in child && child.type !== "table") {
+				transformChildren(child as Parent);
+			}
+			continue;
+		}
+
+		const consumed = readTrailingMeta(children, index + 1, figure);
+		children.splice(index, 1 + consumed, figure as unknown as Content);
+	}
+}
+
+/**
+ * 将独立成段的图片与表格包装为 figure 节点
+ * 标题来源：紧随其后的斜体行 > 图片 alt / 嵌入别名
+ */
+export const remarkFigures: Plugin<[], Root> = () => {
+	return (tree) => {
+		transformChildren(tree);
+		return tree;
+	};
+};
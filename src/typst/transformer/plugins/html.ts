@@ -0,0 +1,232 @@
+import type { Plugin } from "unified";
+import type { Content, Html, Root, Text } from "mdast";
+import type { Parent } from "unist";
+import type { HtmlElementNode } from "../types";
+import { PHRASING_PARENTS } from "./utils";
+
+// 单个开始/结束/自闭合标签
+const TAG_SOURCE = "<(\\/?)([a-zA-Z][\\w-]*)((?:\\s+[^<>]*?)?)\\s*(\\/?)>";
+const TAG_PATTERN = new RegExp(`<!--[\\s\\S]*?-->|${TAG_SOURCE}`, "g");
+const SINGLE_TAG_PATTERN = new RegExp(`^${TAG_SOURCE}$`);
+
+const ATTRIBUTE_PATTERN =
+	/([\w-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+// 可转换为 Typst 的标签，其余标签保留为 html 节点（转义输出）
+const SUPPORTED_TAGS = new Set([
+	"sup",
+	"sub",
+	"u",
+	"ins",
+	"s",
+	"del",
+	"strike",
+	"b",
+	"strong",
+	"i",
+	"em",
+	"kbd",
+	"mark",
+	"br",
+	"span",
+	"font",
+	"details",
+	"summary",
+]);
+
+const VOID_TAGS = new Set(["br"]);
+
+const ENTITIES: Record<string, string> = {
+	amp: "&",
+	lt: "<",
+	gt: ">",
+	quot: '"',
+	apos: "'",
+	nbsp: " ",
+};
+
+interface HtmlTag {
+	kind: "open" | "close" | "void";
+	name: string;
+	attributes: Record<string, string>;
+}
+
+function decodeEntities(value: string): string {
+	return value.replace(/&(#x?[0-9a-fA-F]+|\w+);/g, (match, entity: string) => {
+		if (entity.startsWith("#")) {
+			const hex = entity[1] === "x" || entity[1] === "X";
+			const code = hex
+				? parseInt(entity.slice(2), 16)
+				: parseInt(entity.slice(1), 10);
+			return Number.isNaN(code) ? match : String.fromCodePoint(code);
+		}
+		return ENTITIES[entity.toLowerCase()] ?? match;
+	});
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+	const attributes: Record<string, string> = {};
+	ATTRIBUTE_PATTERN.lastIndex = 0;
+	let match = ATTRIBUTE_PATTERN.exec(raw);
+
+	while (match) {
+		attributes[match[1].toLowerCase()] = decodeEntities(
+			match[2] ?? match[3] ?? match[4] ?? ""
+		);
+		match = ATTRIBUTE_PATTERN.exec(raw);
+	}
+
+	return attributes;
+}
+
+function parseTag(node: Content): HtmlTag | null {
+	if (node.type !== "html") {
+		return null;
+	}
+
+	const match = SINGLE_TAG_PATTERN.exec((node as Html).value.trim());
+	if (!match) {
+		return null;
+	}
+
+	const name = match[2].toLowerCase();
+	let kind: HtmlTag["kind"] = "open";
+	if (match[1]) {
+		kind = "close";
+	} else if (match[4] || VOID_TAGS.has(name)) {
+		kind = "void";
+	}
+
+	return { kind, name, attributes: parseAttributes(match[3]) };
+}
+
+/**
+ * 将包含多个标签与文本的 html 节点拆分为单个标签的 html 节点和文本节点
+ * 注释直接移除；块级位置上仅含空白的文本一并丢弃
+ */
+function splitHtmlNode(node: Html, inline: boolean): Content[] {
+	const value = node.value;
+
+	// 不含注释与支持的标签时保持原样，整体转义输出
+	const relevant = Array.from(value.matchAll(TAG_PATTERN)).some(
+		(match) =>
+			match[0].startsWith("<!--") ||
+			SUPPORTED_TAGS.has(match[2].toLowerCase())
+	);
+	if (!relevant) {
+		return [node];
+	}
+
+	const pieces: Content[] = [];
+	let lastIndex = 0;
+
+	const pushText = (text: string) => {
+		if (inline ? text : text.trim()) {
+			pieces.push({ type: "text", value: decodeEntities(text) } as Text);
+		}
+	};
+
+	TAG_PATTERN.lastIndex = 0;
+	let match = TAG_PATTERN.exec(value);
+
+	while (match) {
+		pushText(value.slice(lastIndex, match.index));
+		if (!match[0].startsWith("<!--")) {
+			pieces.push({ type: "html", value: match[0] });
+		}
+		lastIndex = match.index + match[0].length;
+		match = TAG_PATTERN.exec(value);
+	}
+
+	pushText(value.slice(lastIndex));
+	return pieces;
+}
+
+function findClosingTag(
+	children: Content[],
+	start: number,
+	name: string
+): number {
+	let depth = 0;
+
+	for (let i = start + 1; i < children.length; i++) {
+		const tag = parseTag(children[i]);
+		if (!tag || tag.name !== name) {
+			continue;
+		}
+		if (tag.kind === "open") {
+			depth += 1;
+		} else if (tag.kind === "close") {
+			if (depth === 0) {
+				return i;
+			}
+			depth -= 1;
+		}
+	}
+
+	return -1;
+}
+
+/**
+ * 将同一父节点下成对的开始/结束标签合并为 htmlElement 节点
+ * 无法配对或不支持的标签保持原样
+ */
+function pairElements(children: Content[]): Content[] {
+	const result: Content[] = [];
+	let index = 0;
+
+	while (index < children.length) {
+		const child = children[index];
+		const tag = parseTag(child);
+
+		if (tag && SUPPORTED_TAGS.has(tag.name) && tag.kind !== "close") {
+			const end =
+				tag.kind === "void"
+					? index
+					: findClosingTag(children, index, tag.name);
+
+			if (end !== -1) {
+				const element: HtmlElementNode = {
+					type: "htmlElement",
+					tagName: tag.name,
+					attributes: tag.attributes,
+					children: pairElements(children.slice(index + 1, end)),
+				};
+				result.push(element as Content);
+				index = end + 1;
+				continue;
+			}
+		}
+
+		result.push(child);
+		index += 1;
+	}
+
+	return result;
+}
+
+function transformChildren(parent: Parent): void {
+	const inline = PHRASING_PARENTS.has(parent.type);
+	const children = (parent.children as Content[]).flatMap((child) =>
+		child.type === "html" ? splitHtmlNode(child as Html, inline) : [child]
+	);
+
+	parent.children = pairElements(children);
+
+	for (const child of parent.children) {
+		if ("children" in child) {
+			transformChildren(child as Parent);
+		}
+	}
+}
+
+/**
+ * 将 HTML 标签（<sup>、<kbd>、<details> 等）转换为 htmlElement 节点
+ * 标签可跨越多个兄弟节点，例如 `a<sup>2</sup>` 或跨段落的 <details>
+ */
+export const remarkHtml: Plugin<[], Root> = () => {
+	return (tree) => {
+		transformChildren(tree);
+		return tree;
+	};
+};
@@ -5,3 +5,6 @@ export { remarkEmbeds } from "./embeds";
 export { remarkBlockRefs } from "./blockref";
 export { remarkHighlights } from "./highlights";
 export { remarkComments } from "./comments";
+export { remarkFigures } from "./figures";
+export { remarkHtml } from "./html";
+export { remarkCitations } from "./citations";
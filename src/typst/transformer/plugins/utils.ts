@@ -1,5 +1,29 @@
 import type { Parent, RootContent, Text } from "mdast";
 
+export const IMAGE_EXTENSIONS = new Set([
+	"png",
+	"jpg",
+	"jpeg",
+	"gif",
+	"bmp",
+	"svg",
+	"webp",
+	"avif",
+]);
+
+// 行内容器：其中的 HTML 属于行内内容
+export const PHRASING_PARENTS = new Set([
+	"paragraph",
+	"heading",
+	"emphasis",
+	"strong",
+	"delete",
+	"link",
+	"linkReference",
+	"tableCell",
+	"obsidianHighlight",
+]);
+
 export type TextReplacementBuilder =
 	| ((match: RegExpExecArray) => RootContent)
 	| ((match: RegExpExecArray) => RootContent[]);
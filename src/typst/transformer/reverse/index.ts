@@ -0,0 +1,20 @@
+import {
+	TypstToMarkdownConverter,
+	type TypstToMarkdownOptions,
+	type TypstToMarkdownResult,
+} from "./markup";
+
+/**
+ * 将 Typst 文档转换为 Obsidian Markdown
+ * 无法映射的内容保留为 ```typst 代码块（由 Typst 代码块渲染），并记录在 warnings 中
+ */
+export function typstToMarkdown(
+	typst: string,
+	options: TypstToMarkdownOptions = {}
+): TypstToMarkdownResult {
+	return new TypstToMarkdownConverter(options).convert(typst);
+}
+
+export { translateTypstMath } from "./math";
+export type { MathTranslationResult } from "./math";
+export type { TypstToMarkdownOptions, TypstToMarkdownResult };
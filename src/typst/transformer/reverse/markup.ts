@@ -0,0 +1,988 @@
+import { slugify } from "../generators/label";
+import { translateTypstMath } from "./math";
+import {
+	findClosing,
+	IDENTIFIER,
+	parseArguments,
+	parseCall,
+	parseContent,
+	parseString,
+	skipRaw,
+	type TypstCall,
+} from "./scanner";
+
+export interface TypstToMarkdownOptions {
+	/** Typst 文件在库中的路径，用于解析相对的图片路径 */
+	currentFile?: string;
+}
+
+export interface TypstToMarkdownResult {
+	markdown: string;
+	/** 无法映射、原样保留为 ```typst 代码块的内容 */
+	warnings: string[];
+}
+
+interface OutputBlock {
+	kind: "markdown" | "typst";
+	text: string;
+}
+
+// Markdown 中有特殊含义、需要转义的字符
+const MARKDOWN_SPECIAL = /[\\`*_[\]<>#$|~=%^]/;
+
+const LIST_ITEM = /^(\s*)([-+]|\d+\.|\/)\s/;
+const HEADING = /^(=+)\s+(.*)$/;
+const TRAILING_LABEL = /\s*<([\w\-.:]+)>\s*$/;
+const BLOCK_STATEMENT = /^#(set|show|let|import|include)\b/;
+
+/**
+ * Obsidian 块 ID 只允许字母、数字与连字符
+ */
+function toBlockId(label: string): string {
+	return label.replace(/[^A-Za-z0-9-]+/g, "-").replace(/(^-+|-+$)/g, "");
+}
+
+function escapeMarkdownChar(char: string): string {
+	return MARKDOWN_SPECIAL.test(char) ? `\\${char}` : char;
+}
+
+/**
+ * 去掉行内 Markdown 标记，得到 [[#标题]] 可用的标题文本
+ */
+function plainHeadingText(markdown: string): string {
+	return markdown
+		.replace(/\\(.)/g, "$1")
+		.replace(/[*_`=~]+/g, "")
+		.replace(/\s+\^[\w-]+$/, "")
+		.trim();
+}
+
+/**
+ * 找到 $ 数学公式的结束位置（跳过转义与字符串）
+ */
+function findMathEnd(source: string, index: number): number {
+	let i = index + 1;
+	while (i < source.length) {
+		const char = source[i];
+		if (char === "\\") {
+			i += 2;
+			continue;
+		}
+		if (char === '"') {
+			const close = /"(?:[^"\\]|\\.)*"/y;
+			close.lastIndex = i;
+			i = close.exec(source) ? close.lastIndex : i + 1;
+			continue;
+		}
+		if (char === "$") {
+			return i;
+		}
+		i += 1;
+	}
+	return -1;
+}
+
+/**
+ * 标记文本中是否有未闭合的函数调用、数学公式或 raw
+ */
+function isIncomplete(source: string): boolean {
+	let i = 0;
+	while (i < source.length) {
+		const char = source[i];
+		if (char === "\\") {
+			i += 2;
+		} else if (char === "`") {
+			const end = skipRaw(source, i);
+			if (end >= source.length && !source.endsWith("`")) {
+				return true;
+			}
+			i = end;
+		} else if (char === "$") {
+			const end = findMathEnd(source, i);
+			if (end === -1) {
+				return true;
+			}
+			i = end + 1;
+		} else if (char === "#") {
+			IDENTIFIER.lastIndex = i + 1;
+			const match = IDENTIFIER.exec(source);
+			let j = i + 1 + (match?.[0].length ?? 0);
+			while (source[j] === "(" || source[j] === "[" || source[j] === "{") {
+				const close = findClosing(source, j);
+				if (close === -1) {
+					return true;
+				}
+				j = close + 1;
+			}
+			i = Math.max(j, i + 1);
+		} else {
+			i += 1;
+		}
+	}
+	return false;
+}
+
+function dirname(path: string): string {
+	const index = path.lastIndexOf("/");
+	return index === -1 ? "" : path.slice(0, index);
+}
+
+function joinPath(base: string, relative: string): string {
+	const parts: string[] = base ? base.split("/") : [];
+	for (const segment of relative.split("/")) {
+		if (segment === "..") {
+			parts.pop();
+		} else if (segment && segment !== ".") {
+			parts.push(segment);
+		}
+	}
+	return parts.join("/");
+}
+
+/**
+ * Typst -> Obsidian Markdown 转换器
+ * 只处理常见的标记与函数，其余内容整块保留为 ```typst 代码块
+ */
+export class TypstToMarkdownConverter {
+	private readonly warnings: string[] = [];
+	private readonly footnotes: string[] = [];
+	private readonly headingLabels = new Map<string, string>();
+	private readonly frontmatter: Record<string, string | string[]> = {};
+
+	constructor(private readonly options: TypstToMarkdownOptions = {}) {}
+
+	convert(typst: string): TypstToMarkdownResult {
+		const source = typst.replace(/\r\n?/g, "\n");
+		this.collectHeadingLabels(source);
+
+		const sections: string[] = [];
+		const body = this.convertBlocks(source);
+
+		const keys = Object.keys(this.frontmatter);
+		if (keys.length) {
+			sections.push(
+				[
+					"---",
+					...keys.map((key) => {
+						const value = this.frontmatter[key];
+						return Array.isArray(value)
+							? `${key}:\n${value.map((item) => `  - ${JSON.stringify(item)}`).join("\n")}`
+							: `${key}: ${JSON.stringify(value)}`;
+					}),
+					"---",
+				].join("\n")
+			);
+		}
+		if (body) {
+			sections.push(body);
+		}
+		if (this.footnotes.length) {
+			sections.push(
+				this.footnotes
+					.map((text, index) => `[^${index + 1}]: ${text}`)
+					.join("\n")
+			);
+		}
+
+		return {
+			markdown: sections.length ? `${sections.join("\n\n")}\n` : "",
+			warnings: this.warnings,
+		};
+	}
+
+	/**
+	 * 预先收集标题的 label，使 @label 与 #link(<label>) 能改写为 [[#标题]]
+	 */
+	private collectHeadingLabels(source: string): void {
+		for (const line of source.split("\n")) {
+			const heading = HEADING.exec(line);
+			const label = heading ? TRAILING_LABEL.exec(heading[2]) : null;
+			if (heading && label) {
+				const text = this.convertInline(
+					heading[2].slice(0, label.index)
+				);
+				if (text !== null) {
+					this.headingLabels.set(label[1], plainHeadingText(text));
+				}
+			}
+		}
+	}
+
+	private convertBlocks(source: string): string {
+		const lines = source.split("\n");
+		const blocks: OutputBlock[] = [];
+		let index = 0;
+
+		const take = (count: number) => {
+			const taken = lines.slice(index, index + count).join("\n");
+			index += count;
+			return taken;
+		};
+
+		while (index < lines.length) {
+			const line = lines[index];
+			const trimmed = line.trim();
+
+			if (!trimmed) {
+				index += 1;
+				continue;
+			}
+
+			// raw 代码块与 Markdown 写法相同
+			const fence = /^(`{3,})/.exec(trimmed);
+			if (fence) {
+				let end = index + 1;
+				while (end < lines.length && !lines[end].trim().startsWith(fence[1])) {
+					end += 1;
+				}
+				blocks.push({ kind: "markdown", text: take(end - index + 1).trim() });
+				continue;
+			}
+
+			if (trimmed.startsWith("//")) {
+				let end = index;
+				while (end < lines.length && lines[end].trim().startsWith("//")) {
+					end += 1;
+				}
+				const comment = take(end - index)
+					.split("\n")
+					.map((text) => text.trim().replace(/^\/\/\s?/, ""))
+					.join("\n");
+				blocks.push({ kind: "markdown", text: `%%\n${comment}\n%%` });
+				continue;
+			}
+
+			if (trimmed.startsWith("/*")) {
+				let end = index;
+				while (end < lines.length && !lines[end].includes("*/")) {
+					end += 1;
+				}
+				const comment = take(end - index + 1)
+					.trim()
+					.replace(/^\/\*\s?/, "")
+					.replace(/\s?\*\/$/, "");
+				blocks.push({ kind: "markdown", text: `%%\n${comment}\n%%` });
+				continue;
+			}
+
+			const heading = HEADING.exec(line);
+			if (heading) {
+				blocks.push(this.convertHeading(take(1), heading[1].length, heading[2]));
+				continue;
+			}
+
+			// 独立成行（可跨行）的语句与函数调用单独成块
+			if (trimmed.startsWith("#")) {
+				let end = index + 1;
+				while (end < lines.length && isIncomplete(lines.slice(index, end).join("\n"))) {
+					end += 1;
+				}
+				const code = lines.slice(index, end).join("\n").trim();
+				const call = parseCall(code, 1);
+				const rest = call ? code.slice(call.end) : "";
+				if (BLOCK_STATEMENT.test(code) || (call && (!rest.trim() || TRAILING_LABEL.exec(rest)?.index === 0))) {
+					blocks.push(this.convertBlock(take(end - index), blocks));
+					continue;
+				}
+			}
+
+			// 其余块读取到空行为止（跨行的函数调用与公式读取完整）
+			let end = index + 1;
+			const isList = LIST_ITEM.test(line);
+			while (end < lines.length) {
+				const next = lines[end];
+				const complete = !isIncomplete(lines.slice(index, end).join("\n"));
+				if (complete && !next.trim()) {
+					// 列表项之间允许空行
+					const following = lines.slice(end).find((text) => text.trim());
+					if (!isList || !following || !/^\s/.test(following) && !LIST_ITEM.test(following)) {
+						break;
+					}
+				}
+				if (complete && (HEADING.test(next) || /^\s*```/.test(next))) {
+					break;
+				}
+				if (complete && !isList && LIST_ITEM.test(next)) {
+					break;
+				}
+				if (complete && isList && next.trim() && !/^\s/.test(next) && !LIST_ITEM.test(next)) {
+					break;
+				}
+				end += 1;
+			}
+
+			const text = take(end - index).replace(/\n+$/, "");
+			blocks.push(isList ? this.convertList(text) : this.convertBlock(text, blocks));
+		}
+
+		return this.joinBlocks(blocks);
+	}
+
+	/**
+	 * 合并相邻的保留块，输出 Markdown
+	 */
+	private joinBlocks(blocks: OutputBlock[]): string {
+		const merged: OutputBlock[] = [];
+		for (const block of blocks) {
+			if (!block.text) {
+				continue;
+			}
+			const last = merged[merged.length - 1];
+			if (block.kind === "typst" && last?.kind === "typst") {
+				last.text += `\n\n${block.text}`;
+			} else {
+				merged.push({ ...block });
+			}
+		}
+
+		return merged
+			.map((block) =>
+				block.kind === "typst" ? `\`\`\`typst\n${block.text}\n\`\`\`` : block.text
+			)
+			.join("\n\n");
+	}
+
+	private fallback(source: string): OutputBlock {
+		const firstLine = source.trim().split("\n")[0];
+		this.warnings.push(
+			`Kept as Typst: ${firstLine.length > 60 ? `${firstLine.slice(0, 60)}…` : firstLine}`
+		);
+		return { kind: "typst", text: source.trim() };
+	}
+
+	private convertHeading(source: string, level: number, content: string): OutputBlock {
+		const label = TRAILING_LABEL.exec(content);
+		const text = this.convertInline(label ? content.slice(0, label.index) : content);
+		if (text === null) {
+			return this.fallback(source);
+		}
+
+		// 与标题文本生成的 label 相同时省略，否则保留为块 ID
+		const blockId = label && label[1] !== slugify(plainHeadingText(text))
+			? toBlockId(label[1])
+			: "";
+		return {
+			kind: "markdown",
+			text: `${"#".repeat(Math.min(level, 6))} ${text}${blockId ? ` ^${blockId}` : ""}`,
+		};
+	}
+
+	private convertBlock(source: string, previous: OutputBlock[]): OutputBlock {
+		const trimmed = source.trim();
+
+		// 独立成行的函数调用
+		if (trimmed.startsWith("#") && !BLOCK_STATEMENT.test(trimmed)) {
+			const call = parseCall(trimmed, 1);
+			const rest = call ? trimmed.slice(call.end) : "";
+			const label = TRAILING_LABEL.exec(rest);
+			if (call && (!rest.trim() || label?.index === 0)) {
+				const converted = this.convertBlockCall(call, label?.[1], previous);
+				if (converted) {
+					return converted;
+				}
+			}
+		}
+
+		if (trimmed.startsWith("#set document(")) {
+			const call = parseCall(trimmed, "#set ".length);
+			if (call && call.end === trimmed.length && this.readDocumentSettings(call)) {
+				return { kind: "markdown", text: "" };
+			}
+		}
+
+		// 块级公式 $ ... $
+		if (/^\$\s/.test(trimmed) && findMathEnd(trimmed, 0) === trimmed.length - 1) {
+			const { latex, errors } = translateTypstMath(trimmed.slice(1, -1));
+			return errors.length
+				? this.fallback(source)
+				: { kind: "markdown", text: `$$\n${latex}\n$$` };
+		}
+
+		if (BLOCK_STATEMENT.test(trimmed) || trimmed.startsWith("#{")) {
+			return this.fallback(source);
+		}
+
+		const paragraph = this.convertParagraph(trimmed);
+		return paragraph === null
+			? this.fallback(source)
+			: { kind: "markdown", text: paragraph };
+	}
+
+	/**
+	 * 段落：末尾的 <label> 或 #label("id") 转为块 ID
+	 */
+	private convertParagraph(source: string): string | null {
+		const label = TRAILING_LABEL.exec(source);
+		const text = this.convertInline(label ? source.slice(0, label.index) : source);
+		if (text === null) {
+			return null;
+		}
+		return label ? `${text.trim()} ^${toBlockId(label[1])}` : text.trim();
+	}
+
+	/**
+	 * #set document(title, author, keywords) -> frontmatter
+	 */
+	private readDocumentSettings(call: TypstCall): boolean {
+		const { positional, named } = call.args;
+		if (positional.length) {
+			return false;
+		}
+
+		const values: Record<string, string | string[]> = {};
+		for (const [key, value] of Object.entries(named)) {
+			const text = parseString(value);
+			const list = /^\(([\s\S]*)\)$/.exec(value.trim());
+			const items = list
+				? parseArguments(list[1]).positional.map((item) => parseString(item))
+				: null;
+			if (text !== null) {
+				values[key] = text;
+			} else if (items && items.every((item): item is string => item !== null)) {
+				values[key] = items;
+			} else {
+				return false;
+			}
+		}
+		Object.assign(this.frontmatter, values);
+		return true;
+	}
+
+	private convertBlockCall(
+		call: TypstCall,
+		label: string | undefined,
+		previous: OutputBlock[]
+	): OutputBlock | null {
+		const blockId = label ? ` ^${toBlockId(label)}` : "";
+
+		switch (call.name) {
+			case "image": {
+				const image = this.convertImage(call);
+				return image === null ? null : { kind: "markdown", text: `${image}${blockId}` };
+			}
+			case "figure":
+				return this.convertFigure(call, blockId);
+			case "table": {
+				const table = this.convertTable(call);
+				return table === null ? null : { kind: "markdown", text: `${table}${blockId ? `\n\n${blockId.trim()}` : ""}` };
+			}
+			case "quote":
+				return this.convertQuote(call, blockId);
+			case "line":
+				return { kind: "markdown", text: "---" };
+			case "label": {
+				// 独立的 #label("id")：附加到上一个块
+				const id = parseString(call.args.positional[0]);
+				const last = previous[previous.length - 1];
+				if (id !== null && last?.kind === "markdown") {
+					last.text += ` ^${toBlockId(id)}`;
+					return { kind: "markdown", text: "" };
+				}
+				return null;
+			}
+		}
+		return null;
+	}
+
+	private convertImage(call: TypstCall): string | null {
+		const path = parseString(call.args.positional[0]);
+		if (path === null) {
+			return null;
+		}
+
+		const alt = parseString(call.args.named.alt) ?? "";
+		if (/^[a-z]+:\/\//i.test(path)) {
+			return `![${alt}](${path})`;
+		}
+
+		// 以 / 开头的路径相对于库根目录，其余相对于 Typst 文件
+		const vaultPath = path.startsWith("/")
+			? joinPath("", path)
+			: joinPath(dirname(this.options.currentFile ?? ""), path);
+		const width = /^(\d+(?:\.\d+)?)(pt|px)$/.exec(call.args.named.width?.trim() ?? "");
+		return `![[${vaultPath}${width ? `|${Math.round(Number(width[1]))}` : ""}]]`;
+	}
+
+	private convertFigure(call: TypstCall, blockId: string): OutputBlock | null {
+		const body = call.args.positional[0] ?? (call.bodies.length ? `[${call.bodies[0]}]` : "");
+		let content: string | null = null;
+
+		const inner = parseContent(body);
+		const code = inner !== null ? inner.trim().replace(/^#/, "") : body.trim();
+		const innerCall = parseCall(code, 0);
+		if (innerCall && innerCall.end === code.length) {
+			if (innerCall.name === "image") {
+				content = this.convertImage(innerCall);
+			} else if (innerCall.name === "table") {
+				content = this.convertTable(innerCall);
+			}
+		}
+		if (content === null) {
+			return null;
+		}
+
+		const captionSource = parseContent(call.args.named.caption);
+		const caption = captionSource === null ? "" : this.convertInline(captionSource.trim());
+		if (caption === null) {
+			return null;
+		}
+		// 标题放在其后的斜体行，与正向转换的 figure 约定一致
+		const lines = [content];
+		if (caption || blockId) {
+			lines.push(`${caption ? `*${caption}*` : ""}${blockId}`.trim());
+		}
+		return { kind: "markdown", text: lines.join("\n") };
+	}
+
+	private convertTable(call: TypstCall): string | null {
+		const columnsValue = call.args.named.columns?.trim() ?? "1";
+		let columns = Number(columnsValue);
+		if (!Number.isInteger(columns)) {
+			const list = /^\(([\s\S]*)\)$/.exec(columnsValue);
+			columns = list ? parseArguments(list[1]).positional.length : NaN;
+		}
+		if (!Number.isInteger(columns) || columns < 1) {
+			return null;
+		}
+
+		const toCell = (value: string): string | null => {
+			const content = parseContent(value);
+			const text =
+				content !== null
+					? content.trim()
+					: parseString(value) !== null
+						? (parseString(value) ?? "").replace(/[*_#$`\\]/g, "\\$&")
+						: null;
+			if (text === null || /\n\s*\n/.test(text)) {
+				return null;
+			}
+			const converted = this.convertInline(text.replace(/\s*\n\s*/g, " "));
+			return converted === null ? null : converted.replace(/\|/g, "\\|");
+		};
+
+		let header: string[] | null = null;
+		const cells: string[] = [];
+		for (const value of call.args.positional) {
+			const trimmed = value.trim();
+			if (/^table\.(hline|vline)\(/.test(trimmed)) {
+				continue;
+			}
+			const nested = parseCall(trimmed, 0);
+			if (nested?.name === "table.header" && nested.end === trimmed.length) {
+				const headerCells = nested.args.positional.map(toCell);
+				if (headerCells.some((cell) => cell === null)) {
+					return null;
+				}
+				header = headerCells as string[];
+				continue;
+			}
+			const cell = toCell(trimmed);
+			if (cell === null) {
+				return null;
+			}
+			cells.push(cell);
+		}
+
+		const rows: string[][] = [];
+		for (let i = 0; i < cells.length; i += columns) {
+			const row = cells.slice(i, i + columns);
+			while (row.length < columns) {
+				row.push("");
+			}
+			rows.push(row);
+		}
+		// GFM 表格需要表头，没有 table.header 时以第一行作为表头
+		const head = header ?? rows.shift() ?? new Array<string>(columns).fill("");
+		const format = (row: string[]) => `| ${row.join(" | ")} |`;
+		return [format(head), format(head.map(() => "---")), ...rows.map(format)].join("\n");
+	}
+
+	private convertQuote(call: TypstCall, blockId: string): OutputBlock | null {
+		const body = call.bodies[0] ?? parseContent(call.args.positional[0]);
+		if (body === null || body === undefined) {
+			return null;
+		}
+
+		const inner = new TypstToMarkdownConverter(this.options);
+		inner.headingLabels.forEach((value, key) => inner.headingLabels.set(key, value));
+		const result = inner.convert(body.trim());
+		if (result.warnings.length) {
+			return null;
+		}
+		// 脚注编号接续外层文档
+		const markdown = result.markdown.trim().replace(/\[\^(\d+)\](?!:)/g, (_, n: string) => {
+			return `[^${this.footnotes.length + Number(n)}]`;
+		});
+		const lines = markdown.split("\n").filter((line) => !/^\[\^\d+\]:/.test(line));
+		this.footnotes.push(...inner.footnotes);
+
+		const attributionSource = parseContent(call.args.named.attribution);
+		const attribution = attributionSource === null
+			? parseString(call.args.named.attribution)
+			: this.convertInline(attributionSource.trim());
+		if (attribution) {
+			lines.push("", `— ${attribution}`);
+		}
+
+		return {
+			kind: "markdown",
+			text: `${lines.map((line) => (line ? `> ${line}` : ">")).join("\n")}${blockId ? `\n\n${blockId.trim()}` : ""}`,
+		};
+	}
+
+	/**
+	 * 列表：- 无序、+ 与 1. 有序、/ 术语列表
+	 */
+	private convertList(source: string): OutputBlock {
+		interface Item {
+			indent: number;
+			marker: string;
+			lines: string[];
+		}
+
+		const items: Item[] = [];
+		for (const line of source.split("\n")) {
+			const item = LIST_ITEM.exec(line);
+			if (item) {
+				items.push({
+					indent: item[1].length,
+					marker: item[2],
+					lines: [line.slice(item[0].length)],
+				});
+			} else if (items.length) {
+				items[items.length - 1].lines.push(line.trim());
+			}
+		}
+
+		const output: string[] = [];
+		// 祖先列表项的缩进与对应的 Markdown 内容列宽
+		const stack: Array<{ indent: number; width: number }> = [];
+		let topMarker: string | null = null;
+		for (const item of items) {
+			while (stack.length && stack[stack.length - 1].indent >= item.indent) {
+				stack.pop();
+			}
+			// 顶层列表种类变化时用空行分隔，避免合并为一个列表
+			if (!stack.length) {
+				if (topMarker !== null && topMarker !== item.marker) {
+					output.push("");
+				}
+				topMarker = item.marker;
+			}
+			const prefix = " ".repeat(stack.reduce((sum, level) => sum + level.width, 0));
+
+			let marker: string;
+			let text = item.lines.join("\n").trim();
+			if (item.marker === "/") {
+				const term = /^([^:]*):\s*([\s\S]*)$/.exec(text);
+				if (!term) {
+					return this.fallback(source);
+				}
+				const termText = this.convertInline(term[1].trim());
+				if (termText === null) {
+					return this.fallback(source);
+				}
+				marker = "-";
+				text = term[2];
+				const description = this.convertInline(text);
+				if (description === null) {
+					return this.fallback(source);
+				}
+				output.push(`${prefix}- **${termText}**: ${description.replace(/\n/g, `\n${prefix}  `)}`);
+				stack.push({ indent: item.indent, width: 2 });
+				continue;
+			}
+
+			marker = item.marker === "-" ? "-" : item.marker === "+" ? "1." : item.marker;
+			const converted = this.convertInline(text);
+			if (converted === null) {
+				return this.fallback(source);
+			}
+			const width = marker.length + 1;
+			output.push(
+				`${prefix}${marker} ${converted.replace(/\n/g, `\n${prefix}${" ".repeat(width)}`)}`
+			);
+			stack.push({ indent: item.indent, width });
+		}
+
+		return { kind: "markdown", text: output.join("\n") };
+	}
+
+	/**
+	 * 行内标记；存在无法映射的内容时返回 null
+	 */
+	convertInline(source: string): string | null {
+		let output = "";
+		let i = 0;
+
+		while (i < source.length) {
+			const char = source[i];
+			const next = source[i + 1];
+
+			if (char === "\\") {
+				if (next === undefined || next === "\n" || next === " ") {
+					output += "\\\n";
+					i += next === undefined ? 1 : 2;
+					while (source[i] === " ") {
+						i += 1;
+					}
+					continue;
+				}
+				if (next === "u" && source[i + 2] === "{") {
+					const end = source.indexOf("}", i);
+					output += String.fromCodePoint(parseInt(source.slice(i + 3, end), 16));
+					i = end + 1;
+					continue;
+				}
+				output += escapeMarkdownChar(next);
+				i += 2;
+				continue;
+			}
+
+			if (char === "/" && next === "/") {
+				const end = source.indexOf("\n", i);
+				const comment = source.slice(i + 2, end === -1 ? undefined : end).trim();
+				output += `%%${comment}%%`;
+				i = end === -1 ? source.length : end;
+				continue;
+			}
+
+			if (char === "/" && next === "*") {
+				const end = source.indexOf("*/", i);
+				if (end === -1) {
+					return null;
+				}
+				output += `%%${source.slice(i + 2, end).trim()}%%`;
+				i = end + 2;
+				continue;
+			}
+
+			if (char === "*" || char === "_") {
+				const end = this.findDelimiter(source, i + 1, char);
+				if (end === -1) {
+					return null;
+				}
+				const inner = this.convertInline(source.slice(i + 1, end));
+				if (inner === null) {
+					return null;
+				}
+				output += char === "*" ? `**${inner}**` : `*${inner}*`;
+				i = end + 1;
+				continue;
+			}
+
+			if (char === "`") {
+				const end = skipRaw(source, i);
+				const raw = source.slice(i, end);
+				// ```lang code``` 形式的行内 raw 去掉语言标记
+				const block = /^(`{3,})(\w+)\s([\s\S]*?)\1$/.exec(raw);
+				output += block ? `\`${block[3]}\`` : raw;
+				i = end;
+				continue;
+			}
+
+			if (char === "$") {
+				const end = findMathEnd(source, i);
+				if (end === -1) {
+					return null;
+				}
+				const content = source.slice(i + 1, end);
+				const { latex, errors } = translateTypstMath(content);
+				if (errors.length) {
+					return null;
+				}
+				const display = /^\s/.test(content) && /\s$/.test(content);
+				output += display ? `$$${latex}$$` : `$${latex}$`;
+				i = end + 1;
+				continue;
+			}
+
+			if (char === "@") {
+				const reference = /^@([\w\-.:]*[\w-])(?:\[([^\]]*)\])?/.exec(source.slice(i));
+				if (reference) {
+					output += this.convertReference(reference[1], reference[2]);
+					i += reference[0].length;
+					continue;
+				}
+			}
+
+			if (char === "<") {
+				// 行内 label 无对应语法，省略
+				const label = /^<[\w\-.:]+>/.exec(source.slice(i));
+				if (label) {
+					output = output.replace(/ $/, "");
+					i += label[0].length;
+					continue;
+				}
+			}
+
+			if (char === "#") {
+				const call = parseCall(source, i + 1);
+				const converted = call ? this.convertInlineCall(call) : null;
+				if (!call || converted === null) {
+					return null;
+				}
+				output += output.endsWith(" ") ? converted.replace(/^ /, "") : converted;
+				i = call.end;
+				continue;
+			}
+
+			if (char === "~") {
+				output += " ";
+				i += 1;
+				continue;
+			}
+
+			if (char === "-" && next === "-") {
+				const em = source[i + 2] === "-";
+				output += em ? "—" : "–";
+				i += em ? 3 : 2;
+				continue;
+			}
+
+			if (char === "-" && next === "?") {
+				i += 2;
+				continue;
+			}
+
+			// Typst 中的普通文本在 Markdown 中可能有特殊含义（链接、HTML、高亮、注释）
+			if (
+				char === "[" ||
+				char === "]" ||
+				(char === "<" && /[A-Za-z/!]/.test(next ?? "")) ||
+				((char === "=" || char === "%") && next === char)
+			) {
+				output += `\\${char}`;
+			} else if (char === "\n") {
+				output += "\n";
+				while (source[i + 1] === " " || source[i + 1] === "\t") {
+					i += 1;
+				}
+			} else {
+				output += char;
+			}
+			i += 1;
+		}
+
+		return output;
+	}
+
+	/**
+	 * 找到与 *、_ 配对的结束标记（跳过转义、raw、公式与函数调用）
+	 */
+	private findDelimiter(source: string, start: number, delimiter: string): number {
+		let i = start;
+		while (i < source.length) {
+			const char = source[i];
+			if (char === "\\") {
+				i += 2;
+			} else if (char === "`") {
+				i = skipRaw(source, i);
+			} else if (char === "$") {
+				const end = findMathEnd(source, i);
+				i = end === -1 ? source.length : end + 1;
+			} else if (char === "#") {
+				const call = parseCall(source, i + 1);
+				i = call ? call.end : i + 1;
+			} else if (char === delimiter) {
+				return i;
+			} else {
+				i += 1;
+			}
+		}
+		return -1;
+	}
+
+	/**
+	 * @label：指向标题时改为 [[#标题]]，否则视为文献引用
+	 */
+	private convertReference(label: string, supplement?: string): string {
+		const heading = this.headingLabels.get(label);
+		if (heading) {
+			return supplement ? `[[#${heading}|${supplement}]]` : `[[#${heading}]]`;
+		}
+		return supplement ? `[@${label}, ${supplement}]` : `[@${label}]`;
+	}
+
+	private convertBody(call: TypstCall): string | null {
+		const body = call.bodies[0] ?? parseContent(call.args.positional[0]);
+		return body === null || body === undefined ? null : this.convertInline(body);
+	}
+
+	private convertInlineCall(call: TypstCall): string | null {
+		const wrap = (before: string, after = before) => {
+			const body = this.convertBody(call);
+			return body === null ? null : `${before}${body}${after}`;
+		};
+
+		switch (call.name) {
+			case "strong":
+				return wrap("**");
+			case "emph":
+				return wrap("*");
+			case "strike":
+				return wrap("~~");
+			case "highlight":
+				return wrap("==");
+			case "underline":
+				return wrap("<u>", "</u>");
+			case "super":
+				return wrap("<sup>", "</sup>");
+			case "sub":
+				return wrap("<sub>", "</sub>");
+			case "linebreak":
+				return "\\\n";
+			case "parbreak":
+				return "\n\n";
+			case "image":
+				return this.convertImage(call);
+			case "label": {
+				const id = parseString(call.args.positional[0]);
+				return id === null ? null : ` ^${toBlockId(id)}`;
+			}
+			case "cite": {
+				const key = /^<([\w\-.:]+)>$/.exec(call.args.positional[0]?.trim() ?? "");
+				const supplement = parseContent(call.args.named.supplement);
+				return key ? `[@${key[1]}${supplement ? `, ${supplement.trim()}` : ""}]` : null;
+			}
+			case "ref": {
+				const key = /^<([\w\-.:]+)>$/.exec(call.args.positional[0]?.trim() ?? "");
+				return key ? this.convertReference(key[1]) : null;
+			}
+			case "footnote": {
+				const body = this.convertBody(call);
+				if (body === null) {
+					return null;
+				}
+				this.footnotes.push(body.replace(/\n/g, " "));
+				return `[^${this.footnotes.length}]`;
+			}
+			case "link":
+				return this.convertLink(call);
+			case "quote":
+				return wrap("“", "”");
+		}
+		return null;
+	}
+
+	private convertLink(call: TypstCall): string | null {
+		const target = call.args.positional[0]?.trim() ?? "";
+		const body = call.bodies.length ? this.convertInline(call.bodies[0]) : "";
+		if (body === null) {
+			return null;
+		}
+
+		const label = /^<([\w\-.:]+)>$/.exec(target);
+		if (label) {
+			const heading = this.headingLabels.get(label[1]);
+			const anchor = heading ?? `^${toBlockId(label[1])}`;
+			return body && body !== heading ? `[[#${anchor}|${body}]]` : `[[#${anchor}]]`;
+		}
+
+		const url = parseString(target);
+		if (url === null) {
+			return null;
+		}
+		return body ? `[${body}](${url.replace(/ /g, "%20")})` : `<${url}>`;
+	}
+}
@@ -0,0 +1,432 @@
+import {
+	ACCENTS,
+	DECORATIONS,
+	FONTS,
+	MATRIX_DELIMITERS,
+	OPERATORS,
+	SYMBOLS,
+} from "../latex/symbols";
+import { findClosing, parseArguments, parseString, splitRows } from "./scanner";
+
+export interface MathTranslationResult {
+	latex: string;
+	errors: string[];
+}
+
+/**
+ * 反转 LaTeX -> Typst 对照表，同一 Typst 名称以表中第一个 LaTeX 命令为准
+ */
+function invert(table: Record<string, string>): Map<string, string> {
+	const inverted = new Map<string, string>();
+	for (const [latex, typst] of Object.entries(table)) {
+		if (typst && !inverted.has(typst)) {
+			inverted.set(typst, latex);
+		}
+	}
+	return inverted;
+}
+
+const SYMBOL_COMMANDS = invert(SYMBOLS);
+const ACCENT_COMMANDS = invert(ACCENTS);
+const FONT_COMMANDS = invert(FONTS);
+const DECORATION_COMMANDS = invert(DECORATIONS);
+
+// Typst 特有的别名与间距
+const EXTRA_SYMBOLS: Record<string, string> = {
+	oo: "\\infty",
+	dif: "\\mathrm{d}",
+	dots: "\\dots",
+	thin: "\\,",
+	med: "\\:",
+	thick: "\\;",
+	quad: "\\quad",
+	wide: "\\qquad",
+	space: "\\ ",
+	"arrow.r": "\\rightarrow",
+	"arrow.l": "\\leftarrow",
+	"arrow.l.r": "\\leftrightarrow",
+	"arrow.r.double": "\\Rightarrow",
+	"arrow.l.double": "\\Leftarrow",
+	"eq.not": "\\neq",
+	"lt.eq": "\\leq",
+	"gt.eq": "\\geq",
+	"dots.h": "\\ldots",
+};
+
+// 符号简写（-> <= ...），按长度降序以便最长匹配
+const SHORTHANDS = [...SYMBOL_COMMANDS.keys()]
+	.filter((name) => !/^[\p{L}\p{N}]/u.test(name))
+	.sort((a, b) => b.length - a.length);
+
+const MATRIX_ENVIRONMENTS: Record<string, string> = {
+	'"("': "pmatrix",
+	'"["': "bmatrix",
+	'"{"': "Bmatrix",
+	'"|"': "vmatrix",
+	'"||"': "Vmatrix",
+	"#none": "matrix",
+	none: "matrix",
+};
+
+interface Atom {
+	latex: string;
+	inner?: string; // 圆括号分组的内部，用作上下标与分数时去掉括号
+}
+
+function braced(atom: Atom): string {
+	const value = atom.inner ?? atom.latex;
+	return /^[\p{L}\p{N}]$/u.test(value) ? value : `{${value}}`;
+}
+
+class TypstMathTranslator {
+	private index = 0;
+	readonly errors: string[] = [];
+
+	constructor(private readonly source: string) {}
+
+	translate(): string {
+		return this.readSequence(this.source.length).trim();
+	}
+
+	private readSequence(end: number): string {
+		const items: string[] = [];
+
+		while (this.index < end) {
+			const char = this.source[this.index];
+
+			if (/\s/.test(char)) {
+				while (this.index < end && /\s/.test(this.source[this.index])) {
+					this.index += 1;
+				}
+				items.push(" ");
+				continue;
+			}
+
+			if (char === "/") {
+				this.index += 1;
+				while (items.length && items[items.length - 1] === " ") {
+					items.pop();
+				}
+				this.skipSpaces(end);
+				const numerator = items.pop();
+				const denominator = this.readAttached(end);
+				if (numerator === undefined || !denominator) {
+					this.errors.push("incomplete fraction");
+					continue;
+				}
+				items.push(
+					`\\frac{${this.lastInner ?? numerator}}{${denominator.inner ?? denominator.latex}}`
+				);
+				this.lastInner = undefined;
+				continue;
+			}
+
+			const atom = this.readAttached(end);
+			if (atom) {
+				items.push(atom.latex);
+				this.lastInner = atom.inner;
+			}
+		}
+
+		return this.join(items);
+	}
+
+	// 最近一个原子的分组内部，供其后的分数使用
+	private lastInner: string | undefined;
+
+	private join(items: string[]): string {
+		let result = "";
+		for (const item of items) {
+			if (item === " ") {
+				result += result.endsWith(" ") || !result ? "" : " ";
+				continue;
+			}
+			if (/\\[A-Za-z]+$/.test(result) && /^[A-Za-z]/.test(item)) {
+				result += " ";
+			}
+			result += item;
+		}
+		return result;
+	}
+
+	private skipSpaces(end: number): void {
+		while (this.index < end && /\s/.test(this.source[this.index])) {
+			this.index += 1;
+		}
+	}
+
+	/**
+	 * 读取一个原子及其上下标
+	 */
+	private readAttached(end: number): Atom | null {
+		const base = this.readAtom(end);
+		if (!base) {
+			return null;
+		}
+
+		let latex = base.latex;
+		let attached = false;
+		while (this.index < end && /[_^]/.test(this.source[this.index])) {
+			const marker = this.source[this.index];
+			this.index += 1;
+			const script = this.readAtom(end);
+			if (!script) {
+				this.errors.push(`missing ${marker === "_" ? "subscript" : "superscript"}`);
+				break;
+			}
+			latex += `${marker}${braced(script)}`;
+			attached = true;
+		}
+		return attached ? { latex } : base;
+	}
+
+	private readAtom(end: number): Atom | null {
+		const source = this.source;
+		const char = source[this.index];
+
+		// 分组
+		if (char === "(") {
+			const close = this.closingWithin(end);
+			if (close === -1) {
+				return null;
+			}
+			const inner = this.translateRange(this.index + 1, close);
+			this.index = close + 1;
+			return { latex: `(${inner})`, inner };
+		}
+
+		// 文本
+		if (char === '"') {
+			const match = /^"((?:[^"\\]|\\.)*)"/.exec(source.slice(this.index, end));
+			if (!match) {
+				this.errors.push("unterminated string");
+				this.index = end;
+				return null;
+			}
+			this.index += match[0].length;
+			return { latex: `\\text{${parseString(match[0])}}` };
+		}
+
+		// 换行与转义
+		if (char === "\\") {
+			const next = source[this.index + 1];
+			if (next === undefined || /\s/.test(next)) {
+				this.index += 1;
+				return { latex: "\\\\" };
+			}
+			this.index += 2;
+			return { latex: /[{}%$#&_]/.test(next) ? `\\${next}` : next };
+		}
+
+		if (char === "&") {
+			this.index += 1;
+			return { latex: "&" };
+		}
+
+		if (char === "#") {
+			this.errors.push("code expressions in math are not supported");
+			this.index = end;
+			return null;
+		}
+
+		// 数字
+		const number = /^\d+(?:\.\d+)?/.exec(source.slice(this.index, end));
+		if (number) {
+			this.index += number[0].length;
+			return { latex: number[0] };
+		}
+
+		// 标识符（单个字母为变量，多字母为符号或函数）
+		const identifier = /^(?:[A-Za-z][A-Za-z]+(?:\.[A-Za-z]+)*|[A-Za-z])/.exec(
+			source.slice(this.index, end)
+		);
+		if (identifier) {
+			this.index += identifier[0].length;
+			if (source[this.index] === "(" && identifier[0].length > 1) {
+				return this.readFunction(identifier[0], end);
+			}
+			return { latex: this.translateIdentifier(identifier[0]) };
+		}
+
+		// 符号简写
+		const rest = source.slice(this.index, end);
+		const shorthand = SHORTHANDS.find((name) => rest.startsWith(name));
+		if (shorthand && shorthand.length > 1) {
+			this.index += shorthand.length;
+			return { latex: `\\${SYMBOL_COMMANDS.get(shorthand)}` };
+		}
+
+		// 其他字符按码点原样输出
+		const codePoint = source.codePointAt(this.index) ?? 0;
+		const value = String.fromCodePoint(codePoint);
+		this.index += value.length;
+		return { latex: /[{}%$#]/.test(value) ? `\\${value}` : value };
+	}
+
+	private closingWithin(end: number): number {
+		const close = findClosing(this.source, this.index);
+		if (close === -1 || close >= end) {
+			this.errors.push("unbalanced parentheses");
+			this.index = end;
+			return -1;
+		}
+		return close;
+	}
+
+	private translateRange(start: number, end: number): string {
+		const saved = this.index;
+		this.index = start;
+		const result = this.readSequence(end).trim();
+		this.index = saved;
+		return result;
+	}
+
+	private translateArgument(value: string): string {
+		const translator = new TypstMathTranslator(value);
+		const latex = translator.translate();
+		this.errors.push(...translator.errors);
+		return latex;
+	}
+
+	private translateIdentifier(name: string): string {
+		if (name.length === 1) {
+			return name;
+		}
+		if (EXTRA_SYMBOLS[name]) {
+			return EXTRA_SYMBOLS[name];
+		}
+		const command = SYMBOL_COMMANDS.get(name);
+		if (command) {
+			return `\\${command}`;
+		}
+		if (OPERATORS.has(name)) {
+			return `\\${name}`;
+		}
+		this.errors.push(`unknown symbol "${name}"`);
+		return name;
+	}
+
+	private readFunction(name: string, end: number): Atom | null {
+		const close = this.closingWithin(end);
+		if (close === -1) {
+			return null;
+		}
+		const argsSource = this.source.slice(this.index + 1, close);
+		this.index = close + 1;
+
+		const { positional, named } = parseArguments(argsSource);
+		const arg = (index: number) => this.translateArgument(positional[index] ?? "");
+
+		switch (name) {
+			case "frac":
+				return { latex: `\\frac{${arg(0)}}{${arg(1)}}` };
+			case "binom":
+				return { latex: `\\binom{${arg(0)}}{${arg(1)}}` };
+			case "sqrt":
+				return { latex: `\\sqrt{${arg(0)}}` };
+			case "root":
+				return { latex: `\\sqrt[${arg(0)}]{${arg(1)}}` };
+			case "abs":
+				return { latex: `\\left| ${arg(0)} \\right|` };
+			case "norm":
+				return { latex: `\\left\\| ${arg(0)} \\right\\|` };
+			case "floor":
+				return { latex: `\\lfloor ${arg(0)} \\rfloor` };
+			case "ceil":
+				return { latex: `\\lceil ${arg(0)} \\rceil` };
+			case "lr":
+				return { latex: this.translateDelimited(arg(0)) };
+			case "op": {
+				const text = parseString(positional[0]);
+				return text === null
+					? { latex: `\\operatorname{${arg(0)}}` }
+					: { latex: `\\operatorname{${text}}` };
+			}
+			case "upright": {
+				const text = parseString(positional[0]);
+				return { latex: `\\mathrm{${text ?? arg(0)}}` };
+			}
+			case "overbrace":
+			case "underbrace": {
+				const note = positional[1] ? `${name === "overbrace" ? "^" : "_"}{${arg(1)}}` : "";
+				return { latex: `\\${name}{${arg(0)}}${note}` };
+			}
+			case "mat":
+				return { latex: this.translateMatrix(argsSource, named.delim) };
+			case "vec":
+				return {
+					latex: this.wrapEnvironment(
+						MATRIX_ENVIRONMENTS[named.delim ?? '"("'] ?? "pmatrix",
+						positional.map((_, i) => arg(i)).join(" \\\\ ")
+					),
+				};
+			case "cases":
+				return {
+					latex: this.wrapEnvironment(
+						"cases",
+						positional.map((_, i) => arg(i)).join(" \\\\ ")
+					),
+				};
+		}
+
+		const accent = ACCENT_COMMANDS.get(name);
+		if (accent) {
+			return { latex: `\\${accent}{${arg(0)}}` };
+		}
+		const font = FONT_COMMANDS.get(name);
+		if (font) {
+			return { latex: `\\${font}{${arg(0)}}` };
+		}
+		const decoration = DECORATION_COMMANDS.get(name);
+		if (decoration) {
+			return { latex: `\\${decoration}{${arg(0)}}` };
+		}
+
+		this.errors.push(`unsupported function "${name}"`);
+		return { latex: name };
+	}
+
+	private translateDelimited(inner: string): string {
+		const pairs: Record<string, string> = { "(": ")", "[": "]", "|": "|", "\\{": "\\}" };
+		const open = Object.keys(pairs).find((key) => inner.startsWith(key));
+		if (open && inner.endsWith(pairs[open])) {
+			return `\\left${open} ${inner
+				.slice(open.length, -pairs[open].length)
+				.trim()} \\right${pairs[open]}`;
+		}
+		return inner;
+	}
+
+	private translateMatrix(argsSource: string, delim?: string): string {
+		// 行以分号分隔；去掉 delim 等命名参数
+		const rows = splitRows(argsSource)
+			.map((row) =>
+				parseArguments(row)
+					.positional.map((cell) => this.translateArgument(cell))
+					.join(" & ")
+			)
+			.filter(Boolean);
+		const environment =
+			MATRIX_ENVIRONMENTS[delim ?? MATRIX_DELIMITERS.pmatrix] ?? "pmatrix";
+		return this.wrapEnvironment(environment, rows.join(" \\\\ "));
+	}
+
+	private wrapEnvironment(name: string, body: string): string {
+		return `\\begin{${name}} ${body} \\end{${name}}`;
+	}
+}
+
+/**
+ * 将 Typst 数学语法翻译为 LaTeX（Obsidian/MathJax 可渲染）
+ * 无法翻译的函数与符号记录在 errors 中，由调用方决定如何降级
+ */
+export function translateTypstMath(typst: string): MathTranslationResult {
+	const translator = new TypstMathTranslator(typst);
+	let latex = translator.translate();
+
+	// 多行公式使用 aligned 环境
+	if (/(^|[^\\])\\\\/.test(latex.replace(/\\begin\{(\w+)\}.*?\\end\{\1\}/g, ""))) {
+		latex = `\\begin{aligned} ${latex} \\end{aligned}`;
+	}
+	return { latex, errors: translator.errors };
+}
@@ -0,0 +1,202 @@
+/**
+ * Typst 源码扫描：配对括号、函数调用与参数
+ * 只覆盖反向转换需要的语法子集，无法识别的结构由调用方降级处理
+ */
+
+const CLOSING: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+
+export const IDENTIFIER = /[A-Za-z_][\w-]*(?:\.[A-Za-z_][\w-]*)*/y;
+
+/**
+ * 一次函数调用：`name(args)[body][body]`
+ */
+export interface TypstCall {
+	name: string;
+	args: TypstArguments;
+	bodies: string[]; // 尾随的内容块（不含方括号）
+	end: number; // 调用结束后的位置
+}
+
+export interface TypstArguments {
+	positional: string[];
+	named: Record<string, string>;
+}
+
+/**
+ * 跳过字符串字面量，返回结束引号之后的位置
+ */
+function skipString(source: string, index: number): number {
+	let i = index + 1;
+	while (i < source.length && source[i] !== '"') {
+		i += source[i] === "\\" ? 2 : 1;
+	}
+	return i + 1;
+}
+
+/**
+ * 跳过 raw 文本（`code` 或 ```block```），返回结束后的位置
+ */
+export function skipRaw(source: string, index: number): number {
+	let ticks = 0;
+	while (source[index + ticks] === "`") {
+		ticks += 1;
+	}
+	// 两个反引号为空 raw
+	if (ticks === 2) {
+		return index + 2;
+	}
+	const fence = "`".repeat(ticks);
+	const close = source.indexOf(fence, index + ticks);
+	return close === -1 ? source.length : close + ticks;
+}
+
+/**
+ * 找到与 source[index] 处开括号配对的闭括号
+ * 代码括号 ( { 内识别字符串，内容括号 [ 内识别转义与 raw
+ * @returns 闭括号的位置，未闭合时为 -1
+ */
+export function findClosing(source: string, index: number): number {
+	const stack = [CLOSING[source[index]]];
+	let i = index + 1;
+
+	while (i < source.length) {
+		const char = source[i];
+		const inContent = stack[stack.length - 1] === "]";
+
+		if (inContent && char === "\\") {
+			i += 2;
+			continue;
+		}
+		if (inContent && char === "`") {
+			i = skipRaw(source, i);
+			continue;
+		}
+		if (!inContent && char === '"') {
+			i = skipString(source, i);
+			continue;
+		}
+		if (CLOSING[char]) {
+			stack.push(CLOSING[char]);
+		} else if (char === stack[stack.length - 1]) {
+			stack.pop();
+			if (!stack.length) {
+				return i;
+			}
+		}
+		i += 1;
+	}
+	return -1;
+}
+
+/**
+ * 在顶层逗号处切分参数列表
+ */
+function splitTopLevel(source: string, separator: string): string[] {
+	const parts: string[] = [];
+	let start = 0;
+	let i = 0;
+
+	while (i < source.length) {
+		const char = source[i];
+		if (char === '"') {
+			i = skipString(source, i);
+			continue;
+		}
+		if (CLOSING[char]) {
+			const close = findClosing(source, i);
+			i = close === -1 ? source.length : close + 1;
+			continue;
+		}
+		if (char === separator) {
+			parts.push(source.slice(start, i));
+			start = i + 1;
+		}
+		i += 1;
+	}
+	parts.push(source.slice(start));
+	return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+export function parseArguments(source: string): TypstArguments {
+	const args: TypstArguments = { positional: [], named: {} };
+	for (const part of splitTopLevel(source, ",")) {
+		const named = /^([A-Za-z_][\w-]*)\s*:\s*([\s\S]*)$/.exec(part);
+		if (named) {
+			args.named[named[1]] = named[2].trim();
+		} else {
+			args.positional.push(part);
+		}
+	}
+	return args;
+}
+
+/**
+ * 按分号切分（用于 mat 的行）
+ */
+export function splitRows(source: string): string[] {
+	return splitTopLevel(source, ";");
+}
+
+/**
+ * 解析 source[index] 开始的函数调用（不含前导 #）
+ * @returns 调用信息；不是函数调用或括号未闭合时为 null
+ */
+export function parseCall(source: string, index: number): TypstCall | null {
+	IDENTIFIER.lastIndex = index;
+	const match = IDENTIFIER.exec(source);
+	if (!match) {
+		return null;
+	}
+
+	let i = index + match[0].length;
+	let args: TypstArguments = { positional: [], named: {} };
+	const bodies: string[] = [];
+
+	if (source[i] === "(") {
+		const close = findClosing(source, i);
+		if (close === -1) {
+			return null;
+		}
+		args = parseArguments(source.slice(i + 1, close));
+		i = close + 1;
+	}
+
+	while (source[i] === "[") {
+		const close = findClosing(source, i);
+		if (close === -1) {
+			return null;
+		}
+		bodies.push(source.slice(i + 1, close));
+		i = close + 1;
+	}
+
+	if (source[index + match[0].length] !== "(" && !bodies.length) {
+		return null;
+	}
+	return { name: match[0], args, bodies, end: i };
+}
+
+/**
+ * 字符串字面量的值；不是字符串时为 null
+ */
+export function parseString(value: string | undefined): string | null {
+	const match = value ? /^"((?:[^"\\]|\\.)*)"$/.exec(value.trim()) : null;
+	return match
+		? match[1].replace(/\\(u\{[0-9a-fA-F]+\}|.)/g, (_, escaped: string) => {
+				if (escaped.startsWith("u{")) {
+					return String.fromCodePoint(parseInt(escaped.slice(2, -1), 16));
+				}
+				return ({ n: "\n", t: "\t" } as Record<string, string>)[escaped] ?? escaped;
+			})
+		: null;
+}
+
+/**
+ * 内容块参数 `[...]` 的内部；不是内容块时为 null
+ */
+export function parseContent(value: string | undefined): string | null {
+	const trimmed = value?.trim() ?? "";
+	return trimmed.startsWith("[") && findClosing(trimmed, 0) === trimmed.length - 1
+		? trimmed.slice(1, -1)
+		: null;
+}
@@ -0,0 +1,159 @@
+import type { Content, Heading, ListItem, Parent, Root } from "mdast";
+import { toString } from "mdast-util-to-string";
+import { visitParents } from "unist-util-visit-parents";
+import type { Node } from "unist";
+import { headingAnchorKey } from "./generators/label";
+
+/**
+ * 截取从 start 位置的标题开始、到下一个同级或更高级标题之前的所有节点
+ */
+function sliceSection(children: Content[], start: number): Content[] {
+	const heading = children[start] as Heading;
+	let end = start + 1;
+
+	while (end < children.length) {
+		const child = children[end];
+		if (child.type === "heading" && child.depth <= heading.depth) {
+			break;
+		}
+		end += 1;
+	}
+
+	return children.slice(start, end);
+}
+
+/**
+ * 提取标题对应的章节
+ * 支持 `H1#H2` 形式的嵌套标题路径：逐级在上一级章节内查找
+ */
+export function extractHeadingSection(
+	root: Root,
+	headingPath: string
+): Content[] | null {
+	const segments = headingPath
+		.split("#")
+		.map(headingAnchorKey)
+		.filter(Boolean);
+
+	if (!segments.length) {
+		return null;
+	}
+
+	let scope = root.children as Content[];
+
+	for (const segment of segments) {
+		const start = scope.findIndex(
+			(child) =>
+				child.type === "heading" &&
+				headingAnchorKey(toString(child)) === segment
+		);
+
+		if (start === -1) {
+			return null;
+		}
+
+		scope = sliceSection(scope, start);
+	}
+
+	return scope;
+}
+
+function isBlockMarker(node: Node, blockId: string): boolean {
+	if (node.type === "obsidianBlockRef") {
+		return (node as unknown as { value: string }).value === blockId;
+	}
+
+	// 未启用块引用插件时，标记仍以文本形式存在
+	if (node.type === "text") {
+		const pattern = new RegExp(
+			`(?:^|\\s)\\^${blockId.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\s*$`
+		);
+		return pattern.test((node as unknown as { value: string }).value);
+	}
+
+	return false;
+}
+
+function isMarkerOnlyParagraph(paragraph: Parent): boolean {
+	return paragraph.children.every((child) => {
+		if (child.type === "obsidianBlockRef") {
+			return true;
+		}
+		if (child.type === "text") {
+			const value = (child as { value: string }).value;
+			return /^\s*(\^[a-zA-Z0-9-]+)?\s*$/.test(value);
+		}
+		return false;
+	});
+}
+
+/**
+ * 提取带有 `^block-id` 标记的块
+ * - 列表项中的标记：返回该列表项（包裹在同类型列表中）
+ * - 独占一行的标记：返回其前一个块（表格、引用、列表等）
+ * - 段落末尾的标记：返回该段落
+ */
+export function extractBlock(root: Root, blockId: string): Content[] | null {
+	let result: Content[] | null = null;
+
+	visitParents(root, (node, ancestors) => {
+		if (!isBlockMarker(node, blockId)) {
+			return;
+		}
+
+		const parents = ancestors as unknown as Parent[];
+
+		const listItemIndex = parents.map((p) => p.type).lastIndexOf("listItem");
+		if (listItemIndex > 0) {
+			const item = parents[listItemIndex] as ListItem;
+			const list = parents[listItemIndex - 1] as Content & Parent;
+			result = [{ ...list, children: [item] } as Content];
+			return false;
+		}
+
+		const paragraphIndex = parents.map((p) => p.type).lastIndexOf("paragraph");
+		if (paragraphIndex > 0) {
+			const paragraph = parents[paragraphIndex];
+			const container = parents[paragraphIndex - 1];
+			const position = container.children.indexOf(paragraph as Content);
+
+			if (isMarkerOnlyParagraph(paragraph) && position > 0) {
+				result = [container.children[position - 1] as Content];
+			} else {
+				result = [paragraph as Content];
+			}
+			return false;
+		}
+
+		return;
+	});
+
+	return result;
+}
+
+/**
+ * 按嵌入目标中的 `#Heading` 或 `#^block-id` 截取文档片段
+ * @returns 截取后的新根节点；找不到对应片段时返回 null
+ */
+export function extractEmbedFragment(root: Root, target: string): Root | null {
+	const trimmed = target.trim();
+	const children = trimmed.startsWith("^")
+		? extractBlock(root, trimmed.slice(1))
+		: extractHeadingSection(root, trimmed);
+
+	if (!children) {
+		return null;
+	}
+
+	// 片段中引用的脚注定义与链接定义可能位于文档其他位置，一并保留
+	const definitions = root.children.filter(
+		(child) =>
+			(child.type === "footnoteDefinition" || child.type === "definition") &&
+			!children.includes(child)
+	);
+
+	return {
+		type: "root",
+		children: [...children, ...definitions] as Root["children"],
+	};
+}
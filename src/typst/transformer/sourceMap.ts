@@ -0,0 +1,117 @@
+import type { Node, Parent } from "unist";
+import type { LineRange, TypstSourceMap } from "./types";
+
+// 私用区字符作为块边界标记，生成结束后移除，不会出现在最终输出中
+const MARK_OPEN = "\uE000";
+const MARK_CLOSE = "\uE001";
+const MARK_PATTERN = /\uE000([se])(\d+)\uE001/g;
+
+// 连续空行（可能夹带块边界标记）
+const BLANK_RUN_PATTERN = /\n(?:(?:\uE000[se]\d+\uE001)*\n){2,}/g;
+
+/**
+ * 节点在 Markdown 中的行号范围
+ * 插件生成的节点（callout、figure 等）没有 position，取其子节点的范围
+ */
+export function nodeLineRange(node: Node): LineRange | null {
+	if (node.position) {
+		return { start: node.position.start.line, end: node.position.end.line };
+	}
+
+	const children = (node as Parent).children ?? [];
+	let range: LineRange | null = null;
+	for (const child of children) {
+		const childRange = nodeLineRange(child);
+		if (childRange) {
+			range = range
+				? {
+						start: Math.min(range.start, childRange.start),
+						end: Math.max(range.end, childRange.end),
+					}
+				: childRange;
+		}
+	}
+	return range;
+}
+
+/**
+ * 用起止标记包裹第 index 个顶层块的输出
+ */
+export function markSourceChunk(index: number, rendered: string): string {
+	return `${MARK_OPEN}s${index}${MARK_CLOSE}${rendered}${MARK_OPEN}e${index}${MARK_CLOSE}`;
+}
+
+/**
+ * 将连续空行压缩为一个空行；其中的块边界标记移到空行之后，保持位置语义
+ */
+export function collapseBlankLines(text: string): string {
+	return text.replace(BLANK_RUN_PATTERN, (run) => {
+		const marks = run.match(MARK_PATTERN) ?? [];
+		return `\n\n${marks.join("")}`;
+	});
+}
+
+function lineAt(text: string, offset: number): number {
+	let line = 1;
+	for (let i = 0; i < offset && i < text.length; i++) {
+		if (text[i] === "\n") {
+			line++;
+		}
+	}
+	return line;
+}
+
+/**
+ * 移除块边界标记并计算各块在输出中的行号范围
+ * 输出首尾空白会被裁掉；只输出空白的块不产生映射条目
+ * @param text 带标记的输出
+ * @param sources 块序号 -> Markdown 行号范围
+ */
+export function extractSourceMap(
+	text: string,
+	sources: Map<number, LineRange>
+): { text: string; sourceMap: TypstSourceMap } {
+	const starts = new Map<number, number>();
+	const ends = new Map<number, number>();
+	let stripped = "";
+	let last = 0;
+
+	for (const match of text.matchAll(MARK_PATTERN)) {
+		stripped += text.slice(last, match.index);
+		(match[1] === "s" ? starts : ends).set(Number(match[2]), stripped.length);
+		last = (match.index ?? 0) + match[0].length;
+	}
+	stripped += text.slice(last);
+
+	const leading = stripped.length - stripped.trimStart().length;
+	const output = stripped.trim();
+	const sourceMap: TypstSourceMap = [];
+
+	for (const [index, startOffset] of starts) {
+		const markdown = sources.get(index);
+		const endOffset = ends.get(index);
+		if (!markdown || endOffset === undefined) {
+			continue;
+		}
+
+		// 跳过块输出首尾的空白
+		let from = Math.max(startOffset - leading, 0);
+		let to = Math.min(endOffset - leading, output.length) - 1;
+		while (from <= to && /\s/.test(output[from])) {
+			from++;
+		}
+		while (to >= from && /\s/.test(output[to])) {
+			to--;
+		}
+		if (from > to) {
+			continue;
+		}
+
+		sourceMap.push({
+			markdown,
+			typst: { start: lineAt(output, from), end: lineAt(output, to) },
+		});
+	}
+
+	return { text: output, sourceMap };
+}
@@ -1,6 +1,51 @@
 import type { App, Vault } from "obsidian";
+import type { Plugin } from "unified";
 import type { Parent, Literal, Node } from "unist";
-import type { Content } from "mdast";
+import type { TransformerExtensions } from "./extensions";
+import type { ConversionCache } from "./cache";
+import type { Frontmatter } from "./frontmatter";
+import type {
+	Content,
+	Definition,
+	Root,
+	FootnoteDefinition,
+	Heading,
+	Html,
+	PhrasingContent,
+} from "mdast";
+
+/**
+ * 跨笔记 wikilink 的输出方式
+ * - link: 输出 obsidian://open URI 链接
+ * - text: 输出带样式的纯文本
+ * - footnote: 输出文本并附加指向笔记标题的脚注
+ */
+export type WikiLinkPolicy = "link" | "text" | "footnote";
+
+/**
+ * 嵌入笔记的呈现方式
+ * - inline: 内容直接并入文档
+ * - quote: 包装在 #quote 中并附上文件路径
+ * - box: 包装在带边框的 #block 中并附上文件路径
+ * - pagebreak: 从新的一页开始并入内容
+ */
+export type EmbedStyle = "inline" | "quote" | "box" | "pagebreak";
+
+/**
+ * 可由 frontmatter 设置的文档字段
+ */
+export type DocumentField =
+	| "title"
+	| "author"
+	| "date"
+	| "keywords"
+	| "lang"
+	| "region";
+
+/**
+ * 文档字段 -> 依次尝试的 frontmatter 键；未列出的字段使用默认键，空数组表示不映射
+ */
+export type FrontmatterMapping = Partial<Record<DocumentField, string[]>>;
 
 export interface TypstTransformOptions {
 	enableWikiLinks: boolean;
@@ -10,10 +55,31 @@ export interface TypstTransformOptions {
 	enableBlockRefs: boolean;
 	enableHighlights: boolean;
 	enableComments: boolean;
+	/**
+	 * Map inline HTML (sup, sub, u, kbd, mark, br, colored span, details) to Typst
+	 * Unsupported tags are kept as escaped text, comments are removed
+	 * @default true
+	 */
+	enableHtml: boolean;
+	/**
+	 * Convert Pandoc citations such as `[@key]` and `[see @a, p. 3; @b]` to Typst citations
+	 * @default true
+	 */
+	enableCitations: boolean;
 	enableMath: boolean;
 	h1Level: number;
 	labelPrefix: string;
+	/**
+	 * Map frontmatter to `#set document(...)`, `#set text(lang, region)` and a
+	 * `bon-frontmatter` dictionary (also queryable as `<bon-frontmatter>` metadata)
+	 * @default false
+	 */
 	preserveFrontmatter: boolean;
+	/**
+	 * Which frontmatter keys feed each document field
+	 * @default {} (title, author/authors, date, keywords, lang/language, region)
+	 */
+	frontmatterMapping: FrontmatterMapping;
 	maxEmbedDepth: number;
 	/**
 	 * Enable enhanced checkbox support with cheq package
@@ -22,19 +88,212 @@ export interface TypstTransformOptions {
 	 * @default true
 	 */
 	enableCheckboxEnhancement: boolean;
+	/**
+	 * Translate LaTeX math (Obsidian/MathJax syntax) into Typst math
+	 * When false: math is emitted verbatim, for notes written in Typst math
+	 * @default true
+	 */
+	translateLatexMath: boolean;
+	/**
+	 * Wrap standalone images and tables in numbered #figure() with captions
+	 * Captions come from a following italic line, the image alt text or the embed alias
+	 * @default false
+	 */
+	enableFigures: boolean;
+	/**
+	 * Typst snippet inserted after the default callout style registry
+	 * Override or add types by merging into `bon-callout-styles`
+	 * @default ""
+	 */
+	calloutStyleOverrides: string;
+	/**
+	 * Emit the callout definitions (`bon-callout-styles`, `bon-callout`) when the document uses callouts
+	 * Inline embeds and book chapters turn this off; the outer document then emits them once
+	 * @default true
+	 */
+	calloutPrelude: boolean;
+	/**
+	 * How links to other notes are rendered
+	 * Links to headings and blocks of the same note always become `#link(<label>)`
+	 * @default "link"
+	 */
+	wikiLinkPolicy: WikiLinkPolicy;
+	/**
+	 * Vault name used in `obsidian://open?vault=...` URIs
+	 * When empty, the URI omits the vault and Obsidian opens the last used vault
+	 * @default ""
+	 */
+	vaultName: string;
+	/**
+	 * Vault paths of `.bib` / Hayagriva `.yml` files for `#bibliography(...)`
+	 * Emitted at the end of the document when it contains citations
+	 * @default []
+	 */
+	bibliography: string[];
+	/**
+	 * Citation style passed to `#bibliography(style: ...)`, e.g. "apa" or "ieee"
+	 * Empty uses the Typst default
+	 * @default ""
+	 */
+	citationStyle: string;
 	onEmbedDepthExceeded?: (path: string, depth: number) => void;
 	onCircularReference?: (path: string, stack: string[]) => void;
 	onMissingEmbed?: (path: string) => void;
+	onMathError?: (latex: string, errors: string[]) => void;
+	/**
+	 * Called for node types the generator has no mapping for
+	 * Such nodes are emitted as escaped plain text
+	 */
+	onUnknownNode?: (type: string) => void;
+	/**
+	 * User-registered remark plugins and node generators
+	 * Applied to the note and to every embedded note
+	 */
+	extensions?: TransformerExtensions;
+	/**
+	 * How embedded notes are emitted
+	 * - "inline": the converted note is inlined in the document
+	 * - "include": each embedded note becomes a separate module pulled in with `#include`;
+	 *   module sources are reported through `onEmbedModule` and must be written by the caller
+	 * @default "inline"
+	 */
+	embedOutput: "inline" | "include";
+	/**
+	 * Default presentation of embedded notes
+	 * Overridden per embed with the display parameter, e.g. `![[note|inline]]`
+	 * @default "quote"
+	 */
+	embedStyle: EmbedStyle;
+	/**
+	 * Output mode
+	 * - "document": a regular document
+	 * - "slides": a presentation without external packages; the note is split into slides,
+	 *   frontmatter becomes a title slide and `%%comments%%` become speaker notes
+	 * @default "document"
+	 */
+	outputMode: "document" | "slides";
+	/**
+	 * Slides mode: headings of this level or higher also start a new slide
+	 * `---` always starts a new slide; 0 splits on `---` only
+	 * @default 0
+	 */
+	slideLevel: number;
+	/**
+	 * Vault path of the module for an embedded note (include mode)
+	 * Modules are included with vault-root paths, so documents are compiled with `--root <vault>`
+	 * @default `<note>.embed.typ` next to the note
+	 */
+	embedModulePath?: (notePath: string) => string;
+	/**
+	 * Called once per module generated in include mode
+	 */
+	onEmbedModule?: (path: string, typst: string) => void;
+	/**
+	 * Incremental cache for parsed notes and generated top-level blocks
+	 * Unchanged blocks and embedded notes are reused across conversions
+	 */
+	cache?: ConversionCache;
+}
+
+/**
+ * 用户注册的 remark 插件
+ * order 决定与内置插件（见 BUILTIN_PLUGIN_ORDER）及其他注册插件的先后，数值小的先执行
+ * 插件至多接收一个参数，即 options
+ */
+export interface RemarkPluginRegistration {
+	name: string;
+	plugin: Plugin<[unknown?], Root>;
+	options?: unknown;
+	order?: number;
 }
 
+/**
+ * 自定义节点生成器可用的辅助函数
+ */
+export interface NodeGeneratorHelpers {
+	renderChildren: (children: Content[]) => string;
+	next: () => string; // 交给下一个生成器，最终为内置实现
+	escape: (text: string) => string;
+	options: TypstTransformOptions;
+	currentFile: string;
+}
+
+export type NodeGenerator = (node: Node, helpers: NodeGeneratorHelpers) => string;
+
+/**
+ * generateTypst 的选项：转换选项加上按节点类型的生成器覆盖
+ */
+export type GenerateOptions = Partial<TypstTransformOptions> & {
+	generators?: Record<string, NodeGenerator>;
+};
+
+/**
+ * 用户注册的节点生成器，覆盖某一节点类型的输出
+ * 同一类型可注册多个，按 order 从小到大依次执行，通过 next() 交给下一个
+ */
+export interface NodeGeneratorRegistration {
+	name: string;
+	type: string;
+	generate: NodeGenerator;
+	order?: number;
+}
+
+/**
+ * 嵌入笔记对外暴露的 label，供父文档中指向该笔记的链接改写为文档内跳转
+ */
+export interface EmbeddedNoteLabels {
+	root?: string; // 第一个标题的 label，用于不带标题的 [[笔记]] 链接
+	headings: Map<string, string>; // 标题锚点键 -> label
+	blocks: Map<string, string>; // 块 ID -> label
+}
+
+/**
+ * 整棵嵌入树共享的 label 作用域
+ * 每个嵌入笔记使用独立的命名空间（作为 label 前缀），避免与父文档或重复嵌入冲突
+ */
+export interface LabelScope {
+	labels: Set<string>; // 已分配的全部 label
+	namespaces: Set<string>; // 已分配给嵌入笔记的 label 前缀
+	embeddedNotes: Map<string, EmbeddedNoteLabels>; // 笔记键（见 noteKey）-> 导出的 label
+	citations: Set<string>; // 整棵嵌入树中引用过的文献 key
+	modules: Map<string, EmbeddedNoteLabels>; // include 模式下已生成的模块路径 -> 导出的 label
+}
+
+/**
+ * 闭区间行号范围（从 1 开始）
+ */
+export interface LineRange {
+	start: number;
+	end: number;
+}
+
+/**
+ * 源码映射条目：Markdown 顶层块所在行 -> 生成的 Typst 所在行
+ */
+export interface SourceMapEntry {
+	markdown: LineRange;
+	typst: LineRange;
+}
+
+export type TypstSourceMap = SourceMapEntry[];
+
 export interface GeneratorContext {
 	options: TypstTransformOptions;
 	currentDepth: number;
 	inCodeBlock: boolean;
 	inListItem: boolean; // 标识当前是否在列表项内部（用于控制段落 parbreak 行为）
 	listDepth: number; // 列表嵌套深度（用于计算嵌套列表的缩进）
-	collectedLabels: Set<string>;
+	collectedLabels: Set<string>; // 即 labelScope.labels，在整棵嵌入树内去重
+	labelScope: LabelScope;
 	currentFile: string; // 当前正在转换的文件路径（用于计算相对路径）
+	footnoteDefinitions: Map<string, FootnoteDefinition>; // 脚注标识符 -> 定义节点
+	footnoteLabels: Map<string, string>; // 已输出过 #footnote 的脚注标识符 -> label
+	figureLabels: Map<string, string>; // figure 的块 ID -> Typst label
+	headingLabels: Map<string, string>; // 标题锚点键 -> Typst label
+	headingNodeLabels: Map<Heading, string>; // 标题节点 -> Typst label
+	blockLabels: Map<string, string>; // 文档中出现的 ^block-id -> Typst label
+	definitions: Map<string, Definition>; // 链接定义标识符 -> 定义节点（供引用式链接/图片解析）
+	blockHtml: Set<Html>; // 块级 HTML 节点（独立成段输出）
 }
 
 export interface EmbedResolveResult {
@@ -64,6 +323,37 @@ export interface EmbedEnvironment {
 	resolveFilePath?: ResolveFilePath;
 }
 
+/**
+ * 书中的一章：一篇笔记
+ */
+export interface BookChapter {
+	path: string; // 笔记的 vault 路径，用于解析其中的链接与嵌入
+	markdown: string;
+	title?: string; // 笔记不以一级标题开头时补上的章标题，默认取文件名
+	part?: string; // 从本章开始的部（Part）的标题
+}
+
+/**
+ * 由多篇笔记组成的书
+ */
+export interface BookDocument {
+	chapters: BookChapter[];
+	/**
+	 * 书的元数据（标题、副标题、作者、日期等），用于标题页与 #set document
+	 */
+	metadata?: Frontmatter;
+	/**
+	 * 是否输出标题页
+	 * @default true
+	 */
+	titlePage?: boolean;
+	/**
+	 * 是否在正文前输出 #outline()
+	 * @default true
+	 */
+	outline?: boolean;
+}
+
 export interface ObsidianWikiLinkNode extends Literal {
 	type: "wikiLink";
 	value: string;
@@ -76,6 +366,8 @@ export interface ObsidianCalloutNode extends Parent {
 	type: "callout";
 	calloutType: string;
 	title?: string;
+	titleChildren?: PhrasingContent[]; // 标题行的行内节点（保留格式）
+	fold?: "open" | "closed"; // [!type]+ / [!type]-
 	children: Content[];
 }
 
@@ -94,9 +386,38 @@ export interface ObsidianHighlightNode extends Parent {
 	children: Content[];
 }
 
-export interface ObsidianCommentNode extends Literal {
+// 注释内容不放在 value 中，使 mdast-util-to-string（标题 label、锚点匹配等）忽略注释
+export interface ObsidianCommentNode extends Node {
 	type: "obsidianComment";
-	value: string;
+	comment: string;
+}
+
+export interface ObsidianFigureNode extends Parent {
+	type: "figure";
+	kind: "image" | "table";
+	blockId?: string; // 来自 ^block-id，用作 label 与交叉引用目标
+	caption?: PhrasingContent[];
+	children: Content[];
+}
+
+export interface CitationItem {
+	key: string;
+	prefix?: string; // 位于 @key 之前的文本，如 "see"
+	suffix?: string; // 位于 @key 之后的定位/补充，如 "p. 3"
+	suppressAuthor?: boolean; // -@key
+}
+
+export interface CitationNode extends Node {
+	type: "citation";
+	items: CitationItem[];
+	attached?: boolean; // 紧跟字母数字，不能使用 @key 简写
+}
+
+export interface HtmlElementNode extends Parent {
+	type: "htmlElement";
+	tagName: string; // 小写标签名
+	attributes: Record<string, string>;
+	children: Content[];
 }
 
 export interface EmbedDocumentNode extends Parent {
@@ -111,7 +432,12 @@ export interface EmbedDocumentNode extends Parent {
 		rawTarget?: string;
 		assetKind?: "markdown" | "image" | "pdf" | "binary";
 		imageOptions?: EmbedImageOptions;
+		embedStyle?: EmbedStyle; // 由显示参数指定的呈现方式
 		convertedTypst?: string; // 已转换的 Typst 内容
+		calloutsUsed?: boolean; // 内联嵌入的内容用到 callout，定义由外层文档输出
+		modulePath?: string; // include 模式下嵌入模块的 vault 路径
+		includedBefore?: boolean; // include 模式下该模块已在前文引入，不再重复 #include
+		moduleLabel?: string; // 第一次引入处可跳转的 label（模块的第一个标题）
 	};
 	children: Content[];
 }
@@ -139,6 +465,9 @@ export type ObsidianNode =
 	| ObsidianBlockRefNode
 	| ObsidianHighlightNode
 	| ObsidianCommentNode
+	| ObsidianFigureNode
+	| HtmlElementNode
+	| CitationNode
 	| EmbedDocumentNode;
 
 export type TypstAstNode = Content | ObsidianNode;
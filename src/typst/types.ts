@@ -1,4 +1,10 @@
 import type { TFile } from "obsidian";
+import type {
+	ConversionCacheStats,
+	NodeGeneratorRegistration,
+	RemarkPluginRegistration,
+	TypstToMarkdownResult,
+} from "./transformer";
 
 /**
  * Typst conversion configuration options
@@ -123,4 +129,90 @@ export interface TypstAPIInterface {
 	 * ```
 	 */
 	listScripts(): Promise<string[]>;
+
+	/**
+	 * Register a remark plugin for the AST transformer (also applied to embedded notes)
+	 *
+	 * Plugins run after the built-in ones unless `order` places them in between
+	 * (see `BUILTIN_PLUGIN_ORDER`). Registering the same name again replaces the plugin.
+	 *
+	 * @param registration - Plugin name, remark plugin, options and order
+	 * @returns Function that removes the registration
+	 * @throws If the registration has no name or the plugin is not a function
+	 *
+	 * @example
+	 * ```typescript
+	 * // ==red:text== -> colorText node; must run before the built-in highlights (900)
+	 * window.bon.typst.registerRemarkPlugin({
+	 *   name: "color-text",
+	 *   order: 850,
+	 *   plugin: () => (tree) => { ... },
+	 * });
+	 * ```
+	 */
+	registerRemarkPlugin(registration: RemarkPluginRegistration): () => void;
+
+	/**
+	 * Register a generator for an mdast node type, overriding the built-in output
+	 *
+	 * Generators of the same type run by ascending `order`; `next()` hands the node
+	 * to the next generator and finally to the built-in one.
+	 *
+	 * @param registration - Generator name, node type, generate function and order
+	 * @returns Function that removes the registration
+	 * @throws If the registration has no name, no node type or no generate function
+	 *
+	 * @example
+	 * ```typescript
+	 * window.bon.typst.registerNodeGenerator({
+	 *   name: "color-text",
+	 *   type: "colorText",
+	 *   generate: (node, { renderChildren }) =>
+	 *     `#text(fill: ${node.color})[${renderChildren(node.children)}]`,
+	 * });
+	 *
+	 * // Indent quotes instead of #quote[...]
+	 * window.bon.typst.registerNodeGenerator({
+	 *   name: "plain-quote",
+	 *   type: "blockquote",
+	 *   generate: (node, { renderChildren }) =>
+	 *     `#pad(left: 2em)[${renderChildren(node.children)}]\n\n`,
+	 * });
+	 * ```
+	 */
+	registerNodeGenerator(registration: NodeGeneratorRegistration): () => void;
+
+	/**
+	 * Convert Typst source back to Obsidian Markdown
+	 *
+	 * Content without a Markdown equivalent is kept as ```typst code blocks
+	 * and listed in `warnings`. No file is written.
+	 *
+	 * @param input - Typst string or TFile object (.typ file)
+	 * @returns Promise resolving to the Markdown and the conversion warnings
+	 *
+	 * @example
+	 * ```typescript
+	 * const { markdown, warnings } = await window.bon.typst.typstToMarkdown(
+	 *   "= Intro\n\nSee @intro and $alpha^2$."
+	 * );
+	 * ```
+	 */
+	typstToMarkdown(input: string | TFile): Promise<TypstToMarkdownResult>;
+
+	/**
+	 * Get hit and miss counts of the incremental conversion cache
+	 *
+	 * `blocks` counts generated top-level blocks, `files` counts parsed notes
+	 * and embedded notes. Counts accumulate until the cache is cleared.
+	 *
+	 * @returns Cache statistics
+	 *
+	 * @example
+	 * ```typescript
+	 * const { blocks } = window.bon.typst.getCacheStats();
+	 * console.log(`${blocks.hits} of ${blocks.hits + blocks.misses} blocks reused`);
+	 * ```
+	 */
+	getCacheStats(): ConversionCacheStats;
 }
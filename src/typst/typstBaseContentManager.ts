@@ -108,6 +108,28 @@ export abstract class BaseContentManager<T = string> {
 	async loadContent(contentName: string): Promise<T> {
 		const normalized =
 			this.normalizeContentName(contentName) || this.defaultContentName;
+		const content = await this.findContent(normalized);
+		if (content !== null) {
+			return content;
+		}
+
+		if (normalized === this.defaultContentName) {
+			await this.initializeDefaultContent();
+			return this.getDefaultContent();
+		}
+		return this.loadContent(this.defaultContentName);
+	}
+
+	/**
+	 * Load content by name without falling back to the default content
+	 * @param contentName Content name (without extension), may include subfolders
+	 * @returns The content, or null if not found
+	 */
+	async findContent(contentName: string): Promise<T | null> {
+		const normalized = this.normalizeContentName(contentName);
+		if (!normalized) {
+			return null;
+		}
 		if (this.contentCache.has(normalized)) {
 			return this.contentCache.get(normalized) as T;
 		}
@@ -116,11 +138,7 @@ export abstract class BaseContentManager<T = string> {
 		const adapter = this.vault.adapter;
 
 		if (!(await adapter.exists(path))) {
-			if (normalized === this.defaultContentName) {
-				await this.initializeDefaultContent();
-				return this.getDefaultContent();
-			}
-			return this.loadContent(this.defaultContentName);
+			return null;
 		}
 
 		const content = await adapter.read(path);
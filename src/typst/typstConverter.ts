@@ -2,18 +2,53 @@ import {
 	App,
 	CachedMetadata,
 	FileSystemAdapter,
+	normalizePath,
 	Notice,
 	Platform,
 	TFile,
+	TFolder,
 } from "obsidian";
 import { exec } from "child_process";
+import type { Root } from "mdast";
 import { TypstSettings } from "./typstSettings";
 import { TypstScriptManager } from "./typstScriptManager";
 import { TypstTemplateManager } from "./typstTemplateManager";
-import { executeSandbox } from "./typstSandbox";
-import { markdownToTypst, type EmbedEnvironment } from "./transformer";
+import { applyTemplate } from "./typstTemplateProtocol";
+import {
+	parseTemplateSchema,
+	resolveTemplateParameters,
+	type TemplateParameter,
+} from "./typstTemplateSchema";
+import { createSandboxTransformer, executeSandbox } from "./typstSandbox";
+import {
+	bookToTypst,
+	generateTypst,
+	markdownToTypst,
+	markdownToTypstWithSourceMap,
+	parseFrontmatter,
+	parseMarkdown,
+	parseFrontmatterMapping,
+	parseEmbedStyle,
+	ConversionCache,
+	TransformerExtensions,
+	typstToMarkdown,
+	type BookChapter,
+	type BookDocument,
+	type EmbedEnvironment,
+	type EmbedStyle,
+	type TypstSourceMap,
+	type TypstTransformOptions,
+	type WikiLinkPolicy,
+} from "./transformer";
+import { offsetSourceMap } from "./typstSourceMap";
 import { TypstPathResolver } from "./typstPathResolver";
-import { TypstNotFoundError, TypstInvalidPathError } from "./typstErrors";
+import {
+	BookManifestError,
+	TemplateCompositionError,
+	TemplateParameterError,
+	TypstNotFoundError,
+	TypstInvalidPathError,
+} from "./typstErrors";
 
 interface ConvertOptions {
 	silent?: boolean;
@@ -26,16 +61,25 @@ export interface MarkdownConvertOptions {
 	templateName?: string;
 	maxEmbedDepth?: number;
 	currentFile?: string;
+	/**
+	 * Collects embedded note modules (vault path -> Typst)
+	 * When set, embedded notes are emitted as `#include` of these modules instead of inlined
+	 */
+	embedModules?: Map<string, string>;
 }
 
 /**
  * Preview update callback function
  * @param file The source file
  * @param typstCode The converted Typst code
+ * @param sourceMap Markdown line -> Typst line mapping of the converted code
+ * @param embedModules Embedded note modules included by the code (vault path -> Typst)
  */
 export type PreviewUpdateCallback = (
 	file: TFile,
-	typstCode: string
+	typstCode: string,
+	sourceMap: TypstSourceMap,
+	embedModules: Map<string, string>
 ) => Promise<void>;
 
 export class TypstConverter {
@@ -43,11 +87,13 @@ export class TypstConverter {
 	private previewUpdateCallback: PreviewUpdateCallback | null = null;
 	private readonly pathResolver: TypstPathResolver;
 	private readonly templateManager: TypstTemplateManager;
+	private readonly conversionCache = new ConversionCache();
 
 	constructor(
 		private app: App,
 		private settings: TypstSettings,
-		private scriptManager: TypstScriptManager
+		private scriptManager: TypstScriptManager,
+		private readonly extensions: TransformerExtensions = new TransformerExtensions()
 	) {
 		this.triggerTagSet = new Set(
 			(this.settings.triggerTags ?? ["bon-typst"]).map((tag) =>
@@ -61,6 +107,20 @@ export class TypstConverter {
 		);
 	}
 
+	/**
+	 * Remark plugins and node generators registered through the API
+	 */
+	getTransformerExtensions(): TransformerExtensions {
+		return this.extensions;
+	}
+
+	/**
+	 * Cache of parsed notes and generated blocks reused between conversions
+	 */
+	getConversionCache(): ConversionCache {
+		return this.conversionCache;
+	}
+
 	/**
 	 * Set preview update callback
 	 */
@@ -128,6 +188,99 @@ export class TypstConverter {
 		return this.settings.defaultTemplateName || "default";
 	}
 
+	/**
+	 * Select how links to other notes are rendered
+	 * Priority: frontmatter (typst-link-policy) > settings
+	 */
+	selectLinkPolicy(metadata: CachedMetadata | null): WikiLinkPolicy {
+		const frontmatterPolicy = metadata?.frontmatter?.["typst-link-policy"];
+		if (
+			frontmatterPolicy === "link" ||
+			frontmatterPolicy === "text" ||
+			frontmatterPolicy === "footnote"
+		) {
+			return frontmatterPolicy;
+		}
+
+		return this.settings.wikiLinkPolicy ?? "link";
+	}
+
+	/**
+	 * Select the default presentation of embedded notes
+	 * Priority: frontmatter (typst-embed-style) > settings; `![[note|style]]` overrides both
+	 */
+	selectEmbedStyle(metadata: CachedMetadata | null): EmbedStyle {
+		const frontmatterStyle = metadata?.frontmatter?.["typst-embed-style"];
+		const style =
+			typeof frontmatterStyle === "string"
+				? parseEmbedStyle(frontmatterStyle)
+				: undefined;
+
+		return style ?? this.settings.embedStyle ?? "quote";
+	}
+
+	/**
+	 * Select slides output from frontmatter (typst-slides)
+	 * `true` splits slides at `---`; a number also splits at headings up to that level
+	 */
+	selectSlideOptions(
+		metadata: CachedMetadata | null
+	): Pick<TypstTransformOptions, "outputMode" | "slideLevel"> {
+		const value = metadata?.frontmatter?.["typst-slides"];
+		const level = Number(value);
+		if (value === true || (typeof value !== "boolean" && level >= 1 && level <= 6)) {
+			return {
+				outputMode: "slides",
+				slideLevel: value === true ? 0 : Math.floor(level),
+			};
+		}
+
+		return { outputMode: "document", slideLevel: 0 };
+	}
+
+	/**
+	 * Select citation style
+	 * Priority: frontmatter (citation-style) > settings
+	 */
+	selectCitationStyle(metadata: CachedMetadata | null): string {
+		const frontmatterStyle = metadata?.frontmatter?.["citation-style"];
+		if (typeof frontmatterStyle === "string" && frontmatterStyle.trim()) {
+			return frontmatterStyle.trim();
+		}
+
+		return this.settings.citationStyle ?? "ieee";
+	}
+
+	/**
+	 * Select bibliography files for citations (vault paths)
+	 * Priority: frontmatter (bibliography, string or list) > settings
+	 * Entries are resolved like links relative to the note
+	 */
+	selectBibliography(
+		metadata: CachedMetadata | null,
+		sourcePath: string
+	): string[] {
+		const frontmatterValue = metadata?.frontmatter?.["bibliography"];
+		const entries: unknown[] = Array.isArray(frontmatterValue)
+			? frontmatterValue
+			: [frontmatterValue ?? this.settings.bibliographyPath];
+
+		return entries
+			.filter(
+				(entry): entry is string =>
+					typeof entry === "string" && Boolean(entry.trim())
+			)
+			.map((entry) => {
+				// Properties may store the file as a [[wikilink]]
+				const link = entry.trim().replace(/^\[\[|\]\]$/g, "");
+				const file = this.app.metadataCache.getFirstLinkpathDest(
+					link,
+					sourcePath
+				);
+				return file?.path ?? normalizePath(link);
+			});
+	}
+
 	async convertFile(
 		file: TFile,
 		metadata?: CachedMetadata | null,
@@ -146,17 +299,26 @@ export class TypstConverter {
 				? this.selectTemplate(file, cache)
 				: undefined;
 
+			// Modular output: embedded notes are written as separate modules
+			const embedModules = new Map<string, string>();
+
 			// Always use script mode (script will call AST converter internally)
-			const typstContent = await this.convertMarkdown(markdown, {
+			const { typst: typstContent, sourceMap } =
+				await this.convertMarkdownWithSourceMap(markdown, {
 				transformMode: "script",
 				scriptName: selectedScript,
 				templateName: selectedTemplate,
 				maxEmbedDepth: this.settings.maxEmbedDepth,
 				currentFile: file.path,
+				embedModules:
+					this.settings.embedOutputMode === "include"
+						? embedModules
+						: undefined,
 			});
 			const typstPath = this.buildTypstPathNew(file);
 
 			await this.writeTypstFile(typstPath, typstContent);
+			await this.writeEmbedModules(embedModules);
 
 			if (!options.silent) {
 				new Notice(`Typst file updated: ${typstPath}`);
@@ -165,7 +327,12 @@ export class TypstConverter {
 			// Trigger preview update (according to preview mode)
 			if (this.previewUpdateCallback) {
 				try {
-					await this.previewUpdateCallback(file, typstContent);
+					await this.previewUpdateCallback(
+						file,
+						typstContent,
+						sourceMap,
+						embedModules
+					);
 				} catch (error) {
 					console.error("Preview update failed:", error);
 				}
@@ -184,6 +351,13 @@ export class TypstConverter {
 				);
 			}
 		} catch (error) {
+			if (
+				error instanceof TemplateParameterError ||
+				error instanceof TemplateCompositionError
+			) {
+				new Notice(error.toUserMessage());
+				throw error;
+			}
 			const message =
 				error instanceof Error ? error.message : String(error);
 			new Notice(`Typst conversion failed: ${message}`);
@@ -191,6 +365,261 @@ export class TypstConverter {
 		}
 	}
 
+	/**
+	 * Whether a note is a book manifest: its frontmatter lists chapters (`typst-book`)
+	 * or names a folder of chapters (`typst-book-folder`)
+	 */
+	isBookManifest(metadata: CachedMetadata | null): boolean {
+		const frontmatter = metadata?.frontmatter ?? {};
+		return (
+			Array.isArray(frontmatter["typst-book"]) ||
+			typeof frontmatter["typst-book-folder"] === "string"
+		);
+	}
+
+	/**
+	 * Convert a book manifest and all its chapters into one .typ file
+	 * The manifest's frontmatter provides the title page and its template wraps the whole book.
+	 * Conversion scripts are not run for books.
+	 * @param file Book manifest note
+	 * @returns Path and content of the written .typ file and the embedded note modules
+	 * @throws BookManifestError when chapters cannot be resolved
+	 */
+	async buildBook(
+		file: TFile
+	): Promise<{ typstPath: string; typst: string; embedModules: Map<string, string> }> {
+		const metadata = this.app.metadataCache.getFileCache(file);
+		const chapters = await this.collectBookChapters(file, metadata);
+		const frontmatter = this.getFrontmatter(
+			file.path,
+			await this.app.vault.read(file)
+		);
+
+		// Book metadata: scalar and list properties; the title defaults to the manifest name
+		const bookMetadata: NonNullable<BookDocument["metadata"]> = {
+			title: file.basename,
+		};
+		for (const [key, value] of Object.entries(frontmatter)) {
+			const scalar = (item: unknown) =>
+				["string", "number", "boolean"].includes(typeof item);
+			if (
+				!key.startsWith("typst-book") &&
+				(scalar(value) || (Array.isArray(value) && value.every(scalar)))
+			) {
+				bookMetadata[key] = value as (typeof bookMetadata)[string];
+			}
+		}
+
+		const embedModules = new Map<string, string>();
+		let typst = await bookToTypst(
+			{
+				chapters,
+				metadata: bookMetadata,
+				titlePage: frontmatter["typst-book-title-page"] !== false,
+				outline: frontmatter["typst-book-outline"] !== false,
+			},
+			this.buildTransformOptions(
+				this.settings.maxEmbedDepth,
+				file.path,
+				this.settings.embedOutputMode === "include" ? embedModules : undefined
+			),
+			{ app: this.app, vault: this.app.vault, currentFile: file.path }
+		);
+
+		if (this.settings.enableTemplateSystem) {
+			typst = await this.applyTemplate(
+				typst,
+				this.selectTemplate(file, metadata),
+				frontmatter
+			);
+		}
+
+		const typstPath = this.buildTypstPathNew(file);
+		await this.writeTypstFile(typstPath, typst);
+		await this.writeEmbedModules(embedModules);
+		return { typstPath, typst, embedModules };
+	}
+
+	/**
+	 * Build a book and compile it into a single output file
+	 * @param file Book manifest note
+	 * @param options Output format and silent mode
+	 * @returns Output file path
+	 */
+	async compileBook(file: TFile, options: ConvertOptions = {}): Promise<string> {
+		try {
+			const { typstPath } = await this.buildBook(file);
+			return await this.compileTypstFile(
+				typstPath,
+				options.format ?? "pdf",
+				options.silent,
+				file,
+				this.app.metadataCache.getFileCache(file)
+			);
+		} catch (error) {
+			this.notifyBookError(error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Build a book and show it in the Typst preview
+	 * @param file Book manifest note
+	 */
+	async previewBook(file: TFile): Promise<void> {
+		if (!this.previewUpdateCallback) {
+			new Notice('Typst preview is disabled (preview mode is "none")');
+			return;
+		}
+
+		try {
+			const { typst, embedModules } = await this.buildBook(file);
+			await this.previewUpdateCallback(file, typst, [], embedModules);
+		} catch (error) {
+			this.notifyBookError(error);
+			throw error;
+		}
+	}
+
+	private notifyBookError(error: unknown): void {
+		if (
+			error instanceof BookManifestError ||
+			error instanceof TemplateParameterError ||
+			error instanceof TemplateCompositionError
+		) {
+			new Notice(error.toUserMessage());
+			return;
+		}
+		const message = error instanceof Error ? error.message : String(error);
+		new Notice(`Typst book build failed: ${message}`);
+	}
+
+	/**
+	 * Chapters of a book manifest in order
+	 * - `typst-book`: chapter links; `{ part, chapters }` entries group chapters into a part
+	 * - `typst-book-folder`: notes of the folder sorted by `typst-book-order`
+	 *   (name, created, modified or a numeric frontmatter key); each subfolder becomes a part
+	 * @throws BookManifestError when a chapter or the folder cannot be found
+	 */
+	private async collectBookChapters(
+		file: TFile,
+		metadata: CachedMetadata | null
+	): Promise<BookChapter[]> {
+		const frontmatter = metadata?.frontmatter ?? {};
+		const entries: Array<{ note: TFile; part?: string }> = [];
+		const issues: string[] = [];
+
+		const folderPath = frontmatter["typst-book-folder"];
+		if (typeof folderPath === "string") {
+			const link = folderPath.trim().replace(/^\[\[|\]\]$/g, "");
+			const folder = this.app.vault.getAbstractFileByPath(normalizePath(link));
+			if (folder instanceof TFolder) {
+				const order = String(frontmatter["typst-book-order"] ?? "name").trim();
+				entries.push(...this.collectFolderChapters(folder, order, file));
+			} else {
+				issues.push(`Folder not found: ${folderPath}`);
+			}
+		} else {
+			const addChapter = (link: unknown, part?: string) => {
+				// Properties store chapters as [[wikilinks]], possibly with an alias
+				const target =
+					typeof link === "string"
+						? link.trim().replace(/^\[\[|\]\]$/g, "").split("|")[0].trim()
+						: "";
+				const note = target
+					? this.app.metadataCache.getFirstLinkpathDest(target, file.path)
+					: null;
+				if (note && note.extension.toLowerCase() === "md") {
+					entries.push({ note, part });
+				} else {
+					issues.push(`Chapter not found: ${String(link)}`);
+				}
+			};
+
+			for (const entry of frontmatter["typst-book"] as unknown[]) {
+				if (entry && typeof entry === "object" && !Array.isArray(entry)) {
+					const { part, chapters } = entry as { part?: unknown; chapters?: unknown };
+					const title = typeof part === "string" ? part.trim() : "";
+					(Array.isArray(chapters) ? chapters : []).forEach((link, index) =>
+						addChapter(link, index === 0 && title ? title : undefined)
+					);
+				} else {
+					addChapter(entry);
+				}
+			}
+		}
+
+		if (!issues.length && !entries.length) {
+			issues.push("The book has no chapters");
+		}
+		if (issues.length) {
+			throw new BookManifestError(file.path, issues);
+		}
+
+		return Promise.all(
+			entries.map(async ({ note, part }) => {
+				const title = this.app.metadataCache.getFileCache(note)?.frontmatter?.["title"];
+				return {
+					path: note.path,
+					markdown: await this.app.vault.cachedRead(note),
+					title: typeof title === "string" && title.trim() ? title.trim() : undefined,
+					part,
+				};
+			})
+		);
+	}
+
+	/**
+	 * Notes of a book folder sorted by the ordering rule; the notes of each subfolder form a part
+	 */
+	private collectFolderChapters(
+		folder: TFolder,
+		order: string,
+		manifest: TFile
+	): Array<{ note: TFile; part?: string }> {
+		const byName = (a: { name: string }, b: { name: string }) =>
+			a.name.localeCompare(b.name, undefined, { numeric: true });
+		const rank = (note: TFile): number => {
+			switch (order) {
+				case "name":
+					return 0;
+				case "created":
+					return note.stat.ctime;
+				case "modified":
+					return note.stat.mtime;
+				default: {
+					// Notes without a numeric value for the key come last
+					const value = Number(
+						this.app.metadataCache.getFileCache(note)?.frontmatter?.[order]
+					);
+					return Number.isFinite(value) ? value : Number.POSITIVE_INFINITY;
+				}
+			}
+		};
+		const notesOf = (parent: TFolder) =>
+			parent.children
+				.filter(
+					(child): child is TFile =>
+						child instanceof TFile &&
+						child.extension.toLowerCase() === "md" &&
+						child.path !== manifest.path
+				)
+				.sort((a, b) => rank(a) - rank(b) || byName(a, b));
+
+		const entries: Array<{ note: TFile; part?: string }> = notesOf(folder).map(
+			(note) => ({ note })
+		);
+		const subfolders = folder.children
+			.filter((child): child is TFolder => child instanceof TFolder)
+			.sort(byName);
+		for (const subfolder of subfolders) {
+			notesOf(subfolder).forEach((note, index) =>
+				entries.push({ note, part: index === 0 ? subfolder.name : undefined })
+			);
+		}
+		return entries;
+	}
+
 	/**
 	 * Converts a Markdown string to Typst format
 	 * This is a public method available to the API layer.
@@ -203,32 +632,109 @@ export class TypstConverter {
 		markdown: string,
 		options: MarkdownConvertOptions = {}
 	): Promise<string> {
+		const { typst } = await this.convertMarkdownWithSourceMap(
+			markdown,
+			options
+		);
+		return typst;
+	}
+
+	/**
+	 * Converts a Markdown string to Typst and maps Markdown lines to the output lines.
+	 * The map is empty when a script rewrites the converted content beyond recognition.
+	 *
+	 * @param markdown - Markdown content
+	 * @param options - Transform options
+	 * @returns Promise resolving to the Typst string and its source map
+	 */
+	public async convertMarkdownWithSourceMap(
+		markdown: string,
+		options: MarkdownConvertOptions = {}
+	): Promise<{ typst: string; sourceMap: TypstSourceMap }> {
 		const {
 			transformMode = this.settings.transformMode,
 			scriptName = "default",
 			templateName,
 			maxEmbedDepth = this.settings.maxEmbedDepth,
 			currentFile,
+			embedModules,
 		} = options;
 
 		// Step 1: Convert Markdown to Typst using script or AST
 		let typstContent: string;
+		let sourceMap: TypstSourceMap = [];
 
 		if (transformMode === "script") {
 			const scriptCode = await this.scriptManager.loadScript(scriptName);
 
 			// Create and inject AST conversion function into the sandbox
+			// The last AST conversion of the note itself provides the source map
+			// Extensions registered by the script only apply to this run
+			const extensions = this.extensions.fork();
+			const converted: { typst?: string; sourceMap?: TypstSourceMap } =
+				{};
 			const convertFn = this.createAstConverter(
 				currentFile ?? "",
-				maxEmbedDepth
+				maxEmbedDepth,
+				(md, result) => {
+					if (md === markdown) {
+						Object.assign(converted, result);
+					}
+				},
+				extensions,
+				embedModules
 			);
 
-			// Pass the conversion function into the sandbox
+			// Trees parsed from the whole note also provide the source map when generated
+			const transformOptions = {
+				...this.buildTransformOptions(
+					maxEmbedDepth,
+					currentFile,
+					embedModules
+				),
+				extensions,
+			};
+			const noteTrees = new WeakSet<Root>();
+			const transformer = createSandboxTransformer(extensions, {
+				parse: async (md) => {
+					const tree = await parseMarkdown(md, transformOptions);
+					if (md === markdown) {
+						noteTrees.add(tree);
+					}
+					return tree;
+				},
+				generate: async (tree, generateOptions = {}) => {
+					const result = await generateTypst(
+						tree,
+						{ ...transformOptions, ...generateOptions },
+						{
+							app: this.app,
+							vault: this.app.vault,
+							currentFile: currentFile ?? "",
+						}
+					);
+					if (noteTrees.has(tree)) {
+						Object.assign(converted, result);
+					}
+					return result.typst;
+				},
+			});
+
+			// Pass the conversion function and AST API into the sandbox
 			typstContent = await executeSandbox(
 				scriptCode,
 				markdown,
-				convertFn
+				convertFn,
+				transformer
 			);
+
+			if (converted.typst !== undefined && converted.sourceMap) {
+				sourceMap = offsetSourceMap(
+					converted.sourceMap,
+					typstContent,
+					converted.typst
+				);
+			}
 		} else {
 			const embedEnvironment: EmbedEnvironment = {
 				app: this.app,
@@ -236,40 +742,94 @@ export class TypstConverter {
 				currentFile: currentFile ?? "",
 			};
 
-			typstContent = await markdownToTypst(
-				markdown,
-				{
-					maxEmbedDepth,
-					enableCheckboxEnhancement:
-						this.settings.enableCheckboxEnhancement ?? true,
-				},
-				embedEnvironment
-			);
+			({ typst: typstContent, sourceMap } =
+				await markdownToTypstWithSourceMap(
+					markdown,
+					this.buildTransformOptions(
+						maxEmbedDepth,
+						currentFile,
+						embedModules
+					),
+					embedEnvironment
+				));
 		}
 
 		// Step 2: Apply template (if enabled and template name provided)
 		if (this.settings.enableTemplateSystem && templateName) {
-			typstContent = await this.applyTemplate(typstContent, templateName);
+			const body = typstContent;
+			typstContent = await this.applyTemplate(
+				body,
+				templateName,
+				this.getFrontmatter(currentFile, markdown)
+			);
+			sourceMap = offsetSourceMap(sourceMap, typstContent, body);
 		}
 
-		return typstContent;
+		return { typst: typstContent, sourceMap };
 	}
 
 	/**
-	 * Apply template to converted Typst content (prepend template)
+	 * Apply template to converted Typst content
+	 * Supports prepend, `{{content}}` slot and `//@wrap` templates (see typstTemplateProtocol)
 	 * @param content Converted Typst content
 	 * @param templateName Template name to apply
-	 * @returns Template + content
+	 * @param frontmatter Note frontmatter passed to the template
+	 * @returns Combined Typst document
+	 * @throws TemplateParameterError when frontmatter does not satisfy the template schema
 	 */
 	private async applyTemplate(
 		content: string,
-		templateName: string
+		templateName: string,
+		frontmatter: Record<string, unknown>
 	): Promise<string> {
 		const templateContent = await this.templateManager.loadTemplate(
 			templateName
 		);
-		// Prepend template to content with clear separator
-		return `${templateContent}\n\n${content}`;
+		const parameters = resolveTemplateParameters(
+			parseTemplateSchema(templateContent),
+			frontmatter,
+			templateName
+		);
+		return applyTemplate(templateContent, content, frontmatter, parameters);
+	}
+
+	/**
+	 * Get the parameter schema declared by a template (`//@param` lines)
+	 * @param templateName Template name
+	 * @returns Declared parameters, empty when the template has no schema
+	 */
+	async getTemplateSchema(templateName: string): Promise<TemplateParameter[]> {
+		const templateContent = await this.templateManager.loadTemplate(
+			templateName
+		);
+		return parseTemplateSchema(templateContent);
+	}
+
+	/**
+	 * Get the cached metadata of a vault file, if it exists
+	 */
+	private getFileMetadata(path?: string): CachedMetadata | null {
+		const file = path ? this.app.vault.getAbstractFileByPath(path) : null;
+		return file instanceof TFile
+			? this.app.metadataCache.getFileCache(file)
+			: null;
+	}
+
+	/**
+	 * Frontmatter of the note being converted
+	 * Falls back to parsing the Markdown when the note is not in the metadata cache
+	 */
+	private getFrontmatter(
+		currentFile: string | undefined,
+		markdown: string
+	): Record<string, unknown> {
+		const cached = this.getFileMetadata(currentFile)?.frontmatter;
+		if (cached) {
+			return { ...cached };
+		}
+
+		const match = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/.exec(markdown);
+		return match ? parseFrontmatter(match[1]) : {};
 	}
 
 	private async runWithScriptEngine(
@@ -297,11 +857,7 @@ export class TypstConverter {
 		};
 		return markdownToTypst(
 			markdown,
-			{
-				maxEmbedDepth: this.settings.maxEmbedDepth,
-				enableCheckboxEnhancement:
-					this.settings.enableCheckboxEnhancement ?? true,
-			},
+			this.buildTransformOptions(undefined, file.path),
 			embedEnvironment
 		);
 	}
@@ -410,9 +966,19 @@ export class TypstConverter {
 			}
 		}
 
+		// Fonts shipped in template bundles live in the template directory
+		const templateDirectory = normalizePath(
+			this.settings.templateDirectory || "typst-templates"
+		);
+		const fontPathArg =
+			this.settings.enableTemplateSystem &&
+			(await adapter.exists(templateDirectory))
+				? ` --font-path "${adapter.getFullPath(templateDirectory)}"`
+				: "";
+
 		await new Promise<void>((resolve, reject) => {
 			// Use resolved path with proper quoting
-			const command = `"${typstCliPath}" compile --root "${vaultRoot}" --format ${format} "${fullPath}" "${fullOutputPath}"`;
+			const command = `"${typstCliPath}" compile --root "${vaultRoot}"${fontPathArg} --format ${format} "${fullPath}" "${fullOutputPath}"`;
 			exec(command, (error, stdout, stderr) => {
 				if (error) {
 					const message = stderr || stdout || error.message;
@@ -445,7 +1011,13 @@ export class TypstConverter {
 	 */
 	private createAstConverter(
 		currentFile: string,
-		maxEmbedDepth: number = this.settings.maxEmbedDepth
+		maxEmbedDepth: number = this.settings.maxEmbedDepth,
+		onConverted?: (
+			md: string,
+			result: { typst: string; sourceMap: TypstSourceMap }
+		) => void,
+		extensions: TransformerExtensions = this.extensions,
+		embedModules?: Map<string, string>
 	): (md: string) => Promise<string> {
 		return async (md: string): Promise<string> => {
 			const embedEnvironment: EmbedEnvironment = {
@@ -453,15 +1025,77 @@ export class TypstConverter {
 				vault: this.app.vault,
 				currentFile,
 			};
-			return markdownToTypst(
+			const result = await markdownToTypstWithSourceMap(
 				md,
 				{
-					maxEmbedDepth,
-					enableCheckboxEnhancement:
-						this.settings.enableCheckboxEnhancement ?? true,
+					...this.buildTransformOptions(
+						maxEmbedDepth,
+						currentFile,
+						embedModules
+					),
+					extensions,
 				},
 				embedEnvironment
 			);
+			onConverted?.(md, result);
+			return result.typst;
+		};
+	}
+
+	/**
+	 * Build AST transformer options from plugin settings
+	 *
+	 * @param maxEmbedDepth - Max embed depth
+	 * @param currentFile - Path of the note being converted (for per-note overrides)
+	 * @param embedModules - Collects embedded note modules; enables `#include` output
+	 * @returns Partial transform options passed to markdownToTypst
+	 */
+	private buildTransformOptions(
+		maxEmbedDepth: number = this.settings.maxEmbedDepth,
+		currentFile?: string,
+		embedModules?: Map<string, string>
+	): Partial<TypstTransformOptions> {
+		const metadata = this.getFileMetadata(currentFile);
+
+		return {
+			...(embedModules && {
+				embedOutput: "include",
+				embedModulePath: (path: string) => this.buildEmbedModulePath(path),
+				onEmbedModule: (path: string, typst: string) => {
+					embedModules.set(path, typst);
+				},
+			}),
+			maxEmbedDepth,
+			enableCheckboxEnhancement:
+				this.settings.enableCheckboxEnhancement ?? true,
+			translateLatexMath: this.settings.translateLatexMath ?? true,
+			enableFigures: this.settings.enableFigures ?? false,
+			calloutStyleOverrides: this.settings.calloutStyleOverrides ?? "",
+			preserveFrontmatter: this.settings.applyFrontmatterMetadata ?? true,
+			frontmatterMapping: parseFrontmatterMapping(
+				this.settings.frontmatterMapping ?? ""
+			),
+			wikiLinkPolicy: this.selectLinkPolicy(metadata),
+			embedStyle: this.selectEmbedStyle(metadata),
+			...this.selectSlideOptions(metadata),
+			bibliography: this.selectBibliography(metadata, currentFile ?? ""),
+			citationStyle: this.selectCitationStyle(metadata),
+			vaultName: this.app.vault.getName(),
+			extensions: this.extensions,
+			cache:
+				this.settings.enableIncrementalCache === false
+					? undefined
+					: this.conversionCache,
+			onMathError: (latex, errors) => {
+				console.warn(
+					`[TypstConverter] LaTeX math not translated (${errors.join("; ")}): ${latex}`
+				);
+			},
+			onUnknownNode: (type) => {
+				console.warn(
+					`[TypstConverter] Unsupported Markdown node "${type}" exported as plain text`
+				);
+			},
 		};
 	}
 
@@ -663,6 +1297,67 @@ export class TypstConverter {
 		}
 	}
 
+	/**
+	 * Write embedded note modules, skipping modules whose content is unchanged
+	 * A note embedded in several documents is written once and shared
+	 * @param modules Vault path -> Typst content
+	 */
+	async writeEmbedModules(modules: Map<string, string>): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		for (const [path, content] of modules) {
+			if ((await adapter.exists(path)) && (await adapter.read(path)) === content) {
+				continue;
+			}
+			await this.writeTypstFile(path, content);
+		}
+	}
+
+	/**
+	 * Vault path of the module written for an embedded note (modular output)
+	 * Mirrors the intermediate .typ location of the note, e.g. `notes/ch1.md` -> `notes/ch1.embed.typ`
+	 */
+	private buildEmbedModulePath(notePath: string): string {
+		const file = this.app.vault.getAbstractFileByPath(notePath);
+		const typstPath =
+			file instanceof TFile
+				? this.buildTypstPathNew(file)
+				: notePath.replace(/\.md$/i, ".typ");
+		return typstPath.replace(/\.typ$/i, ".embed.typ");
+	}
+
+	/**
+	 * Import a .typ file as a Markdown note next to it
+	 * An existing note is never overwritten: a numbered name is used instead
+	 * @param file Typst file
+	 * @param silent Whether to suppress notifications
+	 * @returns The created note
+	 */
+	async importTypstFile(file: TFile, silent = false): Promise<TFile> {
+		const typst = await this.app.vault.read(file);
+		const { markdown, warnings } = typstToMarkdown(typst, {
+			currentFile: file.path,
+		});
+
+		const base = file.path.replace(/\.typ$/i, "");
+		let path = `${base}.md`;
+		for (let index = 1; this.app.vault.getAbstractFileByPath(path); index++) {
+			path = `${base} ${index}.md`;
+		}
+		const note = await this.app.vault.create(path, markdown);
+
+		warnings.forEach((warning) =>
+			console.warn(`[Typst import] ${file.path}: ${warning}`)
+		);
+		if (!silent) {
+			new Notice(
+				warnings.length > 0
+					? `Imported ${note.path} (${warnings.length} part(s) kept as Typst, see console)`
+					: `Imported ${note.path}`
+			);
+		}
+		return note;
+	}
+
 	/**
 	 * 显示带交互按钮的 Notice
 	 * @param outputPath 输出文件的 vault 相对路径
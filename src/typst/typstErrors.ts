@@ -1,5 +1,5 @@
 /**
- * Typst CLI related error types
+ * Typst CLI and template related error types
  */
 
 /**
@@ -43,3 +43,73 @@ export class TypstInvalidPathError extends Error {
 		return `❌ Invalid Typst path: ${this.path}\n💡 ${this.reason}`;
 	}
 }
+
+/**
+ * Error thrown when frontmatter values do not satisfy a template's parameter schema
+ */
+export class TemplateParameterError extends Error {
+	constructor(
+		public templateName: string,
+		public issues: string[],
+	) {
+		super(
+			`Invalid parameters for template "${templateName}": ${issues.join("; ")}`
+		);
+		this.name = "TemplateParameterError";
+	}
+
+	/**
+	 * Format error message for user display
+	 */
+	toUserMessage(): string {
+		return [
+			`❌ Template "${this.templateName}" parameters are invalid:`,
+			...this.issues.map((issue) => `  • ${issue}`),
+			"💡 Fix the frontmatter or use \"Edit template parameters\".",
+		].join("\n");
+	}
+}
+
+/**
+ * Error thrown when `//@extends` or `//@include` references cannot be resolved
+ */
+export class TemplateCompositionError extends Error {
+	constructor(
+		public templateName: string,
+		public reason: string,
+	) {
+		super(`Cannot compose template "${templateName}": ${reason}`);
+		this.name = "TemplateCompositionError";
+	}
+
+	/**
+	 * Format error message for user display
+	 */
+	toUserMessage(): string {
+		return `❌ Cannot compose template "${this.templateName}"\n💡 ${this.reason}`;
+	}
+}
+
+/**
+ * Error thrown when a book manifest lists chapters that cannot be resolved
+ */
+export class BookManifestError extends Error {
+	constructor(
+		public manifestPath: string,
+		public issues: string[],
+	) {
+		super(`Invalid book manifest "${manifestPath}": ${issues.join("; ")}`);
+		this.name = "BookManifestError";
+	}
+
+	/**
+	 * Format error message for user display
+	 */
+	toUserMessage(): string {
+		return [
+			`❌ Book "${this.manifestPath}" cannot be built:`,
+			...this.issues.map((issue) => `  • ${issue}`),
+			"💡 Fix typst-book or typst-book-folder in the note's frontmatter.",
+		].join("\n");
+	}
+}
@@ -0,0 +1,71 @@
+import type { Extension } from "@codemirror/state";
+import { EditorView, ViewPlugin, ViewUpdate } from "@codemirror/view";
+import { debounce, editorInfoField, TFile } from "obsidian";
+
+/**
+ * Editor position reported to the Typst preview
+ */
+export interface EditorSyncEvent {
+	file: TFile;
+	kind: "cursor" | "scroll";
+	line: number; // Cursor line for "cursor", first visible line for "scroll" (1-based)
+}
+
+/**
+ * Editor extension reporting cursor moves and scrolling of Markdown notes,
+ * used to keep the Typst preview in sync with the editor
+ */
+export function createPreviewSyncExtension(
+	onSync: (event: EditorSyncEvent) => void
+): Extension {
+	const fileOf = (view: EditorView): TFile | null =>
+		view.state.field(editorInfoField, false)?.file ?? null;
+
+	const reportScroll = debounce(
+		(view: EditorView) => {
+			const file = fileOf(view);
+			if (!file) {
+				return;
+			}
+			// Offset of the visible top edge within the document
+			const top = view.scrollDOM.getBoundingClientRect().top - view.documentTop;
+			const block = view.lineBlockAtHeight(Math.max(top, 0));
+			onSync({
+				file,
+				kind: "scroll",
+				line: view.state.doc.lineAt(block.from).number,
+			});
+		},
+		50,
+		false
+	);
+
+	// Scroll events fire on the scroll container, not on the content DOM
+	const scrollListener = ViewPlugin.define((view) => {
+		const listener = () => reportScroll(view);
+		view.scrollDOM.addEventListener("scroll", listener, { passive: true });
+		return {
+			destroy: () =>
+				view.scrollDOM.removeEventListener("scroll", listener),
+		};
+	});
+
+	return [
+		EditorView.updateListener.of((update: ViewUpdate) => {
+			if (!update.selectionSet || update.docChanged) {
+				return;
+			}
+			const file = fileOf(update.view);
+			if (!file) {
+				return;
+			}
+			const head = update.state.selection.main.head;
+			onSync({
+				file,
+				kind: "cursor",
+				line: update.state.doc.lineAt(head).number,
+			});
+		}),
+		scrollListener,
+	];
+}
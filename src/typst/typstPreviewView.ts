@@ -5,6 +5,7 @@
 
 import {
 	ItemView,
+	MarkdownView,
 	Notice,
 	Platform,
 	TFile,
@@ -13,6 +14,17 @@ import {
 } from "obsidian";
 import type { TypstWasmRenderer } from "./typstWasmRenderer";
 import type { TypstConverter } from "./typstConverter";
+import type { TypstSourceMap } from "./transformer";
+import type { EditorSyncEvent } from "./typstPreviewSync";
+import {
+	findAnchorAtOffset,
+	findAnchorForLine,
+	injectSourceMarkers,
+	parseSourcePositions,
+	SOURCE_MARKER_LABEL,
+	type PreviewAnchor,
+	type SourcePosition,
+} from "./typstSourceMap";
 import { exec } from "child_process";
 import { TypstPathResolver } from "./typstPathResolver";
 import { TypstNotFoundError, TypstInvalidPathError } from "./typstErrors";
@@ -25,6 +37,9 @@ export class TypstPreviewView extends ItemView {
 	private currentSvg: string = "";
 	private readonly pathResolver: TypstPathResolver;
 
+	// Where each Markdown block starts in the rendered SVG (WASM mode only)
+	private sourcePositions: SourcePosition[] = [];
+
 	// UI containers
 	private previewContainer: HTMLElement;
 
@@ -98,6 +113,19 @@ export class TypstPreviewView extends ItemView {
 			cls: "typst-preview-container",
 		});
 
+		// Click on the preview: move the editor cursor to the originating line
+		this.registerDomEvent(this.previewContainer, "click", (event) => {
+			const anchors = this.computeAnchors();
+			const top =
+				event.clientY -
+				this.previewContainer.getBoundingClientRect().top +
+				this.previewContainer.scrollTop;
+			const index = findAnchorAtOffset(anchors, top);
+			if (index !== -1) {
+				this.revealEditorLine(anchors[index].line);
+			}
+		});
+
 		// Initial placeholder
 		this.showPlaceholder(
 			"No preview available. Edit a Markdown file with 'bon-typst' tag."
@@ -120,8 +148,13 @@ export class TypstPreviewView extends ItemView {
 	 * @param file Source Markdown file
 	 * @param typstCode Typst code
 	 */
-	public async updatePreview(file: TFile, typstCode: string): Promise<void> {
+	public async updatePreview(
+		file: TFile,
+		typstCode: string,
+		sourceMap: TypstSourceMap = []
+	): Promise<void> {
 		this.sourceFile = file;
+		this.sourcePositions = [];
 
 		// Show loading state
 		this.previewContainer.empty();
@@ -132,7 +165,7 @@ export class TypstPreviewView extends ItemView {
 
 		try {
 			// Render SVG using WASM
-			const svg = await this.renderer.renderToSVG(typstCode);
+			const svg = await this.renderWithSourceMarkers(typstCode, sourceMap);
 			this.currentSvg = svg;
 
 			// Remove loading indicator
@@ -157,13 +190,16 @@ export class TypstPreviewView extends ItemView {
 	 * @param file Source Markdown file
 	 * @param typstCode Typst code
 	 * @param compileFormat CLI compilation format (used on fallback)
+	 * @param sourceMap Markdown line -> Typst line mapping, enables editor sync
 	 */
 	public async updatePreviewWithFallback(
 		file: TFile,
 		typstCode: string,
-		compileFormat: "pdf" | "png" | "svg" = "svg"
+		compileFormat: "pdf" | "png" | "svg" = "svg",
+		sourceMap: TypstSourceMap = []
 	): Promise<void> {
 		this.sourceFile = file;
+		this.sourcePositions = [];
 
 		// Show loading state
 		this.previewContainer.empty();
@@ -174,7 +210,7 @@ export class TypstPreviewView extends ItemView {
 
 		try {
 			// Try rendering SVG with WASM
-			const svg = await this.renderer.renderToSVG(typstCode);
+			const svg = await this.renderWithSourceMarkers(typstCode, sourceMap);
 			this.currentSvg = svg;
 
 			// Remove loading indicator
@@ -254,6 +290,7 @@ export class TypstPreviewView extends ItemView {
 		format: "pdf" | "png" | "svg"
 	): Promise<void> {
 		this.sourceFile = file;
+		this.sourcePositions = [];
 
 		// Show loading state
 		this.previewContainer.empty();
@@ -390,6 +427,147 @@ export class TypstPreviewView extends ItemView {
 		}
 	}
 
+	/**
+	 * Render with invisible markers before each mapped block and read their positions.
+	 * Falls back to plain rendering when the markers cannot be placed.
+	 */
+	private async renderWithSourceMarkers(
+		typstCode: string,
+		sourceMap: TypstSourceMap
+	): Promise<string> {
+		if (!sourceMap.length) {
+			return this.renderer.renderToSVG(typstCode);
+		}
+
+		const markedCode = injectSourceMarkers(typstCode, sourceMap);
+		let svg: string;
+		try {
+			svg = await this.renderer.renderToSVG(markedCode);
+		} catch (error) {
+			console.warn("Typst preview sync disabled for this render:", error);
+			return this.renderer.renderToSVG(typstCode);
+		}
+
+		try {
+			this.sourcePositions = parseSourcePositions(
+				await this.renderer.query(
+					markedCode,
+					`<${SOURCE_MARKER_LABEL}>`,
+					"value"
+				)
+			);
+		} catch (error) {
+			console.warn("Failed to query Typst source positions:", error);
+		}
+		return svg;
+	}
+
+	/**
+	 * Convert marker positions (page, pt) to offsets in the preview container (px)
+	 */
+	private computeAnchors(): PreviewAnchor[] {
+		const svgEl = this.previewContainer.querySelector("svg");
+		const viewBox = svgEl?.viewBox?.baseVal;
+		if (!svgEl || !viewBox || !viewBox.height || !this.sourcePositions.length) {
+			return [];
+		}
+
+		const scale = svgEl.getBoundingClientRect().height / viewBox.height;
+		const svgTop =
+			svgEl.getBoundingClientRect().top -
+			this.previewContainer.getBoundingClientRect().top +
+			this.previewContainer.scrollTop;
+
+		// Pages are stacked vertically: <g class="typst-page" transform="translate(x, y)">
+		const pageOffsets = Array.from(
+			svgEl.querySelectorAll(".typst-page")
+		).map((page) => {
+			const match = /translate\(\s*[-\d.]+[\s,]+([-\d.]+)/.exec(
+				page.getAttribute("transform") ?? ""
+			);
+			return match ? Number(match[1]) : 0;
+		});
+
+		return this.sourcePositions.map((position) => ({
+			line: position.line,
+			top:
+				svgTop +
+				((pageOffsets[position.page - 1] ?? 0) + position.y) * scale,
+		}));
+	}
+
+	/**
+	 * Follow the editor: scroll to the first visible block, or highlight the
+	 * block containing the cursor
+	 */
+	public syncWithEditor(event: EditorSyncEvent): void {
+		if (!this.sourceFile || event.file.path !== this.sourceFile.path) {
+			return;
+		}
+
+		const anchors = this.computeAnchors();
+		const index = findAnchorForLine(anchors, event.line);
+		if (index === -1) {
+			return;
+		}
+
+		const top = anchors[index].top;
+		if (event.kind === "scroll") {
+			this.previewContainer.scrollTop = Math.max(top - 16, 0);
+			return;
+		}
+
+		const bottom =
+			anchors[index + 1]?.top ??
+			this.previewContainer.scrollHeight - 16;
+		this.highlightRegion(top, bottom);
+
+		const visibleTop = this.previewContainer.scrollTop;
+		const visibleBottom = visibleTop + this.previewContainer.clientHeight;
+		if (top < visibleTop || top > visibleBottom) {
+			this.previewContainer.scrollTop = Math.max(top - 16, 0);
+		}
+	}
+
+	private highlightRegion(top: number, bottom: number): void {
+		let highlightEl = this.previewContainer.querySelector<HTMLElement>(
+			".typst-preview-sync-highlight"
+		);
+		if (!highlightEl) {
+			highlightEl = this.previewContainer.createDiv({
+				cls: "typst-preview-sync-highlight",
+			});
+		}
+		highlightEl.style.top = `${top}px`;
+		highlightEl.style.height = `${Math.max(bottom - top, 4)}px`;
+	}
+
+	/**
+	 * Move the cursor of the source note's editor to a Markdown line
+	 */
+	private revealEditorLine(line: number): void {
+		if (!this.sourceFile) {
+			return;
+		}
+
+		const leaf = this.app.workspace
+			.getLeavesOfType("markdown")
+			.find(
+				(candidate) =>
+					candidate.view instanceof MarkdownView &&
+					candidate.view.file?.path === this.sourceFile?.path
+			);
+		if (!leaf || !(leaf.view instanceof MarkdownView)) {
+			return;
+		}
+
+		const position = { line: line - 1, ch: 0 };
+		const editor = leaf.view.editor;
+		editor.setCursor(position);
+		editor.scrollIntoView({ from: position, to: position }, true);
+		this.app.workspace.setActiveLeaf(leaf, { focus: true });
+	}
+
 	/**
 	 * Render SVG to container
 	 */
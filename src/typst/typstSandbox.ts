@@ -1,20 +1,79 @@
+import type { Root } from "mdast";
+import { visit } from "unist-util-visit";
+import {
+	BUILTIN_PLUGIN_ORDER,
+	mapTree,
+	type GenerateOptions,
+	type NodeGeneratorRegistration,
+	type RemarkPluginRegistration,
+	type TransformerExtensions,
+} from "./transformer";
+
 /**
  * Type definition: the convert function injected into the sandbox
  */
 export type ConvertFunction = (markdown: string) => Promise<string>;
 
+/**
+ * Type definition: the AST API injected into the sandbox as `transformer`
+ */
+export interface SandboxTransformer {
+	/** Parse Markdown into the Obsidian-extended mdast */
+	parse(markdown: string): Promise<Root>;
+	/** Generate Typst from an mdast tree, with optional per-node-type generators */
+	generate(tree: Root, options?: GenerateOptions): Promise<string>;
+	/** unist-util-visit */
+	visit: typeof visit;
+	/** Replace, expand or remove nodes, top-down */
+	map: typeof mapTree;
+	registerRemarkPlugin(registration: RemarkPluginRegistration): () => void;
+	registerNodeGenerator(registration: NodeGeneratorRegistration): () => void;
+	BUILTIN_PLUGIN_ORDER: typeof BUILTIN_PLUGIN_ORDER;
+}
+
+/**
+ * Conversion functions bound to the note being converted
+ */
+export interface SandboxTransformerBindings {
+	parse: (markdown: string) => Promise<Root>;
+	generate: (tree: Root, options?: GenerateOptions) => Promise<string>;
+}
+
+/**
+ * Expose the AST transformer and a set of extensions to a script
+ * Registrations made by the script apply to its convertToTypst(), parse() and generate() calls
+ */
+export function createSandboxTransformer(
+	extensions: TransformerExtensions,
+	bindings: SandboxTransformerBindings
+): SandboxTransformer {
+	return {
+		parse: bindings.parse,
+		generate: bindings.generate,
+		visit,
+		map: mapTree,
+		registerRemarkPlugin: (registration) =>
+			extensions.registerRemarkPlugin(registration),
+		registerNodeGenerator: (registration) =>
+			extensions.registerNodeGenerator(registration),
+		BUILTIN_PLUGIN_ORDER,
+	};
+}
+
 /**
  * Execute a user script in a sandboxed environment.
  *
  * @param scriptCode - The user script code
  * @param content - The input content (Markdown)
  * @param convertFn - Optional conversion function (AST transformer), injected as convertToTypst
+ * @param transformer - Optional extension API, injected as transformer
  * @returns Promise resolving to the converted output
  */
 export async function executeSandbox(
 	scriptCode: string,
 	content: string,
-	convertFn?: ConvertFunction
+	convertFn?: ConvertFunction,
+	transformer?: SandboxTransformer
 ): Promise<string> {
 	try {
 		// Use AsyncFunction constructor for async execution
@@ -22,10 +81,11 @@ export async function executeSandbox(
 			async function () {}
 		).constructor;
 
-		// Create sandboxed function, injecting convertToTypst
+		// Create sandboxed function, injecting convertToTypst and transformer
 		const sandbox = new AsyncFunction(
 			"content",
 			"convertToTypst",
+			"transformer",
 			`"use strict";
 const app = undefined;
 const window = undefined;
@@ -40,7 +100,7 @@ return await transform(content);`
 		// Execute the sandbox, passing in content and convert function
 		// If convertFn is not provided, use a no-op function (for backward compatibility)
 		const defaultConvertFn = async (s: string) => s;
-		return await sandbox(content, convertFn || defaultConvertFn);
+		return await sandbox(content, convertFn || defaultConvertFn, transformer);
 	} catch (error) {
 		const message = error instanceof Error ? error.message : String(error);
 		throw new Error(`Script execution failed: ${message}`);
@@ -18,12 +18,59 @@ import type {
 	TypstPreviewMode,
 	TypstCompileFormat,
 } from "./typstSettings";
+import type { EmbedStyle, WikiLinkPolicy } from "./transformer";
 import { BonWorkflowSettingTab } from "../settingTab";
 import {
 	downloadAndCacheWasm,
 	loadLocalWasmFile,
 	WasmStorageInfo,
 } from "./typstWasmStorage";
+import type { TypstTemplateManager } from "./typstTemplateManager";
+import type { TypstConverter } from "./typstConverter";
+import type { TypstWasmRenderer } from "./typstWasmRenderer";
+import { TemplateParameterModal } from "./typstTemplateParameterModal";
+import { TemplateCompositionError } from "./typstErrors";
+import {
+	exportTemplateBundle,
+	TemplateBundleImportModal,
+} from "./typstTemplateBundleModal";
+
+/**
+ * Built-in Typst citation styles offered in settings
+ */
+const CITATION_STYLES: [string, string][] = [
+	["ieee", "IEEE"],
+	["apa", "APA"],
+	["chicago-author-date", "Chicago (author-date)"],
+	["chicago-notes", "Chicago (notes)"],
+	["mla", "MLA"],
+	["harvard-cite-them-right", "Harvard"],
+	["vancouver", "Vancouver"],
+	["american-physics-society", "American Physical Society"],
+	["nature", "Nature"],
+	["gb-7714-2015-numeric", "GB/T 7714-2015 (numeric)"],
+];
+
+/**
+ * Sample note rendered with each template for the template thumbnails
+ */
+const TEMPLATE_THUMBNAIL_MARKDOWN = `---
+title: Sample Document
+author: Bon Workflow
+---
+
+# Introduction
+
+This paragraph shows **body text**, _emphasis_ and a [link](https://typst.app).
+
+## Details
+
+- First item
+- Second item
+
+> [!note] Note
+> Callouts and headings follow the template styles.
+`;
 
 /**
  * Check if Typst CLI is installed and get version using path resolver
@@ -483,6 +530,85 @@ async function refreshTemplateOptions(
 	return templates;
 }
 
+/**
+ * Summarize which templates a template extends, includes and is used by
+ */
+async function describeTemplateDependencies(
+	manager: TypstTemplateManager,
+	templateName: string
+): Promise<string> {
+	const references = await manager.getTemplateReferences(templateName);
+	const dependents = await manager.getTemplateDependents(templateName);
+	const parts: string[] = [];
+
+	if (references.extends) {
+		parts.push(`extends ${references.extends}`);
+	}
+	if (references.includes.length) {
+		parts.push(`includes ${references.includes.join(", ")}`);
+	}
+	if (dependents.length) {
+		parts.push(`used by ${dependents.join(", ")}`);
+	}
+	return parts.join(" · ");
+}
+
+/**
+ * Parse SVG markup from the renderer into an element
+ */
+function parseSvg(markup: string): Element {
+	const svg = new DOMParser().parseFromString(markup, "image/svg+xml")
+		.documentElement;
+	if (svg.tagName.toLowerCase() !== "svg") {
+		throw new Error("Renderer returned invalid SVG");
+	}
+	return svg;
+}
+
+/**
+ * Render a thumbnail of the sample note for every template, one at a time.
+ * Stops as soon as the container is detached (settings tab hidden or redrawn).
+ */
+async function renderTemplateThumbnails(
+	containerEl: HTMLElement,
+	manager: TypstTemplateManager,
+	converter: TypstConverter,
+	renderer: TypstWasmRenderer
+): Promise<void> {
+	containerEl.empty();
+	const templates = await manager.listTemplates();
+
+	for (const templateName of templates) {
+		if (!containerEl.isConnected) {
+			return;
+		}
+		const card = containerEl.createDiv({ cls: "typst-template-thumbnail" });
+		const preview = card.createDiv({
+			cls: "typst-template-thumbnail-preview",
+			text: "Rendering…",
+		});
+		card.createDiv({
+			cls: "typst-template-thumbnail-name",
+			text: templateName,
+		});
+
+		try {
+			const typstCode = await converter.convertMarkdown(
+				TEMPLATE_THUMBNAIL_MARKDOWN,
+				{ transformMode: "ast", templateName }
+			);
+			const svg = await renderer.renderToSVG(typstCode);
+			preview.replaceChildren(parseSvg(svg));
+		} catch (error) {
+			const message =
+				error instanceof Error ? error.message : String(error);
+			preview.setText("Preview unavailable");
+			preview.setAttr("title", message);
+			preview.addClass("typst-template-thumbnail-error");
+		}
+	}
+}
+
 export function renderTypstSettings(
 	containerEl: HTMLElement,
 	plugin: BonWorkflow,
@@ -624,6 +750,42 @@ export function renderTypstSettings(
 				});
 		});
 
+	new Setting(section)
+		.setName("Embedded note output")
+		.setDesc(
+			"Inline embedded notes into the document, or write each one as a separate <name>.embed.typ " +
+				"next to its intermediate .typ and pull it in with #include (shared by every document embedding it)"
+		)
+		.addDropdown((dropdown) => {
+			dropdown.addOption("inline", "Inline");
+			dropdown.addOption("include", "Separate files (#include)");
+			dropdown
+				.setValue(typstSettings.embedOutputMode ?? "inline")
+				.onChange(async (value) => {
+					typstSettings.embedOutputMode = value as "inline" | "include";
+					await plugin.saveSettings();
+				});
+		});
+
+	new Setting(section)
+		.setName("Embedded note style")
+		.setDesc(
+			"How embedded notes are presented. Override per note with typst-embed-style in frontmatter " +
+				"or per embed with ![[note|inline]], |quote, |box or |pagebreak"
+		)
+		.addDropdown((dropdown) => {
+			dropdown.addOption("quote", "Quote with file path");
+			dropdown.addOption("inline", "Inline (content flows in)");
+			dropdown.addOption("box", "Bordered box with file path");
+			dropdown.addOption("pagebreak", "Start on a new page");
+			dropdown
+				.setValue(typstSettings.embedStyle ?? "quote")
+				.onChange(async (value) => {
+					typstSettings.embedStyle = value as EmbedStyle;
+					await plugin.saveSettings();
+				});
+		});
+
 	new Setting(section)
 		.setName("Enhanced checkbox support")
 		.setDesc(
@@ -645,6 +807,156 @@ export function renderTypstSettings(
 				})
 		);
 
+	new Setting(section)
+		.setName("Translate LaTeX math")
+		.setDesc(
+			"Convert LaTeX formulas to Typst math syntax. " +
+				"Formulas that cannot be translated are shown as highlighted source."
+		)
+		.addToggle((toggle) =>
+			toggle
+				.setValue(typstSettings.translateLatexMath ?? true)
+				.onChange(async (value) => {
+					typstSettings.translateLatexMath = value;
+					await plugin.saveSettings();
+				})
+		);
+
+	new Setting(section)
+		.setName("Figures and captions")
+		.setDesc(
+			"Wrap standalone images and tables in numbered figures. " +
+				"Captions come from a following italic line, the alt text or the embed alias; " +
+				"reference them with [[#^fig-id]] or @fig-id."
+		)
+		.addToggle((toggle) =>
+			toggle
+				.setValue(typstSettings.enableFigures ?? false)
+				.onChange(async (value) => {
+					typstSettings.enableFigures = value;
+					await plugin.saveSettings();
+				})
+		);
+
+	new Setting(section)
+		.setName("Incremental conversion cache")
+		.setDesc(
+			"Reuse the output of unchanged blocks and embedded notes between conversions, " +
+				"so large notes only regenerate what changed. " +
+				"Turn off if custom node generators depend on anything outside the node."
+		)
+		.addToggle((toggle) =>
+			toggle
+				.setValue(typstSettings.enableIncrementalCache ?? true)
+				.onChange(async (value) => {
+					typstSettings.enableIncrementalCache = value;
+					await plugin.saveSettings();
+				})
+		);
+
+	new Setting(section)
+		.setName("Callout style overrides")
+		.setDesc(
+			"Typst snippet inserted after the built-in callout styles. " +
+				'Merge into bon-callout-styles to restyle or add types, e.g. #let bon-callout-styles = bon-callout-styles + ("warning": (fill: yellow.lighten(80%), border: orange, icon: "!", title: orange))'
+		)
+		.addTextArea((text) => {
+			text.inputEl.rows = 4;
+			text.inputEl.spellcheck = false;
+			text
+				.setPlaceholder("#let bon-callout-styles = bon-callout-styles + (...)")
+				.setValue(typstSettings.calloutStyleOverrides ?? "")
+				.onChange(async (value) => {
+					typstSettings.calloutStyleOverrides = value;
+					await plugin.saveSettings();
+				});
+		});
+
+	new Setting(section)
+		.setName("Links to other notes")
+		.setDesc(
+			"How [[wikilinks]] to other notes appear in the exported document. " +
+				"Links to headings and blocks of the same note always jump within the document. " +
+				"Override per note with the typst-link-policy frontmatter key."
+		)
+		.addDropdown((dropdown) => {
+			dropdown.addOption("link", "Obsidian URI (obsidian://open)");
+			dropdown.addOption("text", "Styled text");
+			dropdown.addOption("footnote", "Footnote with note title");
+			dropdown
+				.setValue(typstSettings.wikiLinkPolicy ?? "link")
+				.onChange(async (value) => {
+					typstSettings.wikiLinkPolicy = value as WikiLinkPolicy;
+					await plugin.saveSettings();
+				});
+		});
+
+	new Setting(section)
+		.setName("Frontmatter metadata")
+		.setDesc(
+			"Set the PDF title, author, date and keywords and the text language from frontmatter. " +
+				"Templates can read all fields from the bon-frontmatter dictionary."
+		)
+		.addToggle((toggle) =>
+			toggle
+				.setValue(typstSettings.applyFrontmatterMetadata ?? true)
+				.onChange(async (value) => {
+					typstSettings.applyFrontmatterMetadata = value;
+					await plugin.saveSettings();
+				})
+		);
+
+	new Setting(section)
+		.setName("Frontmatter key mapping")
+		.setDesc(
+			"One field per line as field: key1, key2 (fields: title, author, date, keywords, lang, region). " +
+				"The first key with a value wins; leave the keys empty to skip a field."
+		)
+		.addTextArea((text) => {
+			text.inputEl.rows = 4;
+			text.inputEl.spellcheck = false;
+			text
+				.setPlaceholder("author: author, authors\nkeywords: keywords, tags")
+				.setValue(typstSettings.frontmatterMapping ?? "")
+				.onChange(async (value) => {
+					typstSettings.frontmatterMapping = value;
+					await plugin.saveSettings();
+				});
+		});
+
+	new Setting(section)
+		.setName("Bibliography file")
+		.setDesc(
+			"Vault path of a .bib or Hayagriva .yml file used for [@key] citations. " +
+				"Override per note with the bibliography frontmatter key."
+		)
+		.addText((text) => {
+			text.setPlaceholder("references/library.bib")
+				.setValue(typstSettings.bibliographyPath ?? "")
+				.onChange(async (value) => {
+					typstSettings.bibliographyPath = value.trim();
+					await plugin.saveSettings();
+				});
+		});
+
+	new Setting(section)
+		.setName("Citation style")
+		.setDesc(
+			"Style of citations and the bibliography. " +
+				"Override per note with the citation-style frontmatter key."
+		)
+		.addDropdown((dropdown) => {
+			for (const [value, label] of CITATION_STYLES) {
+				dropdown.addOption(value, label);
+			}
+			dropdown
+				.setValue(typstSettings.citationStyle ?? "ieee")
+				.onChange(async (value) => {
+					typstSettings.citationStyle = value;
+					await plugin.saveSettings();
+				});
+		});
+
 	// 代码块渲染设置
 	new Setting(section).setHeading().setName("Code block rendering");
 	new Setting(section)
@@ -1289,9 +1601,10 @@ export function renderTypstSettings(
 		});
 
 	// Template list management
+	const templateListDesc = "Manage Typst templates (.typ files)";
 	const templateSetting = new Setting(section)
 		.setName("Template list")
-		.setDesc("Manage Typst templates (.typ files)");
+		.setDesc(templateListDesc);
 
 	let templateDropdown: DropdownComponent | null = null;
 	templateSetting.addDropdown((drop) => {
@@ -1299,14 +1612,31 @@ export function renderTypstSettings(
 		drop.setDisabled(!templateManager);
 	});
 
+	// Show the dependency relations of the selected template
+	const updateTemplateDependencies = async () => {
+		const templateName = templateDropdown?.getValue();
+		if (!templateManager || !templateName) {
+			return;
+		}
+		const dependencies = await describeTemplateDependencies(
+			templateManager,
+			templateName
+		);
+		templateSetting.setDesc(
+			dependencies
+				? `${templateListDesc}. "${templateName}" ${dependencies}`
+				: templateListDesc
+		);
+	};
+
 	let cachedTemplates: string[] = [];
-	if (templateManager && templateDropdown) {
+	const templateSelect = templateDropdown;
+	if (templateManager && templateSelect) {
 		void (async () => {
-			cachedTemplates = await refreshTemplateOptions(
-				templateDropdown!,
-				templateManager
-			);
+			cachedTemplates = await refreshTemplateOptions(templateSelect, templateManager);
+			await updateTemplateDependencies();
 		})();
+		templateSelect.onChange(() => void updateTemplateDependencies());
 	} else {
 		templateSetting.setDesc("Template manager is not initialized");
 	}
@@ -1364,7 +1694,17 @@ export function renderTypstSettings(
 								templateName,
 								newName
 							);
-							new Notice(`Template copied to: ${newName}`);
+							// References are copied as written, so the copy keeps the same relations
+							const dependencies =
+								await describeTemplateDependencies(
+									templateManager,
+									newName
+								);
+							new Notice(
+								dependencies
+									? `Template copied to: ${newName} (${dependencies})`
+									: `Template copied to: ${newName}`
+							);
 							cachedTemplates = await refreshTemplateOptions(
 								templateDropdown!,
 								templateManager
@@ -1405,7 +1745,14 @@ export function renderTypstSettings(
 					return;
 				}
 
-				const content = await templateManager.loadTemplate(
+				if (await templateManager.getBundleManifest(templateName)) {
+					new Notice(
+						`"${templateName}" is a bundle. Edit its files in ${templateManager.getBundleFolder(templateName)}.`
+					);
+					return;
+				}
+
+				const content = await templateManager.loadTemplateSource(
 					templateName
 				);
 				new ScriptEditorModal(plugin.app, {
@@ -1424,6 +1771,48 @@ export function renderTypstSettings(
 			})
 	);
 
+	// Parameters button: fill the selected template's schema for the active note
+	templateSetting.addButton((button) =>
+		button
+			.setButtonText("Parameters")
+			.setTooltip("Edit the template parameters of the active note")
+			.setDisabled(!templateManager || !converter)
+			.onClick(async () => {
+				if (!converter || !templateDropdown) {
+					return;
+				}
+				const templateName = templateDropdown.getValue();
+				if (!templateName) {
+					new Notice("Please select a template");
+					return;
+				}
+				const file = plugin.app.workspace.getActiveFile();
+				if (!file || file.extension.toLowerCase() !== "md") {
+					new Notice("Open a Markdown note to edit its parameters");
+					return;
+				}
+
+				let schema;
+				try {
+					schema = await converter.getTemplateSchema(templateName);
+				} catch (error) {
+					if (error instanceof TemplateCompositionError) {
+						new Notice(error.toUserMessage());
+						return;
+					}
+					const message =
+						error instanceof Error ? error.message : String(error);
+					new Notice(`Failed to load template parameters: ${message}`);
+					return;
+				}
+				new TemplateParameterModal(plugin.app, {
+					file,
+					templateName,
+					schema,
+				}).open();
+			})
+	);
+
 	// Delete button
 	templateSetting.addButton((button) =>
 		button
@@ -1460,6 +1849,82 @@ export function renderTypstSettings(
 			})
 	);
 
+	// Template bundles: a template folder with assets and a bundle.json manifest
+	new Setting(section)
+		.setName("Template bundles")
+		.setDesc(
+			"Import a bundle folder or zip archive from the vault, or export the selected template with its assets to typst-bundles/"
+		)
+		.addButton((button) =>
+			button
+				.setButtonText("Import")
+				.setDisabled(!templateManager)
+				.onClick(() => {
+					if (!templateManager) {
+						return;
+					}
+					new TemplateBundleImportModal(plugin.app, templateManager, () =>
+						settingTab.display()
+					).open();
+				})
+		)
+		.addButton((button) =>
+			button
+				.setButtonText("Export")
+				.setDisabled(!templateManager)
+				.onClick(async () => {
+					const templateName = templateDropdown?.getValue();
+					if (!templateManager || !templateName) {
+						new Notice("Please select a template to export");
+						return;
+					}
+					await exportTemplateBundle(templateManager, templateName);
+				})
+		)
+		.addButton((button) =>
+			button
+				.setButtonText("Export zip")
+				.setDisabled(!templateManager)
+				.onClick(async () => {
+					const templateName = templateDropdown?.getValue();
+					if (!templateManager || !templateName) {
+						new Notice("Please select a template to export");
+						return;
+					}
+					await exportTemplateBundle(templateManager, templateName, "zip");
+				})
+		);
+
+	// Template thumbnails rendered by the WASM renderer, only on request
+	const thumbnailSetting = new Setting(section)
+		.setName("Template thumbnails")
+		.setDesc("Sample note rendered with each template");
+	const thumbnailGrid = section.createDiv({
+		cls: "typst-template-thumbnails",
+	});
+	const renderer = plugin.getTypstWasmRenderer();
+	if (!renderer || !converter || !templateManager) {
+		thumbnailSetting.setDesc(
+			"Download the WASM renderer above to see template thumbnails"
+		);
+	} else {
+		thumbnailSetting.addButton((button) =>
+			button.setButtonText("Render").onClick(async () => {
+				button.setDisabled(true);
+				try {
+					await renderTemplateThumbnails(
+						thumbnailGrid,
+						templateManager,
+						converter,
+						renderer
+					);
+				} finally {
+					button.setDisabled(false);
+				}
+			})
+		);
+	}
+
 	// ===== Conversion Preview =====
 	new Setting(section)
 		.setName("Preview conversion")
@@ -1,3 +1,5 @@
+import type { EmbedStyle, WikiLinkPolicy } from "./transformer";
+
 export type TypstTransformMode = "ast" | "script";
 export type TypstPreviewMode = "compile" | "wasm" | "none";
 export type TypstCompileFormat = "pdf" | "png" | "svg";
@@ -29,6 +31,76 @@ export interface TypstSettings {
 	 * @default true
 	 */
 	enableCheckboxEnhancement: boolean;
+	/**
+	 * Translate LaTeX math ($...$ / $$...$$) into Typst math syntax
+	 * Disable when notes already contain Typst math
+	 * @default true
+	 */
+	translateLatexMath: boolean;
+	/**
+	 * Wrap standalone images and tables in numbered figures with captions
+	 * Enables `[[#^fig-id]]` / `@fig-id` cross-references in the output
+	 * @default false
+	 */
+	enableFigures: boolean;
+	/**
+	 * Reuse the output of unchanged top-level blocks and embedded notes between conversions
+	 * Statistics: "Show Typst conversion cache statistics" command
+	 * @default true
+	 */
+	enableIncrementalCache: boolean;
+	/**
+	 * How embedded notes are written when converting a note to a .typ file
+	 * - "inline": converted content is inlined in the document
+	 * - "include": each embedded note is written as its own `<name>.embed.typ` next to
+	 *   its intermediate .typ location and pulled in with `#include`
+	 * @default "inline"
+	 */
+	embedOutputMode: "inline" | "include";
+	/**
+	 * How embedded notes are presented: inlined, quoted, boxed or on a new page
+	 * Override per note with the `typst-embed-style` frontmatter key and per embed
+	 * with the display parameter, e.g. `![[note|inline]]`
+	 * @default "quote"
+	 */
+	embedStyle: EmbedStyle;
+	/**
+	 * Typst snippet that overrides the built-in callout style registry
+	 * @example `#let bon-callout-styles = bon-callout-styles + ("warning": (fill: yellow.lighten(80%), border: orange, icon: "!", title: orange))`
+	 * @default ""
+	 */
+	calloutStyleOverrides: string;
+	/**
+	 * How links to other notes are rendered: obsidian:// URIs, styled text or footnotes
+	 * Override per note with the `typst-link-policy` frontmatter key
+	 * @default "link"
+	 */
+	wikiLinkPolicy: WikiLinkPolicy;
+	/**
+	 * Default bibliography file (.bib or Hayagriva .yml) in the vault
+	 * Override per note with the `bibliography` frontmatter key
+	 * @default ""
+	 */
+	bibliographyPath: string;
+	/**
+	 * Map frontmatter (title, author, date, keywords, lang, region) to Typst document metadata
+	 * @default true
+	 */
+	applyFrontmatterMetadata: boolean;
+	/**
+	 * Frontmatter keys per document field, one `field: key1, key2` per line
+	 * Fields not listed use the built-in keys
+	 * @example "author: authors, creator
+keywords: keywords, tags"
+	 * @default ""
+	 */
+	frontmatterMapping: string;
+	/**
+	 * Citation style for #bibliography (built-in Typst style name or a .csl path)
+	 * Override per note with the `citation-style` frontmatter key
+	 * @default "ieee"
+	 */
+	citationStyle: string;
 	/**
 	 * User's default script name (used when no folder mapping or frontmatter script specified)
 	 * Note: "default" is a special read-only template script
@@ -124,6 +196,17 @@ export const DEFAULT_TYPST_SETTINGS: TypstSettings = {
 	compileFormat: "pdf", // Default output is PDF (can be displayed in preview view)
 	typstCliPath: undefined, // Auto-detect by default
 	enableCheckboxEnhancement: true, // Enable by default for full feature support
+	translateLatexMath: true,
+	enableFigures: false,
+	enableIncrementalCache: true,
+	embedOutputMode: "inline",
+	embedStyle: "quote",
+	calloutStyleOverrides: "",
+	wikiLinkPolicy: "link",
+	bibliographyPath: "",
+	applyFrontmatterMetadata: true,
+	frontmatterMapping: "",
+	citationStyle: "ieee",
 	defaultScriptName: "default", // Use default template script by default
 
 	// 模板系统默认值
@@ -0,0 +1,134 @@
+/**
+ * Source map helpers for preview sync
+ *
+ * The AST transformer maps the Markdown line range of each top-level block to the
+ * Typst lines it generated (see transformer/sourceMap). For the preview, a marker
+ * is placed before every mapped block; Typst reports where each marker lands, which
+ * gives the vertical position of every Markdown block in the rendered SVG.
+ */
+
+import type { TypstSourceMap } from "./transformer";
+
+export const SOURCE_MARKER_LABEL = "bon-src";
+
+/**
+ * Where a Markdown block starts in the rendered document
+ */
+export interface SourcePosition {
+	line: number; // Markdown line (1-based)
+	page: number; // Page number (1-based)
+	y: number; // Offset from the top of the page, in pt
+}
+
+/**
+ * A Markdown block start in preview coordinates
+ */
+export interface PreviewAnchor {
+	line: number; // Markdown line (1-based)
+	top: number; // Offset from the top of the preview content, in px
+}
+
+/**
+ * Shift a source map of `body` to the lines `body` occupies in `document`
+ * (e.g. after a template was applied or a script post-processed the output)
+ * @returns The shifted map, or an empty map when `body` is not part of `document`
+ */
+export function offsetSourceMap(
+	sourceMap: TypstSourceMap,
+	document: string,
+	body: string
+): TypstSourceMap {
+	const trimmed = body.trimEnd();
+	const index = trimmed ? document.indexOf(trimmed) : -1;
+	if (index === -1) {
+		return [];
+	}
+
+	const offset = document.slice(0, index).split("\n").length - 1;
+	return sourceMap.map((entry) => ({
+		markdown: entry.markdown,
+		typst: {
+			start: entry.typst.start + offset,
+			end: entry.typst.end + offset,
+		},
+	}));
+}
+
+/**
+ * Insert a position marker before the first Typst line of every mapped block
+ * Markers are invisible and only used for rendering the preview
+ */
+export function injectSourceMarkers(
+	typst: string,
+	sourceMap: TypstSourceMap
+): string {
+	const lines = typst.split("\n");
+	const markers = new Map<number, number>();
+	for (const entry of sourceMap) {
+		if (!markers.has(entry.typst.start)) {
+			markers.set(entry.typst.start, entry.markdown.start);
+		}
+	}
+
+	return lines
+		.map((text, index) => {
+			const line = markers.get(index + 1);
+			return line === undefined
+				? text
+				: `#context [#metadata((line: ${line}, page: here().page(), y: here().position().y.pt()))<${SOURCE_MARKER_LABEL}>]\n${text}`;
+		})
+		.join("\n");
+}
+
+/**
+ * Validate the values returned by querying the markers
+ */
+export function parseSourcePositions(value: unknown): SourcePosition[] {
+	if (!Array.isArray(value)) {
+		return [];
+	}
+	return value
+		.filter(
+			(item): item is SourcePosition =>
+				typeof item?.line === "number" &&
+				typeof item?.page === "number" &&
+				typeof item?.y === "number"
+		)
+		.map(({ line, page, y }) => ({ line, page, y }));
+}
+
+/**
+ * Find the anchor of the block containing a Markdown line
+ * @param anchors Anchors sorted by Markdown line
+ * @returns Index of the last anchor starting at or before the line, or -1
+ */
+export function findAnchorForLine(
+	anchors: PreviewAnchor[],
+	line: number
+): number {
+	let found = -1;
+	anchors.forEach((anchor, index) => {
+		if (anchor.line <= line) {
+			found = index;
+		}
+	});
+	return found;
+}
+
+/**
+ * Find the anchor of the block shown at a vertical preview offset
+ * @param anchors Anchors sorted by offset
+ * @returns Index of the last anchor at or above the offset, or -1
+ */
+export function findAnchorAtOffset(
+	anchors: PreviewAnchor[],
+	top: number
+): number {
+	let found = -1;
+	anchors.forEach((anchor, index) => {
+		if (anchor.top <= top) {
+			found = index;
+		}
+	});
+	return found;
+}
@@ -0,0 +1,185 @@
+/**
+ * Template bundles: a template together with its assets (images, fonts, CSL styles)
+ *
+ * A bundle is a folder holding a `bundle.json` manifest, the template entry file
+ * and the assets it references:
+ *
+ *   report/
+ *     bundle.json   { "name": "report", "template": "template.typ", "assets": ["logo.png", "fonts/Inter.ttf"] }
+ *     template.typ  #image("logo.png")
+ *     logo.png
+ *     fonts/Inter.ttf
+ *
+ * Installed bundles live in the template directory and are listed by folder name.
+ * Asset paths in the template are relative to the bundle folder; they are rewritten
+ * to vault-root paths on load, so compiled notes find the files wherever they are.
+ * Fonts are found through `--font-path <template directory>` when compiling.
+ * Bundles are imported from and exported to a folder or a zip archive of that folder
+ * (see typstZip); inside an archive the folder may be the root or a single top-level folder.
+ */
+
+export const BUNDLE_MANIFEST_FILENAME = "bundle.json";
+export const DEFAULT_BUNDLE_ENTRY = "template.typ";
+
+/** How an exported bundle is written to the vault */
+export type TemplateBundleFormat = "folder" | "zip";
+
+export interface TemplateBundleManifest {
+	name: string;
+	version?: string;
+	description?: string;
+	/** Template entry file, relative to the bundle folder */
+	template: string;
+	/** Asset files, relative to the bundle folder */
+	assets: string[];
+}
+
+// Typst string literals, e.g. "logo.png" in #image("logo.png")
+const STRING_LITERAL = /"((?:[^"\\\n]|\\.)*)"/g;
+
+function normalizeBundlePath(path: string): string {
+	return path.trim().replace(/\\/g, "/").replace(/^\.\//, "");
+}
+
+function isSafeRelativePath(path: string): boolean {
+	return (
+		Boolean(path) &&
+		!path.startsWith("/") &&
+		!/^[a-zA-Z]:/.test(path) &&
+		!path.split("/").includes("..")
+	);
+}
+
+/**
+ * Parse and validate a `bundle.json` manifest
+ * @throws Error describing the first invalid field
+ */
+export function parseBundleManifest(json: string): TemplateBundleManifest {
+	let data: unknown;
+	try {
+		data = JSON.parse(json);
+	} catch (error) {
+		const reason = error instanceof Error ? error.message : String(error);
+		throw new Error(`${BUNDLE_MANIFEST_FILENAME} is not valid JSON: ${reason}`);
+	}
+
+	if (!data || typeof data !== "object" || Array.isArray(data)) {
+		throw new Error(`${BUNDLE_MANIFEST_FILENAME} must contain an object`);
+	}
+	const manifest = data as Record<string, unknown>;
+
+	const name = typeof manifest.name === "string" ? manifest.name.trim() : "";
+	if (!name || /[/\\]/.test(name)) {
+		throw new Error(
+			`${BUNDLE_MANIFEST_FILENAME} needs a "name" without path separators`
+		);
+	}
+
+	const template = normalizeBundlePath(
+		typeof manifest.template === "string"
+			? manifest.template
+			: DEFAULT_BUNDLE_ENTRY
+	);
+	if (!isSafeRelativePath(template) || !template.endsWith(".typ")) {
+		throw new Error(`"template" must be a relative .typ path, got "${template}"`);
+	}
+
+	const rawAssets = manifest.assets ?? [];
+	if (!Array.isArray(rawAssets) || rawAssets.some((a) => typeof a !== "string")) {
+		throw new Error(`"assets" must be a list of relative paths`);
+	}
+	const assets = (rawAssets as string[]).map(normalizeBundlePath);
+	const unsafe = assets.find((asset) => !isSafeRelativePath(asset));
+	if (unsafe !== undefined) {
+		throw new Error(`Asset "${unsafe}" must be a path inside the bundle folder`);
+	}
+
+	return {
+		name,
+		version: typeof manifest.version === "string" ? manifest.version : undefined,
+		description:
+			typeof manifest.description === "string"
+				? manifest.description
+				: undefined,
+		template,
+		assets,
+	};
+}
+
+export function serializeBundleManifest(manifest: TemplateBundleManifest): string {
+	return `${JSON.stringify(manifest, null, "\t")}\n`;
+}
+
+/**
+ * Rewrite string literals naming bundle assets to vault-root paths
+ * e.g. `"logo.png"` -> `"/typst-templates/report/logo.png"` (compiled with `--root <vault>`)
+ * @param template Template source
+ * @param assets Asset paths from the manifest
+ * @param bundleFolder Vault path of the bundle folder
+ */
+export function rewriteAssetPaths(
+	template: string,
+	assets: string[],
+	bundleFolder: string
+): string {
+	const known = new Set(assets.map(normalizeBundlePath));
+	const root = normalizeBundlePath(bundleFolder).replace(/\/$/, "");
+
+	return template.replace(STRING_LITERAL, (literal, value: string) => {
+		const path = normalizeBundlePath(value);
+		return known.has(path) ? `"/${root}/${path}"` : literal;
+	});
+}
+
+/**
+ * Find vault-root paths (`"/folder/file.png"`) referenced by a template
+ * Used to collect the assets of a template when exporting it as a bundle
+ */
+export function findRootPaths(template: string): string[] {
+	const paths = new Set<string>();
+	for (const match of template.matchAll(STRING_LITERAL)) {
+		if (/^\/[^/\s]/.test(match[1]) && /\.[\w]+$/.test(match[1])) {
+			paths.add(match[1]);
+		}
+	}
+	return [...paths];
+}
+
+/**
+ * Map vault-root asset paths to paths inside an exported bundle and rewrite the template
+ * Assets already inside `bundleFolder` keep their relative path; others go to `assets/`
+ * @returns The rewritten template and the vault path -> bundle path mapping
+ */
+export function relocateAssets(
+	template: string,
+	rootPaths: string[],
+	bundleFolder?: string
+): { template: string; assets: Map<string, string> } {
+	const prefix = bundleFolder
+		? `/${normalizeBundlePath(bundleFolder).replace(/\/$/, "")}/`
+		: null;
+	const assets = new Map<string, string>();
+	const used = new Set<string>();
+
+	for (const rootPath of rootPaths) {
+		let target =
+			prefix && rootPath.startsWith(prefix)
+				? rootPath.slice(prefix.length)
+				: `assets/${rootPath.split("/").pop()}`;
+
+		// Two assets with the same file name from different folders
+		const [, stem, extension] = /^(.*?)(\.[^./]*)?$/.exec(target) ?? [];
+		for (let index = 2; used.has(target); index++) {
+			target = `${stem}-${index}${extension ?? ""}`;
+		}
+		used.add(target);
+		assets.set(rootPath.slice(1), target);
+	}
+
+	const rewritten = template.replace(STRING_LITERAL, (literal, value: string) => {
+		const target = assets.get(value.slice(1));
+		return value.startsWith("/") && target ? `"${target}"` : literal;
+	});
+
+	return { template: rewritten, assets };
+}
@@ -0,0 +1,126 @@
+import { App, FuzzySuggestModal, Modal, Notice, Setting, TFile, TFolder } from "obsidian";
+import type { TypstTemplateManager } from "./typstTemplateManager";
+import { BUNDLE_MANIFEST_FILENAME, type TemplateBundleFormat } from "./typstTemplateBundle";
+
+export const DEFAULT_BUNDLE_EXPORT_FOLDER = "typst-bundles";
+
+/**
+ * Export a template as a bundle folder or zip archive and report the result
+ */
+export async function exportTemplateBundle(
+	manager: TypstTemplateManager,
+	templateName: string,
+	format: TemplateBundleFormat = "folder",
+	targetFolder = DEFAULT_BUNDLE_EXPORT_FOLDER
+): Promise<void> {
+	try {
+		const path = await manager.exportBundle(templateName, targetFolder, format);
+		new Notice(`Template bundle exported: ${path}`);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		new Notice(`Bundle export failed: ${message}`);
+	}
+}
+
+/**
+ * Template Bundle Import Modal - Installs a bundle folder or zip archive
+ * from the vault into the template directory
+ */
+export class TemplateBundleImportModal extends Modal {
+	constructor(
+		app: App,
+		private readonly manager: TypstTemplateManager,
+		private readonly onImported?: (templateName: string) => void
+	) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		new Setting(contentEl).setHeading().setName("Import template bundle");
+
+		// Offer vault folders that contain a bundle manifest, and zip archives
+		const candidates = this.app.vault
+			.getAllLoadedFiles()
+			.filter(
+				(file) =>
+					(file instanceof TFolder &&
+						file.children.some(
+							(child) => child.name === BUNDLE_MANIFEST_FILENAME
+						)) ||
+					(file instanceof TFile && file.extension.toLowerCase() === "zip")
+			)
+			.map((file) => file.path);
+
+		let source = candidates[0] ?? "";
+		new Setting(contentEl)
+			.setName("Bundle")
+			.setDesc(
+				`Vault folder containing ${BUNDLE_MANIFEST_FILENAME}, or a zip archive of such a folder`
+			)
+			.addText((text) => {
+				text.setPlaceholder(`${DEFAULT_BUNDLE_EXPORT_FOLDER}/report`)
+					.setValue(source)
+					.onChange((value) => (source = value.trim()));
+				const listId = "typst-bundle-sources";
+				const list = contentEl.createEl("datalist", { attr: { id: listId } });
+				candidates.forEach((path) => list.createEl("option", { value: path }));
+				text.inputEl.setAttr("list", listId);
+			});
+
+		const buttons = contentEl.createDiv({ cls: "modal-button-container" });
+		buttons
+			.createEl("button", { text: "Cancel" })
+			.addEventListener("click", () => this.close());
+		buttons
+			.createEl("button", { text: "Import", cls: "mod-cta" })
+			.addEventListener("click", async () => {
+				if (!source) {
+					new Notice("Bundle path cannot be empty");
+					return;
+				}
+				try {
+					const templateName = await this.manager.importBundle(source);
+					new Notice(`Template bundle imported: ${templateName}`);
+					this.close();
+					this.onImported?.(templateName);
+				} catch (error) {
+					const message =
+						error instanceof Error ? error.message : String(error);
+					new Notice(`Bundle import failed: ${message}`);
+				}
+			});
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
+
+/**
+ * Template Suggest Modal - Picks a template by name
+ */
+export class TemplateSuggestModal extends FuzzySuggestModal<string> {
+	constructor(
+		app: App,
+		private readonly templates: string[],
+		private readonly onChoose: (templateName: string) => void
+	) {
+		super(app);
+		this.setPlaceholder("Choose a template");
+	}
+
+	getItems(): string[] {
+		return this.templates;
+	}
+
+	getItemText(item: string): string {
+		return item;
+	}
+
+	onChooseItem(item: string): void {
+		this.onChoose(item);
+	}
+}
@@ -0,0 +1,130 @@
+/**
+ * Template composition: templates can build on other templates in the template directory
+ *
+ * - `//@extends base`: the resolved `base` template is placed before this one.
+ *   Its `//@wrap` directive and `//@param` declarations are overridden by the
+ *   ones declared in the extending template.
+ * - `//@include partials/header`: the line is replaced by the resolved partial.
+ *   Partials may live in subfolders of the template directory.
+ */
+
+import { TemplateCompositionError } from "./typstErrors";
+
+export interface TemplateReferences {
+	extends?: string;
+	includes: string[];
+}
+
+/**
+ * Reads a template by name; returns null when it does not exist
+ */
+export type TemplateLoader = (name: string) => Promise<string | null>;
+
+const EXTENDS_DIRECTIVE = /^[ \t]*\/\/@extends[ \t]+(.+?)[ \t]*$/gm;
+const INCLUDE_DIRECTIVE = /^[ \t]*\/\/@include[ \t]+(.+?)[ \t]*$/gm;
+const WRAP_LINE = /^[ \t]*\/\/@wrap\b.*$/m;
+const PARAM_NAME = /^[ \t]*\/\/@param[ \t]+([\w-]+)/gm;
+
+export function normalizeTemplateReference(reference: string): string {
+	return reference
+		.trim()
+		.replace(/^(["'])(.*)\1$/, "$2")
+		.replace(/\\/g, "/")
+		.replace(/^\.?\//, "")
+		.replace(/\.typ$/, "");
+}
+
+/**
+ * Read the `//@extends` and `//@include` references of a template
+ */
+export function parseTemplateReferences(template: string): TemplateReferences {
+	const [extendsMatch] = template.matchAll(EXTENDS_DIRECTIVE);
+	return {
+		extends: extendsMatch
+			? normalizeTemplateReference(extendsMatch[1])
+			: undefined,
+		includes: [...template.matchAll(INCLUDE_DIRECTIVE)].map((match) =>
+			normalizeTemplateReference(match[1])
+		),
+	};
+}
+
+/**
+ * Remove the base template's directives that the extending template redeclares
+ */
+function stripOverriddenDirectives(base: string, template: string): string {
+	let result = base;
+
+	if (WRAP_LINE.test(template)) {
+		result = result.replace(new RegExp(`${WRAP_LINE.source}\\n?`, "gm"), "");
+	}
+
+	const declared = new Set(
+		[...template.matchAll(PARAM_NAME)].map((match) => match[1])
+	);
+	return result.replace(
+		new RegExp(`${PARAM_NAME.source}.*(?:\\n|$)`, "gm"),
+		(line, name: string) => (declared.has(name) ? "" : line)
+	);
+}
+
+async function resolve(
+	name: string,
+	template: string,
+	loader: TemplateLoader,
+	chain: string[]
+): Promise<string> {
+	const load = async (reference: string, relation: string) => {
+		if (chain.includes(reference)) {
+			throw new TemplateCompositionError(
+				chain[0],
+				`circular reference: ${[...chain, reference].join(" → ")}`
+			);
+		}
+		const content = await loader(reference);
+		if (content === null) {
+			throw new TemplateCompositionError(
+				chain[0],
+				`"${name}" ${relation} "${reference}", which does not exist`
+			);
+		}
+		return resolve(reference, content, loader, [...chain, reference]);
+	};
+
+	// Includes are resolved in order; each line is replaced by the partial
+	let body = "";
+	let lastIndex = 0;
+	for (const match of template.matchAll(INCLUDE_DIRECTIVE)) {
+		const index = match.index ?? 0;
+		body += template.slice(lastIndex, index);
+		body += (
+			await load(normalizeTemplateReference(match[1]), "includes")
+		).trimEnd();
+		lastIndex = index + match[0].length;
+	}
+	body += template.slice(lastIndex);
+
+	const { extends: base } = parseTemplateReferences(template);
+	if (!base) {
+		return body;
+	}
+
+	body = body.replace(EXTENDS_DIRECTIVE, "").replace(/^\n+/, "");
+	const baseContent = await load(base, "extends");
+	return `${stripOverriddenDirectives(baseContent, body).trimEnd()}\n\n${body}`;
+}
+
+/**
+ * Resolve `//@extends` and `//@include` references recursively
+ * @param name Template name (used for cycle detection and error messages)
+ * @param template Template source
+ * @param loader Reads referenced templates
+ * @throws TemplateCompositionError for missing references and cycles
+ */
+export function composeTemplate(
+	name: string,
+	template: string,
+	loader: TemplateLoader
+): Promise<string> {
+	return resolve(name, template, loader, [normalizeTemplateReference(name)]);
+}
@@ -1,5 +1,23 @@
-import { Vault } from "obsidian";
+import { normalizePath, Vault } from "obsidian";
 import { BaseContentManager } from "./typstBaseContentManager";
+import {
+	BUNDLE_MANIFEST_FILENAME,
+	DEFAULT_BUNDLE_ENTRY,
+	findRootPaths,
+	parseBundleManifest,
+	relocateAssets,
+	rewriteAssetPaths,
+	serializeBundleManifest,
+	type TemplateBundleFormat,
+	type TemplateBundleManifest,
+} from "./typstTemplateBundle";
+import {
+	composeTemplate,
+	normalizeTemplateReference,
+	parseTemplateReferences,
+	type TemplateReferences,
+} from "./typstTemplateComposition";
+import { createZip, readZip } from "./typstZip";
 
 const DEFAULT_TEMPLATE_NAME = "default";
 const DEFAULT_TEMPLATE_FILENAME = `${DEFAULT_TEMPLATE_NAME}.typ`;
@@ -26,6 +44,10 @@ const DEFAULT_TEMPLATE_CONTENT = `// Default Typst Template
 #set heading(numbering: "1.1")
 
 // Your document content will be appended below this template
+// To wrap the content instead, define a function taking \`body\` and add
+// a line "//@wrap <function-name>"; frontmatter fields matching its named
+// parameters are passed as arguments. Alternatively, put a content slot
+// marker (the word content in double curly braces) where the body belongs.
 `;
 
 /**
@@ -33,7 +55,13 @@ const DEFAULT_TEMPLATE_CONTENT = `// Default Typst Template
  * Extends BaseContentManager to inherit common file management operations
  *
  * Templates are pure Typst code files that define document styling and layout.
- * They are prepended to the converted Markdown content before compilation.
+ * By default they are prepended to the converted Markdown content; templates can
+ * also wrap the body with `//@wrap <function>` or place it at a `{{content}}` slot
+ * (see typstTemplateProtocol), and build on other templates with `//@extends`
+ * and `//@include` (see typstTemplateComposition).
+ *
+ * Besides single `.typ` files, the template directory can hold bundles: folders
+ * with a template, its assets and a `bundle.json` manifest (see typstTemplateBundle).
  */
 export class TypstTemplateManager extends BaseContentManager<string> {
 	protected readonly fileExtension = ".typ";
@@ -73,19 +101,316 @@ export class TypstTemplateManager extends BaseContentManager<string> {
 	}
 
 	/**
-	 * List available template names (without file extension).
+	 * List available template names (without file extension), including bundles.
 	 */
 	async listTemplates(): Promise<string[]> {
-		return this.listContents();
+		const templates = await this.listContents();
+		const bundles = await this.listBundles();
+		return [...templates, ...bundles.filter((name) => !templates.includes(name))];
+	}
+
+	/**
+	 * List installed template bundles (folders with a bundle.json manifest).
+	 */
+	async listBundles(): Promise<string[]> {
+		await this.ensureDirectory();
+		const adapter = this.vault.adapter;
+		const listing = await adapter.list(this.contentDirectory);
+		const bundles: string[] = [];
+
+		for (const folder of listing.folders) {
+			if (await adapter.exists(`${folder}/${BUNDLE_MANIFEST_FILENAME}`)) {
+				bundles.push(folder.split(/[/\\]/).pop() ?? folder);
+			}
+		}
+		return bundles;
+	}
+
+	/**
+	 * Read the manifest of an installed bundle.
+	 * @returns The manifest, or null if the template is not a bundle
+	 */
+	async getBundleManifest(templateName: string): Promise<TemplateBundleManifest | null> {
+		const manifestPath = `${this.getBundleFolder(templateName)}/${BUNDLE_MANIFEST_FILENAME}`;
+		if (!(await this.vault.adapter.exists(manifestPath))) {
+			return null;
+		}
+		return parseBundleManifest(await this.vault.adapter.read(manifestPath));
+	}
+
+	/**
+	 * Load a single-file template, or the entry file of a bundle with asset paths
+	 * rewritten to vault-root paths.
+	 */
+	async findContent(contentName: string): Promise<string | null> {
+		const content = await super.findContent(contentName);
+		if (content !== null) {
+			return content;
+		}
+
+		const manifest = await this.getBundleManifest(contentName);
+		if (!manifest) {
+			return null;
+		}
+		const folder = this.getBundleFolder(contentName);
+		const entryPath = `${folder}/${manifest.template}`;
+		if (!(await this.vault.adapter.exists(entryPath))) {
+			throw new Error(
+				`Bundle "${contentName}" is missing its template file ${manifest.template}`
+			);
+		}
+		return rewriteAssetPaths(
+			await this.vault.adapter.read(entryPath),
+			manifest.assets,
+			folder
+		);
+	}
+
+	/**
+	 * Install a bundle from a vault folder holding a bundle.json manifest,
+	 * or from a zip archive of such a folder.
+	 * @param source Vault path of the bundle folder or `.zip` file
+	 * @returns The installed template name
+	 */
+	async importBundle(source: string): Promise<string> {
+		const path = normalizePath(source);
+		const files = path.toLowerCase().endsWith(".zip")
+			? await this.readZipBundle(path)
+			: await this.readFolderBundle(path);
+
+		const manifestData = files.get(BUNDLE_MANIFEST_FILENAME);
+		if (!manifestData) {
+			throw new Error(`No ${BUNDLE_MANIFEST_FILENAME} found in ${path}`);
+		}
+		const manifest = parseBundleManifest(new TextDecoder().decode(manifestData));
+		if ((await this.listTemplates()).includes(manifest.name)) {
+			throw new Error(`Template "${manifest.name}" already exists`);
+		}
+
+		const bundleFiles = [manifest.template, ...manifest.assets];
+		const missing = bundleFiles.filter((file) => !files.has(file));
+		if (missing.length) {
+			throw new Error(`Bundle files not found: ${missing.join(", ")}`);
+		}
+
+		// Only files listed in the manifest (validated relative paths) are written
+		const target = this.getBundleFolder(manifest.name);
+		for (const file of bundleFiles) {
+			const data = files.get(file);
+			if (data) {
+				await this.writeBinary(`${target}/${file}`, data);
+			}
+		}
+		await this.vault.adapter.write(
+			`${target}/${BUNDLE_MANIFEST_FILENAME}`,
+			serializeBundleManifest(manifest)
+		);
+		return manifest.name;
+	}
+
+	/**
+	 * Export a template as a self-contained bundle folder or zip archive.
+	 * `//@extends` and `//@include` are resolved, and referenced vault files
+	 * (and all assets of a bundle) are copied into the bundle.
+	 * @param templateName Template to export
+	 * @param targetFolder Vault folder the bundle is created in
+	 * @param format Write a bundle folder, or a `<template>.zip` archive
+	 * @returns Vault path of the exported bundle folder or archive
+	 */
+	async exportBundle(
+		templateName: string,
+		targetFolder: string,
+		format: TemplateBundleFormat = "folder"
+	): Promise<string> {
+		const adapter = this.vault.adapter;
+		const bundlePath = normalizePath(
+			`${targetFolder}/${templateName}${format === "zip" ? ".zip" : ""}`
+		);
+		if (await adapter.exists(bundlePath)) {
+			throw new Error(`${bundlePath} already exists`);
+		}
+
+		const files = await this.collectBundleFiles(templateName);
+		if (format === "zip") {
+			const archive = createZip(
+				[...files].map(([path, data]) => ({ path, data }))
+			);
+			await this.writeBinary(bundlePath, archive);
+		} else {
+			for (const [path, data] of files) {
+				await this.writeBinary(`${bundlePath}/${path}`, data);
+			}
+		}
+		return bundlePath;
+	}
+
+	/**
+	 * Vault path of the folder an installed bundle lives in.
+	 */
+	getBundleFolder(templateName: string): string {
+		return normalizePath(`${this.contentDirectory}/${this.normalizeContentName(templateName)}`);
 	}
 
 	/**
-	 * Load template content by template name. Returns default template if not found.
+	 * Files of an exported bundle keyed by bundle-relative path:
+	 * the composed template, its assets and the manifest.
+	 */
+	private async collectBundleFiles(templateName: string): Promise<Map<string, Uint8Array>> {
+		const adapter = this.vault.adapter;
+		const manifest = await this.getBundleManifest(templateName);
+		const sourceFolder = manifest ? this.getBundleFolder(templateName) : undefined;
+		const template = await this.loadTemplate(templateName);
+
+		const rootPaths: string[] = [];
+		for (const path of findRootPaths(template)) {
+			if (await adapter.exists(path.slice(1))) {
+				rootPaths.push(path);
+			}
+		}
+		// Unreferenced bundle assets (e.g. fonts) are kept as well
+		for (const asset of manifest?.assets ?? []) {
+			const rootPath = `/${sourceFolder}/${asset}`;
+			if (!rootPaths.includes(rootPath)) {
+				rootPaths.push(rootPath);
+			}
+		}
+
+		const relocated = relocateAssets(template, rootPaths, sourceFolder);
+		const encoder = new TextEncoder();
+		const files = new Map<string, Uint8Array>();
+		for (const [vaultPath, bundlePath] of relocated.assets) {
+			files.set(bundlePath, new Uint8Array(await adapter.readBinary(vaultPath)));
+		}
+		files.set(DEFAULT_BUNDLE_ENTRY, encoder.encode(relocated.template));
+		files.set(
+			BUNDLE_MANIFEST_FILENAME,
+			encoder.encode(
+				serializeBundleManifest({
+					name: templateName,
+					version: manifest?.version,
+					description: manifest?.description,
+					template: DEFAULT_BUNDLE_ENTRY,
+					assets: [...relocated.assets.values()],
+				})
+			)
+		);
+		return files;
+	}
+
+	/**
+	 * Read the manifest and the files it lists from a bundle folder
+	 */
+	private async readFolderBundle(folder: string): Promise<Map<string, Uint8Array>> {
+		const adapter = this.vault.adapter;
+		const files = new Map<string, Uint8Array>();
+		const manifestPath = `${folder}/${BUNDLE_MANIFEST_FILENAME}`;
+		if (!(await adapter.exists(manifestPath))) {
+			return files;
+		}
+
+		const manifest = parseBundleManifest(await adapter.read(manifestPath));
+		for (const file of [BUNDLE_MANIFEST_FILENAME, manifest.template, ...manifest.assets]) {
+			const path = `${folder}/${file}`;
+			if (await adapter.exists(path)) {
+				files.set(file, new Uint8Array(await adapter.readBinary(path)));
+			}
+		}
+		return files;
+	}
+
+	/**
+	 * Read the files of a zipped bundle; the bundle folder may be the archive
+	 * root or a single top-level folder inside it.
+	 */
+	private async readZipBundle(archivePath: string): Promise<Map<string, Uint8Array>> {
+		const adapter = this.vault.adapter;
+		if (!(await adapter.exists(archivePath))) {
+			throw new Error(`${archivePath} not found`);
+		}
+
+		const entries = await readZip(await adapter.readBinary(archivePath));
+		const manifestPaths = entries
+			.map((entry) => entry.path.split("/"))
+			.filter(
+				(segments) =>
+					segments.length <= 2 &&
+					segments[segments.length - 1] === BUNDLE_MANIFEST_FILENAME
+			)
+			.sort((a, b) => a.length - b.length);
+		const prefix = manifestPaths.length === 0 || manifestPaths[0].length === 1
+			? ""
+			: `${manifestPaths[0][0]}/`;
+
+		const files = new Map<string, Uint8Array>();
+		for (const entry of entries) {
+			if (entry.path.startsWith(prefix)) {
+				files.set(entry.path.slice(prefix.length), entry.data);
+			}
+		}
+		return files;
+	}
+
+	private async writeBinary(targetPath: string, data: Uint8Array): Promise<void> {
+		const adapter = this.vault.adapter;
+		const segments = targetPath.split("/").slice(0, -1);
+		for (let i = 1; i <= segments.length; i++) {
+			const folder = segments.slice(0, i).join("/");
+			if (!(await adapter.exists(folder))) {
+				await adapter.mkdir(folder);
+			}
+		}
+		await adapter.writeBinary(
+			targetPath,
+			data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength)
+		);
+	}
+
+	/**
+	 * Load template content by template name with `//@extends` and `//@include` resolved.
+	 * Returns default template if not found.
+	 * @throws TemplateCompositionError for missing references and cycles
 	 */
 	async loadTemplate(templateName: string): Promise<string> {
+		const source = await this.loadContent(templateName);
+		return composeTemplate(templateName, source, (name) =>
+			this.findContent(name)
+		);
+	}
+
+	/**
+	 * Load the template source as written, without resolving references (for editing).
+	 */
+	async loadTemplateSource(templateName: string): Promise<string> {
 		return this.loadContent(templateName);
 	}
 
+	/**
+	 * Get the templates directly referenced by a template.
+	 */
+	async getTemplateReferences(templateName: string): Promise<TemplateReferences> {
+		const source = await this.findContent(templateName);
+		return source ? parseTemplateReferences(source) : { includes: [] };
+	}
+
+	/**
+	 * List templates that directly extend or include the given template.
+	 */
+	async getTemplateDependents(templateName: string): Promise<string[]> {
+		const target = normalizeTemplateReference(templateName);
+		const dependents: string[] = [];
+
+		for (const name of await this.listTemplates()) {
+			const references = await this.getTemplateReferences(name);
+			if (
+				references.extends === target ||
+				references.includes.includes(target)
+			) {
+				dependents.push(name);
+			}
+		}
+		return dependents;
+	}
+
 	/**
 	 * Save or update the template with provided content.
 	 */
@@ -99,6 +424,17 @@ export class TypstTemplateManager extends BaseContentManager<string> {
 	 * @param protectedTemplateName Optional protected template name (cannot be deleted)
 	 */
 	async deleteTemplate(templateName: string, protectedTemplateName?: string): Promise<void> {
+		if (await this.getBundleManifest(templateName)) {
+			if (
+				protectedTemplateName &&
+				this.normalizeContentName(templateName) ===
+					this.normalizeContentName(protectedTemplateName)
+			) {
+				throw new Error(`Cannot delete "${templateName}" as it is protected`);
+			}
+			await this.vault.adapter.rmdir(this.getBundleFolder(templateName), true);
+			return;
+		}
 		return this.deleteContent(templateName, protectedTemplateName);
 	}
 
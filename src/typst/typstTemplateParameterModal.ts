@@ -0,0 +1,185 @@
+import { App, Modal, Notice, Setting, TFile } from "obsidian";
+import {
+	formatFormValue,
+	parseFormValue,
+	type TemplateParameter,
+} from "./typstTemplateSchema";
+
+export interface TemplateParameterModalOptions {
+	file: TFile;
+	templateName: string;
+	schema: TemplateParameter[];
+}
+
+/**
+ * Template Parameter Modal - Renders a form from a template's parameter schema
+ * and writes the entered values into the note's frontmatter
+ */
+export class TemplateParameterModal extends Modal {
+	// Parameters edited in the form; only these are written back
+	private readonly changed = new Set<string>();
+
+	constructor(
+		app: App,
+		private readonly options: TemplateParameterModalOptions
+	) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		const { file, templateName, schema } = this.options;
+		contentEl.empty();
+		this.changed.clear();
+
+		new Setting(contentEl)
+			.setHeading()
+			.setName(`Template parameters: ${templateName}`);
+		contentEl.createEl("p", { text: `Note: ${file.path}` });
+
+		if (!schema.length) {
+			contentEl.createEl("p", {
+				text: "This template does not declare any //@param parameters.",
+			});
+			return;
+		}
+
+		const frontmatter =
+			this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+		const inputs = new Map<string, string | boolean>();
+
+		for (const parameter of schema) {
+			inputs.set(
+				parameter.name,
+				parameter.type === "boolean"
+					? formatFormValue(frontmatter[parameter.name] ?? parameter.default) ===
+							"true"
+					: formatFormValue(frontmatter[parameter.name])
+			);
+			this.renderField(contentEl, parameter, inputs);
+		}
+
+		const errorEl = contentEl.createEl("p", { cls: "mod-warning" });
+
+		const buttons = contentEl.createDiv({ cls: "modal-button-container" });
+		buttons
+			.createEl("button", { text: "Cancel" })
+			.addEventListener("click", () => this.close());
+
+		buttons
+			.createEl("button", { text: "Save", cls: "mod-cta" })
+			.addEventListener("click", async () => {
+				const values: Record<string, unknown> = {};
+				const issues: string[] = [];
+
+				for (const parameter of schema) {
+					try {
+						values[parameter.name] = parseFormValue(
+							parameter,
+							inputs.get(parameter.name) ?? ""
+						);
+					} catch (error) {
+						const reason =
+							error instanceof Error ? error.message : String(error);
+						issues.push(`${parameter.name}: ${reason}`);
+						continue;
+					}
+					if (parameter.required && values[parameter.name] === undefined) {
+						issues.push(`${parameter.name}: required`);
+					}
+				}
+
+				if (issues.length) {
+					errorEl.setText(issues.join("\n"));
+					return;
+				}
+
+				try {
+					await this.app.fileManager.processFrontMatter(file, (data) => {
+						for (const [key, value] of Object.entries(values)) {
+							if (!this.changed.has(key)) {
+								continue;
+							}
+							if (value === undefined) {
+								delete data[key];
+							} else {
+								data[key] = value;
+							}
+						}
+					});
+					new Notice(`Template parameters saved to ${file.basename}`);
+					this.close();
+				} catch (error) {
+					const message =
+						error instanceof Error ? error.message : String(error);
+					new Notice(`Failed to save parameters: ${message}`);
+				}
+			});
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private renderField(
+		containerEl: HTMLElement,
+		parameter: TemplateParameter,
+		inputs: Map<string, string | boolean>
+	): void {
+		const setting = new Setting(containerEl).setName(
+			parameter.required ? `${parameter.name} *` : parameter.name
+		);
+		const hints = [parameter.description, parameter.type];
+		if (parameter.default !== undefined) {
+			hints.push(`default: ${parameter.default}`);
+		}
+		setting.setDesc(hints.filter(Boolean).join(" · "));
+
+		const current = inputs.get(parameter.name);
+		const update = (value: string | boolean) => {
+			inputs.set(parameter.name, value);
+			this.changed.add(parameter.name);
+		};
+
+		switch (parameter.type) {
+			case "boolean":
+				setting.addToggle((toggle) =>
+					toggle.setValue(current === true).onChange(update)
+				);
+				break;
+			case "enum":
+				setting.addDropdown((dropdown) => {
+					dropdown.addOption("", "(default)");
+					for (const option of parameter.options ?? []) {
+						dropdown.addOption(option, option);
+					}
+					dropdown.setValue(String(current ?? "")).onChange(update);
+				});
+				break;
+			case "color":
+				setting.addColorPicker((picker) => {
+					if (/^#[0-9a-f]{6}$/i.test(String(current))) {
+						picker.setValue(String(current));
+					}
+					picker.onChange(update);
+				});
+				break;
+			default:
+				setting.addText((text) => {
+					text.setValue(String(current ?? "")).onChange(update);
+					text.setPlaceholder(
+						parameter.type === "date"
+							? "YYYY-MM-DD"
+							: parameter.type === "list"
+							? "item 1, item 2"
+							: parameter.type === "length"
+							? "2cm"
+							: parameter.default ?? ""
+					);
+					if (parameter.type === "date") {
+						text.inputEl.type = "date";
+					}
+				});
+		}
+	}
+}
@@ -0,0 +1,213 @@
+/**
+ * Template protocol: how a template and the converted body are combined
+ *
+ * - Prepend (default): the template is placed before the body, as before
+ * - Slot: the template contains a `{{content}}` marker that is replaced by the body
+ * - Wrap: the template declares `//@wrap <function>` and the body is wrapped with
+ *   `#show: <function>.with(...)`, passing frontmatter values as named arguments
+ *
+ * Every template may also use `{{frontmatter}}`, which expands to a Typst
+ * dictionary literal of the note's frontmatter, and `{{name}}` for each
+ * parameter declared in its schema (see typstTemplateSchema).
+ */
+
+import { escapeTypstString } from "./transformer";
+
+export type TemplateKind = "prepend" | "slot" | "wrap";
+
+export interface WrapDirective {
+	functionName: string;
+	/**
+	 * Explicit named arguments (parameter -> frontmatter key)
+	 * When omitted, parameters are inferred from the function signature
+	 */
+	args?: Record<string, string>;
+}
+
+const CONTENT_SLOT = "{{content}}";
+const FRONTMATTER_SLOT = "{{frontmatter}}";
+const WRAP_DIRECTIVE =
+	/^[ \t]*\/\/@wrap[ \t]+([\w-]+)(?:[ \t]*\(([^)]*)\))?[ \t]*$/m;
+
+/**
+ * Convert a frontmatter value to a Typst literal
+ * Unsupported values (functions, undefined) become `none`
+ */
+export function toTypstLiteral(value: unknown): string {
+	if (value === null || value === undefined) {
+		return "none";
+	}
+	if (typeof value === "string") {
+		return `"${escapeTypstString(value)}"`;
+	}
+	if (typeof value === "number") {
+		return Number.isFinite(value) ? String(value) : "none";
+	}
+	if (typeof value === "boolean") {
+		return String(value);
+	}
+	if (Array.isArray(value)) {
+		const items = value.map(toTypstLiteral);
+		return items.length === 1 ? `(${items[0]},)` : `(${items.join(", ")})`;
+	}
+	if (typeof value === "object") {
+		const entries = Object.entries(value as Record<string, unknown>).map(
+			([key, item]) => `${toTypstLiteral(key)}: ${toTypstLiteral(item)}`
+		);
+		return entries.length ? `(${entries.join(", ")})` : "(:)";
+	}
+	return "none";
+}
+
+/**
+ * Parse the `//@wrap project` or `//@wrap project(title, authors: author)` directive
+ */
+export function parseWrapDirective(template: string): WrapDirective | null {
+	const match = WRAP_DIRECTIVE.exec(template);
+	if (!match) {
+		return null;
+	}
+
+	const directive: WrapDirective = { functionName: match[1] };
+	if (match[2] !== undefined) {
+		directive.args = {};
+		for (const part of match[2].split(",")) {
+			const [param, key] = part.split(":").map((item) => item.trim());
+			if (param) {
+				directive.args[param] = key || param;
+			}
+		}
+	}
+	return directive;
+}
+
+/**
+ * Read the named parameters of `#let name(a: 1, b: (), body) = ...`
+ * @returns Parameter names, or null when the function is not defined in the template
+ */
+export function parseFunctionParameters(
+	template: string,
+	functionName: string
+): string[] | null {
+	const escapedName = functionName.replace(/[-]/g, "\\-");
+	const start = new RegExp(`#let\\s+${escapedName}\\s*\\(`).exec(template);
+	if (!start) {
+		return null;
+	}
+
+	// Split the parameter list on top-level commas, skipping nested brackets and strings
+	const params: string[] = [];
+	let current = "";
+	let depth = 0;
+	let inString = false;
+
+	for (let i = start.index + start[0].length; i < template.length; i++) {
+		const char = template[i];
+
+		if (inString) {
+			current += char;
+			if (char === "\\") {
+				current += template[++i] ?? "";
+			} else if (char === '"') {
+				inString = false;
+			}
+			continue;
+		}
+
+		if (char === '"') {
+			inString = true;
+		} else if ("([{".includes(char)) {
+			depth++;
+		} else if (")]}".includes(char)) {
+			if (depth === 0) {
+				params.push(current);
+				break;
+			}
+			depth--;
+		} else if (char === "," && depth === 0) {
+			params.push(current);
+			current = "";
+			continue;
+		}
+		current += char;
+	}
+
+	return params
+		.map((param) => /^\s*([\w-]+)\s*:/.exec(param)?.[1])
+		.filter((name): name is string => Boolean(name));
+}
+
+export function detectTemplateKind(template: string): TemplateKind {
+	if (parseWrapDirective(template)) {
+		return "wrap";
+	}
+	return template.includes(CONTENT_SLOT) ? "slot" : "prepend";
+}
+
+function buildNamedArgs(
+	template: string,
+	directive: WrapDirective,
+	frontmatter: Record<string, unknown>,
+	parameters: Record<string, string | undefined>
+): string[] {
+	const mapping =
+		directive.args ??
+		Object.fromEntries(
+			(parseFunctionParameters(template, directive.functionName) ?? []).map(
+				(param) => [param, param]
+			)
+		);
+
+	// Declared parameters are already validated and converted
+	return Object.entries(mapping)
+		.filter(
+			([, key]) =>
+				parameters[key] !== undefined ||
+				(!(key in parameters) && frontmatter[key] !== undefined)
+		)
+		.map(
+			([param, key]) =>
+				`${param}: ${parameters[key] ?? toTypstLiteral(frontmatter[key])}`
+		);
+}
+
+/**
+ * Combine a template with the converted body according to the template protocol
+ * @param template Template source
+ * @param content Converted Typst body
+ * @param frontmatter Frontmatter of the note (for named arguments and `{{frontmatter}}`)
+ * @param parameters Resolved schema parameters (name -> Typst literal, undefined when unset)
+ */
+export function applyTemplate(
+	template: string,
+	content: string,
+	frontmatter: Record<string, unknown> = {},
+	parameters: Record<string, string | undefined> = {}
+): string {
+	let source = template
+		.split(FRONTMATTER_SLOT)
+		.join(toTypstLiteral(frontmatter));
+	for (const [name, literal] of Object.entries(parameters)) {
+		source = source.split(`{{${name}}}`).join(literal ?? "none");
+	}
+
+	switch (detectTemplateKind(source)) {
+		case "wrap": {
+			const directive = parseWrapDirective(source) as WrapDirective;
+			const args = buildNamedArgs(
+				source,
+				directive,
+				frontmatter,
+				parameters
+			);
+			const call = args.length
+				? `${directive.functionName}.with(${args.join(", ")})`
+				: directive.functionName;
+			return `${source}\n\n#show: ${call}\n\n${content}`;
+		}
+		case "slot":
+			return source.split(CONTENT_SLOT).join(content);
+		default:
+			return `${source}\n\n${content}`;
+	}
+}
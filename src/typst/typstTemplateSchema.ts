@@ -0,0 +1,266 @@
+/**
+ * Template parameter schema
+ *
+ * A template declares its inputs with `//@param` comment lines, e.g.
+ *
+ *   //@param title: string required -- Document title
+ *   //@param date: date
+ *   //@param authors: list = Anonymous
+ *   //@param paper: enum(a4, us-letter) = a4
+ *   //@param draft: boolean = false
+ *   //@param margin: length = 2cm
+ *   //@param accent: color = #1e66f5
+ *
+ * Values are read from the frontmatter key with the same name, validated and
+ * converted to Typst literals. Declared parameters are available in the
+ * template as `{{name}}` placeholders and are passed to `//@wrap` functions.
+ */
+
+import { TemplateParameterError } from "./typstErrors";
+import { toTypstLiteral } from "./typstTemplateProtocol";
+
+export type TemplateParameterType =
+	| "string"
+	| "date"
+	| "list"
+	| "enum"
+	| "boolean"
+	| "length"
+	| "color";
+
+export interface TemplateParameter {
+	name: string;
+	type: TemplateParameterType;
+	required: boolean;
+	/** Allowed values of an enum parameter */
+	options?: string[];
+	/** Default value as written in the schema */
+	default?: string;
+	description?: string;
+}
+
+const PARAM_DIRECTIVE =
+	/^[ \t]*\/\/@param[ \t]+([\w-]+)[ \t]*:[ \t]*(string|date|list|boolean|length|color|enum[ \t]*\(([^)]*)\))([ \t]+required)?(?:[ \t]*=[ \t]*(.*?))?(?:[ \t]+--[ \t]+(.*?))?[ \t]*$/gm;
+
+// `{{content}}` and `{{frontmatter}}` are reserved by the template protocol
+const RESERVED_NAMES = new Set(["content", "frontmatter"]);
+
+const LENGTH_PATTERN = /^-?\d+(\.\d+)?(pt|mm|cm|in|em|%|fr)$/;
+const HEX_COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const NAMED_COLORS = new Set([
+	"black", "gray", "silver", "white", "navy", "blue", "aqua", "teal",
+	"eastern", "purple", "fuchsia", "maroon", "red", "orange", "yellow",
+	"olive", "green", "lime",
+]);
+
+function unquote(value: string): string {
+	const trimmed = value.trim();
+	return /^(["']).*\1$/.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
+}
+
+/**
+ * Read the `//@param` declarations of a template
+ */
+export function parseTemplateSchema(template: string): TemplateParameter[] {
+	const parameters: TemplateParameter[] = [];
+
+	for (const match of template.matchAll(PARAM_DIRECTIVE)) {
+		const [, name, rawType, enumOptions, required, defaultValue, description] =
+			match;
+		if (RESERVED_NAMES.has(name) || parameters.some((p) => p.name === name)) {
+			continue;
+		}
+
+		const parameter: TemplateParameter = {
+			name,
+			type: (enumOptions !== undefined ? "enum" : rawType) as TemplateParameterType,
+			required: Boolean(required),
+		};
+		if (enumOptions !== undefined) {
+			parameter.options = enumOptions
+				.split(",")
+				.map(unquote)
+				.filter(Boolean);
+		}
+		if (defaultValue) {
+			parameter.default = unquote(defaultValue);
+		}
+		if (description) {
+			parameter.description = description;
+		}
+		parameters.push(parameter);
+	}
+
+	return parameters;
+}
+
+function isEmpty(value: unknown): boolean {
+	return (
+		value === undefined ||
+		value === null ||
+		(typeof value === "string" && !value.trim()) ||
+		(Array.isArray(value) && !value.length)
+	);
+}
+
+function toDateParts(value: unknown): [number, number, number] | null {
+	if (value instanceof Date && !Number.isNaN(value.getTime())) {
+		return [value.getFullYear(), value.getMonth() + 1, value.getDate()];
+	}
+	const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(String(value).trim());
+	if (!match) {
+		return null;
+	}
+	const [year, month, day] = match.slice(1).map(Number);
+	const date = new Date(year, month - 1, day);
+	return date.getMonth() === month - 1 ? [year, month, day] : null;
+}
+
+/**
+ * Convert a single value to a Typst literal according to the parameter type
+ * @throws Error with a short reason when the value does not match the type
+ */
+function convertValue(parameter: TemplateParameter, value: unknown): string {
+	switch (parameter.type) {
+		case "string":
+			if (typeof value === "object") {
+				throw new Error("expected text");
+			}
+			return toTypstLiteral(String(value));
+		case "date": {
+			const parts = toDateParts(value);
+			if (!parts) {
+				throw new Error("expected a date like 2024-01-31");
+			}
+			const [year, month, day] = parts;
+			return `datetime(year: ${year}, month: ${month}, day: ${day})`;
+		}
+		case "list": {
+			const items = Array.isArray(value)
+				? value.map(String)
+				: String(value).split(",").map((item) => item.trim());
+			return toTypstLiteral(items.filter(Boolean));
+		}
+		case "enum": {
+			const text = String(value).trim();
+			if (!parameter.options?.includes(text)) {
+				throw new Error(
+					`expected one of ${(parameter.options ?? []).join(", ")}`
+				);
+			}
+			return toTypstLiteral(text);
+		}
+		case "boolean": {
+			const text = String(value).trim().toLowerCase();
+			if (text !== "true" && text !== "false") {
+				throw new Error("expected true or false");
+			}
+			return text;
+		}
+		case "length": {
+			const text = String(value).trim();
+			if (!LENGTH_PATTERN.test(text)) {
+				throw new Error("expected a length like 2cm or 11pt");
+			}
+			return text;
+		}
+		case "color": {
+			const text = String(value).trim();
+			if (HEX_COLOR_PATTERN.test(text)) {
+				return `rgb("${text}")`;
+			}
+			if (NAMED_COLORS.has(text.toLowerCase())) {
+				return text.toLowerCase();
+			}
+			throw new Error("expected a hex color like #1e66f5 or a Typst color name");
+		}
+	}
+}
+
+/**
+ * Fill the parameters from frontmatter and validate them
+ * @returns Parameter name -> Typst literal (undefined when there is no value or default)
+ * @throws TemplateParameterError listing every missing or invalid value
+ */
+export function resolveTemplateParameters(
+	schema: TemplateParameter[],
+	frontmatter: Record<string, unknown>,
+	templateName = ""
+): Record<string, string | undefined> {
+	const values: Record<string, string | undefined> = {};
+	const issues: string[] = [];
+
+	for (const parameter of schema) {
+		const provided = frontmatter[parameter.name];
+		const value = isEmpty(provided) ? parameter.default : provided;
+
+		if (isEmpty(value)) {
+			values[parameter.name] = undefined;
+			if (parameter.required) {
+				issues.push(`"${parameter.name}" is required (${parameter.type})`);
+			}
+			continue;
+		}
+
+		try {
+			values[parameter.name] = convertValue(parameter, value);
+		} catch (error) {
+			const source = isEmpty(provided) ? "default" : "value";
+			const reason = error instanceof Error ? error.message : String(error);
+			issues.push(
+				`"${parameter.name}" has invalid ${source} ${JSON.stringify(value)}: ${reason}`
+			);
+		}
+	}
+
+	if (issues.length) {
+		throw new TemplateParameterError(templateName, issues);
+	}
+	return values;
+}
+
+/**
+ * Convert a value entered in the parameter form to a frontmatter value
+ * @returns undefined for empty input (the key is removed from frontmatter)
+ * @throws Error with a short reason when the input does not match the type
+ */
+export function parseFormValue(
+	parameter: TemplateParameter,
+	input: string | boolean
+): unknown {
+	if (typeof input === "boolean") {
+		return input;
+	}
+	const text = input.trim();
+	if (!text) {
+		return undefined;
+	}
+
+	// Reuse the conversion rules so the form accepts exactly what conversion accepts
+	convertValue(parameter, text);
+
+	switch (parameter.type) {
+		case "list":
+			return text.split(",").map((item) => item.trim()).filter(Boolean);
+		case "boolean":
+			return text.toLowerCase() === "true";
+		default:
+			return text;
+	}
+}
+
+/**
+ * Format a frontmatter value for display in the parameter form
+ */
+export function formatFormValue(value: unknown): string {
+	if (isEmpty(value)) {
+		return "";
+	}
+	if (Array.isArray(value)) {
+		return value.map(String).join(", ");
+	}
+	if (value instanceof Date) {
+		return value.toISOString().slice(0, 10);
+	}
+	return String(value);
+}
@@ -14,6 +14,8 @@ export class TypstWasmRenderer {
 	private cache: TypstCache;
 	private storage: TypstWasmStorage;
 	private initialized = false;
+	// Extra source files mounted for #include (vault path -> content)
+	private sources = new Map<string, string>();
 	private initPromise: Promise<void> | null = null;
 
 	constructor(cacheSize: number = 100) {
@@ -128,6 +130,35 @@ export class TypstWasmRenderer {
 		}
 	}
 
+	/**
+	 * Mount additional source files (e.g. embedded note modules) for `#include`.
+	 * Paths are vault paths mounted at the root, like `--root <vault>` of the CLI.
+	 * @param sources Vault path -> Typst source
+	 */
+	async setSources(sources: Map<string, string>): Promise<void> {
+		if (!this.initialized) {
+			await this.initialize();
+		}
+		if (!typstModule || !typstModule.$typst) {
+			throw new Error("Typst module not loaded");
+		}
+
+		let changed = false;
+		for (const [path, content] of sources) {
+			if (this.sources.get(path) === content) {
+				continue;
+			}
+			await typstModule.$typst.addSource(`/${path}`, content);
+			this.sources.set(path, content);
+			changed = true;
+		}
+
+		// Cached renders may include the previous content of a module
+		if (changed) {
+			this.cache.clear();
+		}
+	}
+
 	/**
 	 * Render Typst code to SVG (with cache).
 	 * @param code Typst source code
@@ -166,13 +197,8 @@ export class TypstWasmRenderer {
 				throw new Error("Typst module not loaded");
 			}
 
-			// Add page settings before code for auto size and compact output
-			// width: auto, height: auto for automatic sizing
-			// margin: 0em to remove default margins and make output tighter
-			const wrappedCode = `#set page(height: auto, margin: 2.07em)\n${code}`;
-
 			const svg = await typstModule.$typst.svg({
-				mainContent: wrappedCode,
+				mainContent: this.wrapCode(code),
 			});
 
 			if (typeof svg !== "string") {
@@ -190,6 +216,42 @@ export class TypstWasmRenderer {
 		}
 	}
 
+	/**
+	 * Query elements of the rendered document (e.g. `<label>` selectors).
+	 * Uses the same page settings as rendering, so positions match the SVG.
+	 * @param code Typst source code
+	 * @param selector Typst selector
+	 * @param field Field to read from each element (e.g. "value" of metadata)
+	 * @returns Query result
+	 */
+	async query<T = unknown>(
+		code: string,
+		selector: string,
+		field?: string
+	): Promise<T> {
+		if (!this.initialized) {
+			await this.initialize();
+		}
+		if (!typstModule || !typstModule.$typst) {
+			throw new Error("Typst module not loaded");
+		}
+
+		return typstModule.$typst.query({
+			mainContent: this.wrapCode(code),
+			selector,
+			field,
+		});
+	}
+
+	/**
+	 * Add page settings before code for auto size and compact output
+	 * width: auto, height: auto for automatic sizing
+	 * margin: 0em to remove default margins and make output tighter
+	 */
+	private wrapCode(code: string): string {
+		return `#set page(height: auto, margin: 2.07em)\n${code}`;
+	}
+
 	/**
 	 * Calculate SHA-256 hash of code.
 	 * @param code Source code
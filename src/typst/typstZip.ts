@@ -0,0 +1,214 @@
+/**
+ * Minimal zip archive support for template bundles
+ *
+ * - Writing stores files uncompressed (method 0), which every zip tool reads
+ * - Reading accepts stored and deflated (method 8) entries; deflate is decoded
+ *   with the platform's DecompressionStream
+ * Zip64, encryption and multi-disk archives are not supported.
+ */
+
+export interface ZipEntry {
+	/** Path inside the archive, separated by `/` */
+	path: string;
+	data: Uint8Array;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const UTF8_FLAG = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) {
+				c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			}
+			crcTable[n] = c >>> 0;
+		}
+	}
+
+	let crc = 0xffffffff;
+	for (const byte of data) {
+		crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+	return {
+		time:
+			(date.getHours() << 11) |
+			(date.getMinutes() << 5) |
+			Math.floor(date.getSeconds() / 2),
+		date:
+			((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+			((date.getMonth() + 1) << 5) |
+			date.getDate(),
+	};
+}
+
+/**
+ * Build a zip archive from the given files
+ * @param entries Files to store, in archive order
+ * @param modified Modification time recorded for every entry
+ */
+export function createZip(entries: ZipEntry[], modified = new Date()): Uint8Array {
+	const encoder = new TextEncoder();
+	const stamp = dosDateTime(modified);
+	const locals: Uint8Array[] = [];
+	const centrals: Uint8Array[] = [];
+	let offset = 0;
+
+	for (const entry of entries) {
+		const name = encoder.encode(entry.path);
+		const crc = crc32(entry.data);
+		const size = entry.data.length;
+
+		const local = new Uint8Array(30 + name.length + size);
+		const localView = new DataView(local.buffer);
+		localView.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+		localView.setUint16(4, 20, true);
+		localView.setUint16(6, UTF8_FLAG, true);
+		localView.setUint16(8, 0, true);
+		localView.setUint16(10, stamp.time, true);
+		localView.setUint16(12, stamp.date, true);
+		localView.setUint32(14, crc, true);
+		localView.setUint32(18, size, true);
+		localView.setUint32(22, size, true);
+		localView.setUint16(26, name.length, true);
+		localView.setUint16(28, 0, true);
+		local.set(name, 30);
+		local.set(entry.data, 30 + name.length);
+
+		const central = new Uint8Array(46 + name.length);
+		const centralView = new DataView(central.buffer);
+		centralView.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+		centralView.setUint16(4, 20, true);
+		centralView.setUint16(6, 20, true);
+		centralView.setUint16(8, UTF8_FLAG, true);
+		centralView.setUint16(10, 0, true);
+		centralView.setUint16(12, stamp.time, true);
+		centralView.setUint16(14, stamp.date, true);
+		centralView.setUint32(16, crc, true);
+		centralView.setUint32(20, size, true);
+		centralView.setUint32(24, size, true);
+		centralView.setUint16(28, name.length, true);
+		centralView.setUint32(42, offset, true);
+		central.set(name, 46);
+
+		locals.push(local);
+		centrals.push(central);
+		offset += local.length;
+	}
+
+	const centralSize = centrals.reduce((sum, part) => sum + part.length, 0);
+	const end = new Uint8Array(END_OF_CENTRAL_DIRECTORY_SIZE);
+	const endView = new DataView(end.buffer);
+	endView.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+	endView.setUint16(8, entries.length, true);
+	endView.setUint16(10, entries.length, true);
+	endView.setUint32(12, centralSize, true);
+	endView.setUint32(16, offset, true);
+
+	const archive = new Uint8Array(offset + centralSize + end.length);
+	let position = 0;
+	for (const part of [...locals, ...centrals, end]) {
+		archive.set(part, position);
+		position += part.length;
+	}
+	return archive;
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+	const stream = new Blob([data])
+		.stream()
+		.pipeThrough(new DecompressionStream("deflate-raw"));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Read the files of a zip archive (directories are skipped)
+ * @throws Error when the archive is malformed or uses an unsupported feature
+ */
+export async function readZip(archive: ArrayBuffer | Uint8Array): Promise<ZipEntry[]> {
+	const bytes = archive instanceof Uint8Array ? archive : new Uint8Array(archive);
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+	// The end record sits at the very end, followed only by an optional comment
+	let end = -1;
+	for (let i = bytes.length - END_OF_CENTRAL_DIRECTORY_SIZE; i >= 0; i--) {
+		if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+			end = i;
+			break;
+		}
+	}
+	if (end < 0) {
+		throw new Error("Not a zip archive");
+	}
+
+	const count = view.getUint16(end + 10, true);
+	let position = view.getUint32(end + 16, true);
+	if (count === 0xffff || position === 0xffffffff) {
+		throw new Error("Zip64 archives are not supported");
+	}
+
+	const decoder = new TextDecoder();
+	const entries: ZipEntry[] = [];
+	for (let index = 0; index < count; index++) {
+		if (
+			position + 46 > bytes.length ||
+			view.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE
+		) {
+			throw new Error("Corrupt zip central directory");
+		}
+		const flags = view.getUint16(position + 8, true);
+		const method = view.getUint16(position + 10, true);
+		const compressedSize = view.getUint32(position + 20, true);
+		const nameLength = view.getUint16(position + 28, true);
+		const extraLength = view.getUint16(position + 30, true);
+		const commentLength = view.getUint16(position + 32, true);
+		const localOffset = view.getUint32(position + 42, true);
+		const path = decoder.decode(
+			bytes.subarray(position + 46, position + 46 + nameLength)
+		);
+		position += 46 + nameLength + extraLength + commentLength;
+
+		if (path.endsWith("/")) {
+			continue;
+		}
+		if (flags & 0x1) {
+			throw new Error(`Encrypted zip entry: ${path}`);
+		}
+		if (
+			localOffset + 30 > bytes.length ||
+			view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE
+		) {
+			throw new Error(`Corrupt zip entry: ${path}`);
+		}
+
+		const start =
+			localOffset +
+			30 +
+			view.getUint16(localOffset + 26, true) +
+			view.getUint16(localOffset + 28, true);
+		if (start + compressedSize > bytes.length) {
+			throw new Error(`Truncated zip entry: ${path}`);
+		}
+		const raw = bytes.subarray(start, start + compressedSize);
+		if (method === 0) {
+			entries.push({ path, data: raw.slice() });
+		} else if (method === 8) {
+			entries.push({ path, data: await inflateRaw(raw) });
+		} else {
+			throw new Error(`Unsupported zip compression method ${method}: ${path}`);
+		}
+	}
+
+	return entries;
+}